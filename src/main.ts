@@ -4,4 +4,6 @@ import { ConfinedSpaceXR } from './scenes/ConfinedSpaceXR';
 window.addEventListener('DOMContentLoaded', () => {
   const app = new ConfinedSpaceXR();
   app.init();
+  // scripting hook for the devtools console, e.g. viewer.hide('water')
+  (window as unknown as { viewer: ConfinedSpaceXR }).viewer = app;
 });
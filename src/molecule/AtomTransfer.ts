@@ -0,0 +1,110 @@
+import type { Atom } from './PDBLoader';
+
+/**
+ * Pack atom models into typed arrays that can be posted from a worker with
+ * zero-copy transfer, and turn them back into Atom objects on the other
+ * side. Structured clone of the Atom objects themselves would copy and
+ * rebuild every one of them while the message is received.
+ */
+
+type TextField = 'element' | 'name' | 'altLoc' | 'resName' | 'iCode' | 'chainId';
+const TEXT_FIELDS: TextField[] = ['element', 'name', 'altLoc', 'resName', 'iCode', 'chainId'];
+
+/** Every atom of every model, one entry per atom in the per-atom arrays. */
+export interface PackedModels {
+  /** Index of each model's first atom, followed by the total atom count. */
+  offsets: Uint32Array;
+  /** x, y, z per atom. */
+  coords: Float64Array;
+  occupancy: Float64Array;
+  bFactor: Float64Array;
+  serial: Int32Array;
+  resSeq: Int32Array;
+  charge: Int8Array;
+  hetero: Uint8Array;
+  /** Distinct values of the text fields (a few hundred at most; copied). */
+  strings: string[];
+  /** Per text field, each atom's index into `strings`. */
+  text: Record<TextField, Uint32Array>;
+}
+
+/** Pack `models`; `transfer` lists the buffers to pass to postMessage. */
+export function packModels(models: Atom[][]): { data: PackedModels; transfer: ArrayBuffer[] } {
+  const offsets = new Uint32Array(models.length + 1);
+  models.forEach((atoms, m) => (offsets[m + 1] = offsets[m] + atoms.length));
+  const n = offsets[models.length];
+  const data: PackedModels = {
+    offsets,
+    coords: new Float64Array(n * 3),
+    occupancy: new Float64Array(n),
+    bFactor: new Float64Array(n),
+    serial: new Int32Array(n),
+    resSeq: new Int32Array(n),
+    charge: new Int8Array(n),
+    hetero: new Uint8Array(n),
+    strings: [],
+    text: {} as Record<TextField, Uint32Array>,
+  };
+  for (const field of TEXT_FIELDS) data.text[field] = new Uint32Array(n);
+
+  const stringIndex = new Map<string, number>();
+  const intern = (s: string): number => {
+    let index = stringIndex.get(s);
+    if (index === undefined) {
+      index = data.strings.length;
+      data.strings.push(s);
+      stringIndex.set(s, index);
+    }
+    return index;
+  };
+
+  let i = 0;
+  for (const atoms of models) {
+    for (const atom of atoms) {
+      data.coords[3 * i] = atom.x;
+      data.coords[3 * i + 1] = atom.y;
+      data.coords[3 * i + 2] = atom.z;
+      data.occupancy[i] = atom.occupancy;
+      data.bFactor[i] = atom.bFactor;
+      data.serial[i] = atom.serial;
+      data.resSeq[i] = atom.resSeq;
+      data.charge[i] = atom.charge;
+      data.hetero[i] = atom.hetero ? 1 : 0;
+      for (const field of TEXT_FIELDS) data.text[field][i] = intern(atom[field]);
+      i++;
+    }
+  }
+
+  const arrays = [offsets, data.coords, data.occupancy, data.bFactor, data.serial, data.resSeq, data.charge, data.hetero, ...Object.values(data.text)];
+  return { data, transfer: arrays.map((a) => a.buffer as ArrayBuffer) };
+}
+
+/** Rebuild the models packed by packModels. */
+export function unpackModels(data: PackedModels): Atom[][] {
+  const { offsets, coords, strings, text } = data;
+  const models: Atom[][] = [];
+  for (let m = 0; m + 1 < offsets.length; m++) {
+    const atoms: Atom[] = new Array(offsets[m + 1] - offsets[m]);
+    for (let i = offsets[m], j = 0; i < offsets[m + 1]; i++, j++) {
+      atoms[j] = {
+        x: coords[3 * i],
+        y: coords[3 * i + 1],
+        z: coords[3 * i + 2],
+        element: strings[text.element[i]],
+        serial: data.serial[i],
+        name: strings[text.name[i]],
+        altLoc: strings[text.altLoc[i]],
+        resName: strings[text.resName[i]],
+        resSeq: data.resSeq[i],
+        iCode: strings[text.iCode[i]],
+        chainId: strings[text.chainId[i]],
+        occupancy: data.occupancy[i],
+        bFactor: data.bFactor[i],
+        charge: data.charge[i],
+        hetero: data.hetero[i] === 1,
+      };
+    }
+    models.push(atoms);
+  }
+  return models;
+}
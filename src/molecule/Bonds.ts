@@ -0,0 +1,226 @@
+import type { Atom, ConectRecord } from './PDBLoader';
+import { buildStructure, Residue } from './Structure';
+import { SpatialGrid } from './SpatialGrid';
+
+/** Covalent bond between two atoms, referenced by index into the atom array. */
+export interface Bond {
+  a: number;
+  b: number;
+  /** 1 = single, 2 = double, 3 = triple (aromatic rings use Kekulé orders). */
+  order: number;
+}
+
+/** Single-bond covalent radii in Å (Cordero et al. 2008), keyed by upper-case symbol. */
+export const COVALENT_RADII: Record<string, number> = {
+  H: 0.31, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57,
+  NA: 1.66, MG: 1.41, AL: 1.21, SI: 1.11, P: 1.07, S: 1.05, CL: 1.02,
+  K: 2.03, CA: 1.76, MN: 1.39, FE: 1.32, CO: 1.26, NI: 1.24, CU: 1.32, ZN: 1.22,
+  SE: 1.2, BR: 1.2, I: 1.39,
+};
+const DEFAULT_RADIUS = 1.5;
+const MAX_RADIUS = Math.max(DEFAULT_RADIUS, ...Object.values(COVALENT_RADII));
+// slack added to the sum of covalent radii for distance-based bonds
+const BOND_TOLERANCE = 0.4;
+
+/* ------------------------------------------------------------------ */
+/*  Residue connectivity templates                                     */
+/* ------------------------------------------------------------------ */
+
+// "A-B" is a single bond, "A=B" a double bond.
+const AMINO_BACKBONE = ['N-CA', 'CA-C', 'C=O', 'C-OXT'];
+const AMINO_SIDECHAINS: Record<string, string[]> = {
+  ALA: ['CA-CB'],
+  ARG: ['CA-CB', 'CB-CG', 'CG-CD', 'CD-NE', 'NE-CZ', 'CZ=NH1', 'CZ-NH2'],
+  ASN: ['CA-CB', 'CB-CG', 'CG=OD1', 'CG-ND2'],
+  ASP: ['CA-CB', 'CB-CG', 'CG=OD1', 'CG-OD2'],
+  CYS: ['CA-CB', 'CB-SG'],
+  GLN: ['CA-CB', 'CB-CG', 'CG-CD', 'CD=OE1', 'CD-NE2'],
+  GLU: ['CA-CB', 'CB-CG', 'CG-CD', 'CD=OE1', 'CD-OE2'],
+  GLY: [],
+  HIS: ['CA-CB', 'CB-CG', 'CG-ND1', 'CG=CD2', 'ND1=CE1', 'CE1-NE2', 'NE2-CD2'],
+  ILE: ['CA-CB', 'CB-CG1', 'CB-CG2', 'CG1-CD1'],
+  LEU: ['CA-CB', 'CB-CG', 'CG-CD1', 'CG-CD2'],
+  LYS: ['CA-CB', 'CB-CG', 'CG-CD', 'CD-CE', 'CE-NZ'],
+  MET: ['CA-CB', 'CB-CG', 'CG-SD', 'SD-CE'],
+  MSE: ['CA-CB', 'CB-CG', 'CG-SE', 'SE-CE'],
+  PHE: ['CA-CB', 'CB-CG', 'CG=CD1', 'CG-CD2', 'CD1-CE1', 'CD2=CE2', 'CE1=CZ', 'CE2-CZ'],
+  PRO: ['CA-CB', 'CB-CG', 'CG-CD', 'CD-N'],
+  SER: ['CA-CB', 'CB-OG'],
+  THR: ['CA-CB', 'CB-OG1', 'CB-CG2'],
+  TRP: [
+    'CA-CB', 'CB-CG', 'CG=CD1', 'CG-CD2', 'CD1-NE1', 'NE1-CE2', 'CD2=CE2',
+    'CD2-CE3', 'CE2-CZ2', 'CE3=CZ3', 'CZ2=CH2', 'CZ3-CH2',
+  ],
+  TYR: ['CA-CB', 'CB-CG', 'CG=CD1', 'CG-CD2', 'CD1-CE1', 'CD2=CE2', 'CE1=CZ', 'CE2-CZ', 'CZ-OH'],
+  VAL: ['CA-CB', 'CB-CG1', 'CB-CG2'],
+};
+
+// sugar-phosphate backbone; OP1/OP2 were called O1P/O2P before remediation
+const NUCLEIC_BACKBONE = [
+  'P=OP1', 'P-OP2', 'P=O1P', 'P-O2P', 'P-O5\'', 'O5\'-C5\'', 'C5\'-C4\'', 'C4\'-O4\'',
+  'C4\'-C3\'', 'C3\'-O3\'', 'C3\'-C2\'', 'C2\'-C1\'', 'C1\'-O4\'', 'C2\'-O2\'',
+];
+const PURINE_A = ['C1\'-N9', 'N9-C8', 'C8=N7', 'N7-C5', 'C5=C4', 'C4-N9', 'C5-C6', 'C6-N6', 'C6=N1', 'N1-C2', 'C2=N3', 'N3-C4'];
+const PURINE_G = ['C1\'-N9', 'N9-C8', 'C8=N7', 'N7-C5', 'C5=C4', 'C4-N9', 'C5-C6', 'C6=O6', 'C6-N1', 'N1-C2', 'C2-N2', 'C2=N3', 'N3-C4'];
+const PYRIMIDINE_C = ['C1\'-N1', 'N1-C2', 'C2=O2', 'C2-N3', 'N3=C4', 'C4-N4', 'C4-C5', 'C5=C6', 'C6-N1'];
+const PYRIMIDINE_U = ['C1\'-N1', 'N1-C2', 'C2=O2', 'C2-N3', 'N3-C4', 'C4=O4', 'C4-C5', 'C5=C6', 'C6-N1'];
+const PYRIMIDINE_T = [...PYRIMIDINE_U, 'C5-C7', 'C5-C5M'];
+const NUCLEIC_BASES: Record<string, string[]> = {
+  A: PURINE_A, DA: PURINE_A,
+  G: PURINE_G, DG: PURINE_G,
+  C: PYRIMIDINE_C, DC: PYRIMIDINE_C,
+  U: PYRIMIDINE_U, DU: PYRIMIDINE_U,
+  DT: PYRIMIDINE_T,
+};
+
+type TemplateBond = [string, string, number];
+
+function parseTemplate(specs: string[]): TemplateBond[] {
+  return specs.map((spec) => {
+    const double = spec.includes('=');
+    const [a, b] = spec.split(double ? '=' : '-');
+    return [a, b, double ? 2 : 1];
+  });
+}
+
+const TEMPLATES = new Map<string, TemplateBond[]>();
+for (const [name, side] of Object.entries(AMINO_SIDECHAINS)) {
+  TEMPLATES.set(name, parseTemplate([...AMINO_BACKBONE, ...side]));
+}
+for (const [name, base] of Object.entries(NUCLEIC_BASES)) {
+  TEMPLATES.set(name, parseTemplate([...NUCLEIC_BACKBONE, ...base]));
+}
+
+/** True if `resName` is a standard residue with a built-in connectivity template. */
+export function hasResidueTemplate(resName: string): boolean {
+  return TEMPLATES.has(resName);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Bond computation                                                   */
+/* ------------------------------------------------------------------ */
+
+function dist2(a: Atom, b: Atom): number {
+  return (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2;
+}
+
+/** Alternate locations A and B of the same atom must not be bonded to each other. */
+function altLocCompatible(a: Atom, b: Atom): boolean {
+  return !a.altLoc || !b.altLoc || a.altLoc === b.altLoc;
+}
+
+/** Distance test using element covalent radii (coordinates in Å). */
+export function isCovalentDistance(a: Atom, b: Atom): boolean {
+  const max = (COVALENT_RADII[a.element] ?? DEFAULT_RADIUS) + (COVALENT_RADII[b.element] ?? DEFAULT_RADIUS) + BOND_TOLERANCE;
+  const d2 = dist2(a, b);
+  return d2 > 0.16 && d2 < max * max;
+}
+
+/**
+ * Compute the covalent bonds of a structure (coordinates must be in Å):
+ * 1. intra-residue bonds of standard amino acids / nucleotides from templates,
+ * 2. peptide (C–N) and phosphodiester (O3'–P) links between consecutive residues,
+ * 3. disulfides between cysteine SG atoms,
+ * 4. CONECT / struct_conn records (ligands, modified residues, glycans),
+ * 5. covalent-radius distance criteria for everything not covered above.
+ */
+export function computeBonds(atoms: Atom[], conect: ConectRecord[] = []): Bond[] {
+  const bonds: Bond[] = [];
+  const seen = new Set<number>();
+  const n = atoms.length;
+  const add = (a: number, b: number, order: number) => {
+    if (a === b) return;
+    const key = a < b ? a * n + b : b * n + a;
+    if (seen.has(key)) return;
+    seen.add(key);
+    bonds.push({ a, b, order });
+  };
+
+  const structure = buildStructure(atoms);
+  const grid = new SpatialGrid(atoms);
+  // residues whose connectivity is given explicitly by CONECT records
+  const explicit = new Set<number>();
+
+  // 4. explicit records first so their bond orders win
+  const bySerial = new Map<number, number>();
+  atoms.forEach((atom, i) => bySerial.set(atom.serial, i));
+  for (const rec of conect) {
+    const a = bySerial.get(rec.a);
+    const b = bySerial.get(rec.b);
+    if (a === undefined || b === undefined) continue;
+    add(a, b, rec.order);
+    explicit.add(structure.atomResidue[a]);
+    explicit.add(structure.atomResidue[b]);
+  }
+
+  let prev: Residue | undefined;
+  for (const res of structure.residues) {
+    const template = TEMPLATES.get(res.name);
+    const byName = new Map<string, number[]>();
+    for (const i of res.atoms) {
+      const list = byName.get(atoms[i].name);
+      if (list) list.push(i);
+      else byName.set(atoms[i].name, [i]);
+    }
+    const bonded = new Set<number>();
+    const link = (nameA: string, nameB: string, order: number, maxDist: number) => {
+      for (const i of byName.get(nameA) ?? []) {
+        for (const j of byName.get(nameB) ?? []) {
+          if (altLocCompatible(atoms[i], atoms[j]) && dist2(atoms[i], atoms[j]) < maxDist * maxDist) {
+            add(i, j, order);
+            bonded.add(i);
+            bonded.add(j);
+          }
+        }
+      }
+    };
+
+    if (template) {
+      // 1. template bonds (generous cutoff only guards against broken residues)
+      for (const [a, b, order] of template) link(a, b, order, 2.2);
+
+      // 2. backbone link to the previous residue of the same chain
+      if (prev && prev.chain === res.chain && TEMPLATES.has(prev.name)) {
+        const linkPrev = (nameA: string, nameB: string, maxDist: number) => {
+          for (const i of prev!.atoms) {
+            if (atoms[i].name !== nameA) continue;
+            for (const j of byName.get(nameB) ?? []) {
+              if (altLocCompatible(atoms[i], atoms[j]) && dist2(atoms[i], atoms[j]) < maxDist * maxDist) add(i, j, 1);
+            }
+          }
+        };
+        linkPrev('C', 'N', 1.75);
+        linkPrev('O3\'', 'P', 1.8);
+      }
+    }
+
+    // 5. atoms not covered by a template: hydrogens bond within their own residue,
+    //    ligands and non-standard residues without CONECT records search globally
+    if (!explicit.has(res.index) || template) {
+      for (const i of res.atoms) {
+        if (bonded.has(i)) continue;
+        const a = atoms[i];
+        const reach = (COVALENT_RADII[a.element] ?? DEFAULT_RADIUS) + MAX_RADIUS + BOND_TOLERANCE;
+        grid.forEachWithin(a.x, a.y, a.z, reach, (j) => {
+          if (j === i || (template && structure.atomResidue[j] !== res.index)) return;
+          if (altLocCompatible(a, atoms[j]) && isCovalentDistance(a, atoms[j])) add(i, j, 1);
+        });
+      }
+    }
+    prev = res;
+  }
+
+  // 3. disulfide bridges
+  for (const res of structure.residues) {
+    if (res.name !== 'CYS') continue;
+    for (const i of res.atoms) {
+      const a = atoms[i];
+      if (a.name !== 'SG') continue;
+      grid.forEachWithin(a.x, a.y, a.z, 2.3, (j) => {
+        if (atoms[j].name === 'SG' && atoms[j].resName === 'CYS' && structure.atomResidue[j] !== res.index) add(i, j, 1);
+      });
+    }
+  }
+
+  return bonds;
+}
@@ -0,0 +1,570 @@
+import type { Atom, ConectRecord, MoleculeData } from './PDBLoader';
+import type { SecondaryStructureRecord } from './SecondaryStructure';
+import type { SequenceRecord } from './Sequence';
+import { decodeMsgPack } from './MsgPack';
+
+/**
+ * Row/column view of one CIF category. Text mmCIF and BinaryCIF are decoded into
+ * this shape so that the atom model is built by a single code path.
+ */
+export interface CifCategory {
+  rowCount: number;
+  /** Value as a string; '' for missing ('.' / '?') entries and absent columns. */
+  str(field: string, row: number): string;
+  /** Numeric value; NaN for missing entries and absent columns. */
+  num(field: string, row: number): number;
+}
+
+// categories read from each file
+const CATEGORIES = ['atom_site', 'struct_conn', 'struct_conf', 'struct_sheet_range', 'pdbx_poly_seq_scheme'];
+
+function moleculeFromCategories(cats: Map<string, CifCategory>): MoleculeData {
+  const site = cats.get('atom_site');
+  const models = site ? modelsFromAtomSite(site) : [];
+  const conn = cats.get('struct_conn');
+  const conect = conn && models.length ? conectFromStructConn(conn, models[0]) : [];
+  const secondary = [
+    ...secondaryFromCategory(cats.get('struct_conf'), 'helix'),
+    ...secondaryFromCategory(cats.get('struct_sheet_range'), 'sheet'),
+  ];
+  const scheme = cats.get('pdbx_poly_seq_scheme');
+  const sequences = scheme ? sequencesFromPolySeqScheme(scheme) : [];
+  return { models, conect, secondary, sequences };
+}
+
+/** Parse an mmCIF text file (first data block only), one atom list per model. */
+export function parseMmCIFData(text: string): MoleculeData {
+  return moleculeFromCategories(readCifText(text, CATEGORIES));
+}
+
+/** Parse a BinaryCIF (MessagePack encoded) file (first data block only). */
+export function parseBinaryCIFData(buffer: ArrayBuffer | Uint8Array): MoleculeData {
+  return moleculeFromCategories(readBinaryCif(buffer, CATEGORIES));
+}
+
+/** Parse an mmCIF text file; for multi-model files only the first model is returned. */
+export function parseMmCIF(text: string): Atom[] {
+  return parseMmCIFData(text).models[0] ?? [];
+}
+
+/** Parse a BinaryCIF file; for multi-model files only the first model is returned. */
+export function parseBinaryCIF(buffer: ArrayBuffer | Uint8Array): Atom[] {
+  return parseBinaryCIFData(buffer).models[0] ?? [];
+}
+
+/** Cheap format sniff: mmCIF files start with a `data_` block header (after comments). */
+export function isMmCIF(text: string): boolean {
+  // a plain loop: a nested-quantifier regex backtracks exponentially on PDB text
+  for (const line of text.slice(0, 1024).split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    return trimmed.startsWith('data_');
+  }
+  return false;
+}
+
+function modelsFromAtomSite(site: CifCategory): Atom[][] {
+  const models: Atom[][] = [];
+  const byNumber = new Map<number, Atom[]>();
+  for (let i = 0; i < site.rowCount; i++) {
+    // rows without a model number belong to model 1
+    const modelNum = site.num('pdbx_PDB_model_num', i) || 1;
+    let atoms = byNumber.get(modelNum);
+    if (!atoms) {
+      atoms = [];
+      byNumber.set(modelNum, atoms);
+      models.push(atoms);
+    }
+    const x = site.num('Cartn_x', i);
+    const y = site.num('Cartn_y', i);
+    const z = site.num('Cartn_z', i);
+    // normalise to the upper-case symbols used by PDB columns 77-78
+    let element = site.str('type_symbol', i).toUpperCase();
+    if (!element) {
+      // fallback to first letter of the atom name
+      element = site.str('label_atom_id', i).charAt(0).toUpperCase();
+    }
+    const serial = site.num('id', i);
+    const resSeq = site.num('auth_seq_id', i);
+    const occupancy = site.num('occupancy', i);
+    const bFactor = site.num('B_iso_or_equiv', i);
+    atoms.push({
+      x,
+      y,
+      z,
+      element,
+      serial: Number.isNaN(serial) ? atoms.length + 1 : serial,
+      name: site.str('auth_atom_id', i) || site.str('label_atom_id', i),
+      altLoc: site.str('label_alt_id', i),
+      resName: site.str('auth_comp_id', i) || site.str('label_comp_id', i),
+      // prefer author numbering so IDs match the legacy PDB format
+      chainId: site.str('auth_asym_id', i) || site.str('label_asym_id', i),
+      resSeq: Number.isNaN(resSeq) ? site.num('label_seq_id', i) || 0 : resSeq,
+      iCode: site.str('pdbx_PDB_ins_code', i),
+      occupancy: Number.isNaN(occupancy) ? 1 : occupancy,
+      bFactor: Number.isNaN(bFactor) ? 0 : bFactor,
+      charge: site.num('pdbx_formal_charge', i) || 0,
+      hetero: site.str('group_PDB', i) === 'HETATM',
+    });
+  }
+  return models;
+}
+
+const BOND_ORDERS: Record<string, number> = { sing: 1, doub: 2, trip: 3 };
+
+/**
+ * Convert covalent struct_conn rows (covalent links, disulfides) into serial-based
+ * CONECT records. Partners are identified by chain/residue/atom name, resolved
+ * against the first model.
+ */
+function conectFromStructConn(conn: CifCategory, atoms: Atom[]): ConectRecord[] {
+  const key = (chain: string, seq: number, iCode: string, name: string) => `${chain}|${seq}|${iCode}|${name}`;
+  const serials = new Map<string, number>();
+  for (const a of atoms) {
+    const k = key(a.chainId, a.resSeq, a.iCode, a.name);
+    if (!serials.has(k)) serials.set(k, a.serial);
+  }
+  const partner = (p: '1' | '2', row: number) =>
+    serials.get(
+      key(
+        conn.str(`ptnr${p}_auth_asym_id`, row) || conn.str(`ptnr${p}_label_asym_id`, row),
+        conn.num(`ptnr${p}_auth_seq_id`, row),
+        conn.str(`pdbx_ptnr${p}_PDB_ins_code`, row),
+        conn.str(`ptnr${p}_label_atom_id`, row)
+      )
+    );
+
+  const records: ConectRecord[] = [];
+  for (let i = 0; i < conn.rowCount; i++) {
+    const type = conn.str('conn_type_id', i).toLowerCase();
+    if (!type.startsWith('covale') && type !== 'disulf') continue;
+    const a = partner('1', i);
+    const b = partner('2', i);
+    if (a === undefined || b === undefined) continue;
+    records.push({ a, b, order: BOND_ORDERS[conn.str('pdbx_value_order', i).toLowerCase()] ?? 1 });
+  }
+  return records;
+}
+
+/**
+ * Full polymer sequence per author chain, the mmCIF counterpart of SEQRES.
+ * Only the first monomer at each position is kept (microheterogeneity).
+ */
+function sequencesFromPolySeqScheme(scheme: CifCategory): SequenceRecord[] {
+  const records = new Map<string, SequenceRecord>();
+  const lastSeqId = new Map<string, number>();
+  for (let i = 0; i < scheme.rowCount; i++) {
+    const chainId = scheme.str('pdb_strand_id', i) || scheme.str('asym_id', i);
+    const seqId = scheme.num('seq_id', i);
+    if (lastSeqId.get(chainId) === seqId) continue;
+    lastSeqId.set(chainId, seqId);
+    let record = records.get(chainId);
+    if (!record) {
+      record = { chainId, residues: [] };
+      records.set(chainId, record);
+    }
+    record.residues.push(scheme.str('mon_id', i));
+  }
+  return [...records.values()];
+}
+
+/**
+ * Helix (struct_conf, HELX_* rows only – turns are ignored) or strand
+ * (struct_sheet_range) ranges, in author numbering like the atoms.
+ */
+function secondaryFromCategory(cat: CifCategory | undefined, type: 'helix' | 'sheet'): SecondaryStructureRecord[] {
+  const records: SecondaryStructureRecord[] = [];
+  if (!cat) return records;
+  for (let i = 0; i < cat.rowCount; i++) {
+    if (type === 'helix' && !cat.str('conf_type_id', i).toUpperCase().startsWith('HELX')) continue;
+    records.push({
+      type,
+      chainId: cat.str('beg_auth_asym_id', i) || cat.str('beg_label_asym_id', i),
+      startSeq: cat.num('beg_auth_seq_id', i),
+      startICode: cat.str('pdbx_beg_PDB_ins_code', i),
+      endSeq: cat.num('end_auth_seq_id', i),
+      endICode: cat.str('pdbx_end_PDB_ins_code', i),
+    });
+  }
+  return records;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Text mmCIF                                                         */
+/* ------------------------------------------------------------------ */
+
+class CifTokenizer {
+  private pos = 0;
+  private pending: string | null = null;
+  private pendingQuoted = false;
+  /** Whether the token last returned by next() was quoted or a text field. */
+  quoted = false;
+
+  constructor(private text: string) {}
+
+  /** Push the last token back so the next call to next() returns it again. */
+  unread(token: string) {
+    this.pending = token;
+    this.pendingQuoted = this.quoted;
+  }
+
+  next(): string | null {
+    if (this.pending !== null) {
+      const tok = this.pending;
+      this.pending = null;
+      this.quoted = this.pendingQuoted;
+      return tok;
+    }
+    const text = this.text;
+    const len = text.length;
+    let pos = this.pos;
+
+    // skip whitespace & comments
+    while (pos < len) {
+      const c = text.charCodeAt(pos);
+      if (isSpace(c)) {
+        pos++;
+      } else if (c === 35 /* # */) {
+        while (pos < len && text.charCodeAt(pos) !== 10) pos++;
+      } else {
+        break;
+      }
+    }
+    if (pos >= len) {
+      this.pos = pos;
+      return null;
+    }
+
+    const c = text.charCodeAt(pos);
+    let token: string;
+    if (c === 59 /* ; */ && (pos === 0 || text.charCodeAt(pos - 1) === 10 || text.charCodeAt(pos - 1) === 13)) {
+      // multi-line text field terminated by a line starting with ';'
+      let end = text.indexOf('\n;', pos + 1);
+      if (end < 0) end = len;
+      token = text.substring(pos + 1, end).replace(/\r$/, '');
+      this.pos = end + 2;
+      this.quoted = true;
+      return token;
+    }
+    if (c === 39 /* ' */ || c === 34 /* " */) {
+      // quote only closes when followed by whitespace
+      let end = pos + 1;
+      for (;;) {
+        end = text.indexOf(text[pos], end);
+        if (end < 0) { end = len; break; }
+        if (end + 1 >= len || isSpace(text.charCodeAt(end + 1))) break;
+        end++;
+      }
+      token = text.substring(pos + 1, end);
+      this.pos = end + 1;
+      this.quoted = true;
+      return token;
+    }
+    let end = pos;
+    while (end < len && !isSpace(text.charCodeAt(end))) end++;
+    token = text.substring(pos, end);
+    this.pos = end;
+    this.quoted = false;
+    return token;
+  }
+}
+
+function isSpace(c: number): boolean {
+  return c === 32 || c === 10 || c === 13 || c === 9;
+}
+
+function isReserved(token: string): boolean {
+  return token === 'loop_' || token[0] === '_' || token.startsWith('data_') || token.startsWith('save_');
+}
+
+function textCategory(fields: Map<string, string[]>, rowCount: number): CifCategory {
+  return {
+    rowCount,
+    str: (field, row) => fields.get(field)?.[row] ?? '',
+    num: (field, row) => {
+      const v = fields.get(field)?.[row];
+      return v ? parseFloat(v) : NaN;
+    },
+  };
+}
+
+/**
+ * Read the requested categories (names without the leading underscore) from the
+ * first data block of an mmCIF file. Other categories are tokenised and skipped.
+ */
+export function readCifText(text: string, wanted: string[]): Map<string, CifCategory> {
+  const wantedSet = new Set(wanted);
+  const result = new Map<string, CifCategory>();
+  // key/value (non-loop) items, collected per category as single-row tables
+  const single = new Map<string, Map<string, string[]>>();
+  const tk = new CifTokenizer(text);
+  let inBlock = false;
+
+  const splitTag = (tag: string): [string, string] => {
+    const dot = tag.indexOf('.');
+    return dot < 0 ? [tag.substring(1), ''] : [tag.substring(1, dot), tag.substring(dot + 1)];
+  };
+  const cell = (tok: string, quoted: boolean) => (!quoted && (tok === '.' || tok === '?') ? '' : tok);
+
+  let tok: string | null;
+  while ((tok = tk.next()) !== null) {
+    if (tk.quoted) continue;
+    if (tok.startsWith('data_')) {
+      if (inBlock) break;
+      inBlock = true;
+    } else if (tok === 'loop_') {
+      // header tags
+      const tags: string[] = [];
+      while ((tok = tk.next()) !== null && !tk.quoted && tok[0] === '_') tags.push(tok);
+      if (tok !== null) tk.unread(tok);
+      if (!tags.length) continue;
+      const [cat] = splitTag(tags[0]);
+      const keep = wantedSet.has(cat);
+      const columns: string[][] = tags.map(() => []);
+      let n = 0;
+      while ((tok = tk.next()) !== null) {
+        if (!tk.quoted && isReserved(tok)) {
+          tk.unread(tok);
+          break;
+        }
+        if (keep) columns[n % tags.length].push(cell(tok, tk.quoted));
+        n++;
+      }
+      if (keep) {
+        const fields = new Map<string, string[]>();
+        tags.forEach((t, i) => fields.set(splitTag(t)[1], columns[i]));
+        result.set(cat, textCategory(fields, Math.floor(n / tags.length)));
+      }
+    } else if (tok[0] === '_') {
+      const [cat, field] = splitTag(tok);
+      const value = tk.next();
+      if (value === null) break;
+      if (wantedSet.has(cat)) {
+        if (!single.has(cat)) single.set(cat, new Map());
+        single.get(cat)!.set(field, [cell(value, tk.quoted)]);
+      }
+    }
+  }
+
+  single.forEach((fields, cat) => {
+    if (!result.has(cat)) result.set(cat, textCategory(fields, 1));
+  });
+  return result;
+}
+
+/* ------------------------------------------------------------------ */
+/*  BinaryCIF                                                          */
+/* ------------------------------------------------------------------ */
+
+type BinaryEncoding =
+  | { kind: 'ByteArray'; type: number }
+  | { kind: 'FixedPoint'; factor: number; srcType: number }
+  | { kind: 'IntervalQuantization'; min: number; max: number; numSteps: number; srcType: number }
+  | { kind: 'RunLength'; srcType: number; srcSize: number }
+  | { kind: 'Delta'; origin: number; srcType: number }
+  | { kind: 'IntegerPacking'; byteCount: number; isUnsigned: boolean; srcSize: number }
+  | {
+      kind: 'StringArray';
+      dataEncoding: BinaryEncoding[];
+      stringData: string;
+      offsetEncoding: BinaryEncoding[];
+      offsets: Uint8Array;
+    };
+
+const ENCODING_KINDS: BinaryEncoding['kind'][] = [
+  'ByteArray',
+  'FixedPoint',
+  'IntervalQuantization',
+  'RunLength',
+  'Delta',
+  'IntegerPacking',
+  'StringArray',
+];
+
+interface EncodedData {
+  encoding: BinaryEncoding[];
+  data: Uint8Array;
+}
+
+type TypedArray = Int8Array | Int16Array | Int32Array | Uint8Array | Uint16Array | Uint32Array | Float32Array | Float64Array;
+
+interface TypedArrayConstructor {
+  new (length: number): TypedArray;
+  new (buffer: ArrayBuffer, byteOffset: number, length: number): TypedArray;
+  readonly BYTES_PER_ELEMENT: number;
+}
+
+// BinaryCIF data type codes
+const TYPED_ARRAYS: Record<number, TypedArrayConstructor> = {
+  1: Int8Array,
+  2: Int16Array,
+  3: Int32Array,
+  4: Uint8Array,
+  5: Uint16Array,
+  6: Uint32Array,
+  32: Float32Array,
+  33: Float64Array,
+};
+
+function typedArray(code: number): TypedArrayConstructor {
+  const Ctor = TYPED_ARRAYS[code];
+  if (!Ctor) throw new Error(`BinaryCIF: unsupported data type ${code}`);
+  return Ctor;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+}
+
+/**
+ * Narrow a decoded encoding list. Only the kind (and the nested parts of a
+ * StringArray) are checked; the numeric parameters are taken as given.
+ */
+function readEncodings(value: unknown): BinaryEncoding[] {
+  if (!Array.isArray(value)) throw new Error('BinaryCIF: malformed encoding list');
+  return value.map((enc: unknown) => {
+    if (!isRecord(enc) || !ENCODING_KINDS.includes(enc.kind as BinaryEncoding['kind'])) {
+      throw new Error(`BinaryCIF: unsupported encoding ${isRecord(enc) ? enc.kind : typeof enc}`);
+    }
+    if (enc.kind !== 'StringArray') return enc as BinaryEncoding;
+    if (typeof enc.stringData !== 'string' || !(enc.offsets instanceof Uint8Array)) {
+      throw new Error('BinaryCIF: malformed StringArray encoding');
+    }
+    return {
+      kind: 'StringArray',
+      dataEncoding: readEncodings(enc.dataEncoding),
+      stringData: enc.stringData,
+      offsetEncoding: readEncodings(enc.offsetEncoding),
+      offsets: enc.offsets,
+    };
+  });
+}
+
+function readEncoded(value: unknown, what: string): EncodedData {
+  if (!isRecord(value) || !(value.data instanceof Uint8Array)) throw new Error(`BinaryCIF: malformed ${what}`);
+  return { encoding: readEncodings(value.encoding), data: value.data };
+}
+
+function decodeEncoded(encoded: EncodedData): ArrayLike<number> | string[] {
+  let result: ArrayLike<number> | string[] = encoded.data;
+  for (let i = encoded.encoding.length - 1; i >= 0; i--) {
+    // only StringArray yields strings, and it is always the outermost encoding
+    if (Array.isArray(result)) throw new Error('BinaryCIF: StringArray is not the last encoding');
+    result = decodeStep(result, encoded.encoding[i]);
+  }
+  return result;
+}
+
+function decodeStep(data: ArrayLike<number>, enc: BinaryEncoding): ArrayLike<number> | string[] {
+  switch (enc.kind) {
+    case 'ByteArray': {
+      const Ctor = typedArray(enc.type);
+      if (!(data instanceof Uint8Array)) throw new Error('BinaryCIF: ByteArray is not the innermost encoding');
+      // copy so the view is aligned for multi-byte types (data is little-endian)
+      const bytes = data.slice();
+      return new Ctor(bytes.buffer, 0, bytes.byteLength / Ctor.BYTES_PER_ELEMENT);
+    }
+    case 'FixedPoint': {
+      const out = new (typedArray(enc.srcType))(data.length);
+      for (let i = 0; i < data.length; i++) out[i] = data[i] / enc.factor;
+      return out;
+    }
+    case 'IntervalQuantization': {
+      const out = new (typedArray(enc.srcType))(data.length);
+      const delta = (enc.max - enc.min) / (enc.numSteps - 1);
+      for (let i = 0; i < data.length; i++) out[i] = enc.min + delta * data[i];
+      return out;
+    }
+    case 'RunLength': {
+      const out = new (typedArray(enc.srcType))(enc.srcSize);
+      let o = 0;
+      for (let i = 0; i < data.length; i += 2) {
+        const value = data[i];
+        const count = data[i + 1];
+        for (let j = 0; j < count; j++) out[o++] = value;
+      }
+      return out;
+    }
+    case 'Delta': {
+      const out = new (typedArray(enc.srcType))(data.length);
+      if (!data.length) return out;
+      out[0] = data[0] + enc.origin;
+      for (let i = 1; i < data.length; i++) out[i] = out[i - 1] + data[i];
+      return out;
+    }
+    case 'IntegerPacking': {
+      const out = new Int32Array(enc.srcSize);
+      const upper = enc.byteCount === 1 ? (enc.isUnsigned ? 0xff : 0x7f) : enc.isUnsigned ? 0xffff : 0x7fff;
+      const lower = enc.isUnsigned ? NaN : -upper - 1;
+      let j = 0;
+      for (let i = 0; i < data.length; i++) {
+        let value = 0;
+        let t = data[i];
+        while (t === upper || t === lower) {
+          value += t;
+          t = data[++i];
+        }
+        value += t;
+        out[j++] = value;
+      }
+      return out;
+    }
+    case 'StringArray': {
+      if (!(data instanceof Uint8Array)) throw new Error('BinaryCIF: StringArray is not the only encoding');
+      const offsets = decodeEncoded({ encoding: enc.offsetEncoding, data: enc.offsets });
+      const indices = decodeEncoded({ encoding: enc.dataEncoding, data });
+      if (Array.isArray(offsets) || Array.isArray(indices)) throw new Error('BinaryCIF: nested StringArray');
+      const strings: string[] = new Array(indices.length);
+      for (let i = 0; i < indices.length; i++) {
+        const idx = indices[i];
+        strings[i] = idx < 0 ? '' : enc.stringData.substring(offsets[idx], offsets[idx + 1]);
+      }
+      return strings;
+    }
+  }
+}
+
+function binaryCategory(name: string, cat: Record<string, unknown>): CifCategory {
+  if (typeof cat.rowCount !== 'number' || !Array.isArray(cat.columns)) throw new Error(`BinaryCIF: malformed category ${name}`);
+  const columns = new Map<string, { values: ArrayLike<number | string>; mask?: ArrayLike<number | string> }>();
+  for (const col of cat.columns as unknown[]) {
+    if (!isRecord(col) || typeof col.name !== 'string') throw new Error(`BinaryCIF: malformed column in ${name}`);
+    columns.set(col.name, {
+      values: decodeEncoded(readEncoded(col.data, `column ${name}.${col.name}`)),
+      // mask: 0 = present, 1 = '.', 2 = '?'
+      mask: col.mask ? decodeEncoded(readEncoded(col.mask, `mask of ${name}.${col.name}`)) : undefined,
+    });
+  }
+  const present = (field: string, row: number) => {
+    const c = columns.get(field);
+    if (!c || (c.mask && c.mask[row] !== 0)) return undefined;
+    return c.values[row];
+  };
+  return {
+    rowCount: cat.rowCount,
+    str: (field, row) => {
+      const v = present(field, row);
+      return v === undefined ? '' : String(v);
+    },
+    num: (field, row) => {
+      const v = present(field, row);
+      return v === undefined || v === '' ? NaN : Number(v);
+    },
+  };
+}
+
+/** Read the requested categories from the first data block of a BinaryCIF file. */
+export function readBinaryCif(buffer: ArrayBuffer | Uint8Array, wanted: string[]): Map<string, CifCategory> {
+  const file = decodeMsgPack(buffer);
+  const blocks = isRecord(file) ? file.dataBlocks : undefined;
+  const block: unknown = Array.isArray(blocks) ? blocks[0] : undefined;
+  if (!isRecord(block)) throw new Error('BinaryCIF: no data blocks');
+  if (!Array.isArray(block.categories)) throw new Error('BinaryCIF: data block has no categories');
+  const result = new Map<string, CifCategory>();
+  for (const cat of block.categories as unknown[]) {
+    if (!isRecord(cat) || typeof cat.name !== 'string') throw new Error('BinaryCIF: malformed category');
+    const name = cat.name.replace(/^_/, '');
+    if (wanted.includes(name)) result.set(name, binaryCategory(name, cat));
+  }
+  return result;
+}
@@ -0,0 +1,299 @@
+import * as THREE from 'three';
+import { Atom, RepresentationOptions, createBallStick, detailSegments } from './PDBLoader';
+import { buildStructure, Residue } from './Structure';
+import { assignSecondaryStructure, SecondaryType } from './SecondaryStructure';
+import { createColorTheme } from './ColorThemes';
+import { resolveSelection } from './Selection';
+
+type TraceType = SecondaryType | 'nucleic';
+
+/** Half-width (along the peptide plane) and half-thickness of the cross-section, in Å. */
+interface Profile {
+  width: number;
+  thickness: number;
+}
+
+const PROFILES: Record<TraceType, Profile> = {
+  helix: { width: 1.3, thickness: 0.2 },
+  sheet: { width: 1.0, thickness: 0.25 },
+  coil: { width: 0.25, thickness: 0.25 },
+  nucleic: { width: 0.4, thickness: 0.4 },
+};
+// half-width at the base of a strand's arrow head
+const ARROW_WIDTH = 1.7;
+
+// spline samples per residue and vertices per cross-section at the default detail
+const SUBDIVISIONS = 6;
+const RADIAL_SEGMENTS = 10;
+// consecutive guide atoms further apart than this are a chain break (Å)
+const MAX_CA_GAP = 4.5;
+const MAX_P_GAP = 8;
+
+interface TraceResidue {
+  type: TraceType;
+  color: number;
+  position: THREE.Vector3;
+  /** Unit vector the ribbon widens along (Cα→O for proteins). */
+  side: THREE.Vector3;
+}
+
+/**
+ * Cartoon of the polymer backbone: a spline through the Cα (protein) or P
+ * (nucleic acid) atoms of each chain, split at chain breaks. Helices are flat
+ * ribbons, strands end in an arrow head and loops / nucleic acids are tubes.
+ * Secondary structure comes from `options.secondary` (HELIX / SHEET records)
+ * or is computed from backbone H-bonds. Residues take the colour of their
+ * guide atom (secondary-structure theme by default); with `options.selection`
+ * only residues whose guide atom is selected are traced. Each chain becomes one mesh with
+ * `userData.chainId`; picking falls back to the nearest atom.
+ * Structures without any polymer are shown as ball-and-stick instead.
+ */
+export function createCartoon(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
+  const structure = buildStructure(atoms);
+  const secondary = assignSecondaryStructure(structure, options.secondary);
+  const theme = createColorTheme(options.colorTheme ?? 'secondary', atoms, options, { structure, secondary });
+  const selected = resolveSelection(atoms, options.selection, structure);
+  const material = new THREE.MeshStandardMaterial({ vertexColors: true, side: THREE.DoubleSide });
+  const group = new THREE.Group();
+
+  for (const chain of structure.chains) {
+    const mesh = new CartoonMeshBuilder(detailSegments(SUBDIVISIONS, options.detail), detailSegments(RADIAL_SEGMENTS, options.detail));
+    let trace: TraceResidue[] = [];
+    let prevGuide: Atom | undefined;
+    for (const res of chain.residues) {
+      const guide = guideAtoms(res, atoms);
+      const main = guide && selected.has(guide.main) ? atoms[guide.main] : undefined;
+      const type = guide && (guide.nucleic ? 'nucleic' : secondary[res.index]);
+      const maxGap = guide?.nucleic ? MAX_P_GAP : MAX_CA_GAP;
+      const broken =
+        !main ||
+        !prevGuide ||
+        (type === 'nucleic') !== (trace[trace.length - 1]?.type === 'nucleic') ||
+        distance(prevGuide, main) > maxGap;
+      if (broken) {
+        mesh.addTrace(trace);
+        trace = [];
+      }
+      prevGuide = main;
+      if (!guide || !main || !type) continue;
+      const position = new THREE.Vector3(main.x, main.y, main.z);
+      const sideAtom = guide.side !== undefined ? atoms[guide.side] : undefined;
+      const side = sideAtom
+        ? new THREE.Vector3(sideAtom.x, sideAtom.y, sideAtom.z).sub(position)
+        : new THREE.Vector3();
+      trace.push({ type, color: theme.colorOf(guide.main), position, side });
+    }
+    mesh.addTrace(trace);
+
+    const geometry = mesh.build();
+    if (!geometry) continue;
+    const chainMesh = new THREE.Mesh(geometry, material);
+    chainMesh.name = `chain ${chain.id}`;
+    chainMesh.userData.chainId = chain.id;
+    group.add(chainMesh);
+  }
+
+  if (!group.children.length) {
+    material.dispose();
+    return createBallStick(atoms, options);
+  }
+  return group;
+}
+
+/** Trace atom (Cα / P) and side-vector atom (O) of a polymer residue, as atom indices. */
+function guideAtoms(res: Residue, atoms: Atom[]): { main: number; side?: number; nucleic: boolean } | undefined {
+  let ca: number | undefined;
+  let o: number | undefined;
+  let p: number | undefined;
+  let sugar = false;
+  for (const i of res.atoms) {
+    const atom = atoms[i];
+    // the element check keeps calcium ions (also named CA) out of the trace
+    if (atom.name === 'CA' && atom.element === 'C' && ca === undefined) ca = i;
+    else if (atom.name === 'O' && o === undefined) o = i;
+    else if (atom.name === 'P' && p === undefined) p = i;
+    else if (atom.name === 'C4\'') sugar = true;
+  }
+  if (ca !== undefined) return { main: ca, side: o, nucleic: false };
+  if (p !== undefined && sugar) return { main: p, nucleic: true };
+  return undefined;
+}
+
+function distance(a: Atom, b: Atom): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
+const _tangent = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _binormal = new THREE.Vector3();
+const _point = new THREE.Vector3();
+const _vertex = new THREE.Vector3();
+const _color = new THREE.Color();
+
+/** Accumulates the swept cross-sections of one or more traces into one geometry. */
+class CartoonMeshBuilder {
+  private positions: number[] = [];
+  private normals: number[] = [];
+  private colors: number[] = [];
+  private indices: number[] = [];
+  private readonly subdivisions: number;
+  private readonly radialSegments: number;
+
+  constructor(subdivisions: number, radialSegments: number) {
+    this.subdivisions = subdivisions;
+    this.radialSegments = radialSegments;
+  }
+
+  addTrace(trace: TraceResidue[]) {
+    if (trace.length < 2) return;
+    smoothSideVectors(trace);
+    const curve = new THREE.CatmullRomCurve3(
+      trace.map((r) => r.position),
+      false,
+      'catmullrom',
+      0.5
+    );
+    const last = trace.length - 1;
+    const firstRing = this.positions.length / 3;
+    let rings = 0;
+    let prevSide: THREE.Vector3 | undefined;
+
+    for (let i = 0; i <= last; i++) {
+      const a = trace[i];
+      const b = trace[Math.min(i + 1, last)];
+      const steps = i === last ? 1 : this.subdivisions;
+      // strands end in an arrow head spanning their last residue
+      const arrow = a.type === 'sheet' && i < last && b.type !== 'sheet';
+      for (let s = 0; s < steps; s++) {
+        const f = s / this.subdivisions;
+        const t = (i + f) / last;
+        const owner = f < 0.5 ? a : b;
+        const side = _normal.copy(a.side).lerp(b.side, f);
+        if (arrow && s === 0) {
+          this.addRing(curve, t, side, PROFILES.sheet, owner.color);
+          rings++;
+        }
+        let width: number;
+        let thickness: number;
+        if (arrow) {
+          width = THREE.MathUtils.lerp(ARROW_WIDTH, PROFILES[b.type].width, f);
+          thickness = THREE.MathUtils.lerp(PROFILES.sheet.thickness, PROFILES[b.type].thickness, f);
+        } else {
+          const k = THREE.MathUtils.smoothstep(f, 0, 1);
+          width = THREE.MathUtils.lerp(PROFILES[a.type].width, PROFILES[b.type].width, k);
+          thickness = THREE.MathUtils.lerp(PROFILES[a.type].thickness, PROFILES[b.type].thickness, k);
+        }
+        prevSide = this.addRing(curve, t, side, { width, thickness }, owner.color, prevSide);
+        rings++;
+      }
+    }
+
+    for (let r = 0; r < rings - 1; r++) {
+      const r0 = firstRing + r * this.radialSegments;
+      const r1 = r0 + this.radialSegments;
+      for (let k = 0; k < this.radialSegments; k++) {
+        const k1 = (k + 1) % this.radialSegments;
+        this.indices.push(r0 + k, r0 + k1, r1 + k, r0 + k1, r1 + k1, r1 + k);
+      }
+    }
+    this.addCap(firstRing, curve, 0, -1);
+    this.addCap(firstRing + (rings - 1) * this.radialSegments, curve, 1, 1);
+  }
+
+  build(): THREE.BufferGeometry | undefined {
+    if (!this.indices.length) return undefined;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(this.positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(this.normals, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(this.colors, 3));
+    geometry.setIndex(this.indices);
+    geometry.computeBoundingSphere();
+    return geometry;
+  }
+
+  /**
+   * Elliptical cross-section at curve parameter `t`, widened along `side`
+   * (projected perpendicular to the tangent). Returns the side vector used so
+   * the next ring can keep a consistent orientation.
+   */
+  private addRing(
+    curve: THREE.Curve<THREE.Vector3>,
+    t: number,
+    side: THREE.Vector3,
+    profile: Profile,
+    color: number,
+    prevSide?: THREE.Vector3
+  ): THREE.Vector3 {
+    curve.getPoint(t, _point);
+    curve.getTangent(t, _tangent);
+    const n = side.clone().addScaledVector(_tangent, -side.dot(_tangent));
+    if (n.lengthSq() < 1e-6) {
+      // no usable side vector: continue the previous frame or pick any perpendicular
+      n.copy(prevSide ?? (Math.abs(_tangent.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0)));
+      n.addScaledVector(_tangent, -n.dot(_tangent));
+    }
+    n.normalize();
+    _binormal.crossVectors(_tangent, n);
+    _color.setHex(color);
+
+    for (let k = 0; k < this.radialSegments; k++) {
+      const angle = (2 * Math.PI * k) / this.radialSegments;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      _vertex.copy(_point).addScaledVector(n, profile.width * cos).addScaledVector(_binormal, profile.thickness * sin);
+      this.positions.push(_vertex.x, _vertex.y, _vertex.z);
+      // gradient of the ellipse gives the outward normal
+      _vertex.copy(n).multiplyScalar(profile.thickness * cos).addScaledVector(_binormal, profile.width * sin).normalize();
+      this.normals.push(_vertex.x, _vertex.y, _vertex.z);
+      this.colors.push(_color.r, _color.g, _color.b);
+    }
+    return n;
+  }
+
+  /** Flat fan closing the ring starting at vertex `ring`, facing `direction` × tangent. */
+  private addCap(ring: number, curve: THREE.Curve<THREE.Vector3>, t: number, direction: number) {
+    curve.getPoint(t, _point);
+    curve.getTangent(t, _tangent).multiplyScalar(direction);
+    const center = this.positions.length / 3;
+    const pushVertex = (x: number, y: number, z: number, c: number) => {
+      this.positions.push(x, y, z);
+      this.normals.push(_tangent.x, _tangent.y, _tangent.z);
+      this.colors.push(this.colors[3 * c], this.colors[3 * c + 1], this.colors[3 * c + 2]);
+    };
+    pushVertex(_point.x, _point.y, _point.z, ring);
+    for (let k = 0; k < this.radialSegments; k++) {
+      const v = ring + k;
+      pushVertex(this.positions[3 * v], this.positions[3 * v + 1], this.positions[3 * v + 2], v);
+    }
+    for (let k = 0; k < this.radialSegments; k++) {
+      const k1 = (k + 1) % this.radialSegments;
+      if (direction > 0) this.indices.push(center, center + 1 + k, center + 1 + k1);
+      else this.indices.push(center, center + 1 + k1, center + 1 + k);
+    }
+  }
+}
+
+/**
+ * Make side vectors usable for interpolation: fill in missing ones (Cα-only
+ * models, nucleic acids) from the local curvature and flip each to agree with
+ * its predecessor – carbonyls alternate sides along a strand.
+ */
+function smoothSideVectors(trace: TraceResidue[]) {
+  const last = trace.length - 1;
+  trace.forEach((res, i) => {
+    if (res.side.lengthSq() > 1e-6) return;
+    if (i === 0 || i === last) return;
+    res.side
+      .copy(trace[i - 1].position)
+      .add(trace[i + 1].position)
+      .multiplyScalar(0.5)
+      .sub(res.position);
+  });
+  for (let i = 0; i <= last; i++) {
+    const side = trace[i].side;
+    if (side.lengthSq() < 1e-6) continue;
+    side.normalize();
+    const prev = trace[i - 1]?.side;
+    if (prev && side.dot(prev) < 0) side.negate();
+  }
+}
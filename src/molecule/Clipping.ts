@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+
+// edge of a plane handle's square (m)
+const HANDLE_SIZE = 0.5;
+const HANDLE_COLOR = 0x66ccff;
+
+/** Slab thickness limits (m). */
+export const SLAB_THICKNESS_RANGE = [0.05, 1];
+
+const _normal = new THREE.Vector3();
+const _forward = new THREE.Vector3();
+const _point = new THREE.Vector3();
+
+/**
+ * Clipping for molecule representations: any number of user planes, each
+ * shown as a handle (a translucent square with a knob at its centre) that
+ * can be grabbed or dragged, and a camera-relative slab that keeps only a
+ * band `slabThickness` metres thick at a fixed distance in front of the
+ * camera, so it sweeps through the molecule as the viewer moves. Geometry
+ * on the side a handle faces (+Z) stays visible. `planes` is shared with
+ * every material it was applied to (see setGroupClipping()), so update()
+ * moves the cut without touching materials again.
+ */
+export class ClippingLayer {
+  readonly object3d = new THREE.Group();
+  /** World-space planes in effect: the user planes, then the two slab planes when on. */
+  readonly planes: THREE.Plane[] = [];
+  private handles: { handle: THREE.Group; plane: THREE.Plane }[] = [];
+  private slabPlanes = [new THREE.Plane(), new THREE.Plane()];
+  private slab = false;
+  private thickness = 0.3;
+  // camera → slab centre (m)
+  private distance = 1;
+
+  get slabEnabled(): boolean {
+    return this.slab;
+  }
+
+  get slabThickness(): number {
+    return this.thickness;
+  }
+
+  get planeCount(): number {
+    return this.handles.length;
+  }
+
+  /** Add a plane through `point` that keeps the side `normal` points to; returns its handle. */
+  addPlane(point: THREE.Vector3, normal: THREE.Vector3): THREE.Object3D {
+    const handle = new THREE.Group();
+    const square = new THREE.Mesh(
+      new THREE.PlaneGeometry(HANDLE_SIZE, HANDLE_SIZE),
+      new THREE.MeshBasicMaterial({ color: HANDLE_COLOR, transparent: true, opacity: 0.15, side: THREE.DoubleSide, depthWrite: false })
+    );
+    const outline = new THREE.LineSegments(
+      new THREE.EdgesGeometry(square.geometry),
+      new THREE.LineBasicMaterial({ color: HANDLE_COLOR })
+    );
+    const knob = new THREE.Mesh(new THREE.SphereGeometry(0.03, 16, 16), new THREE.MeshBasicMaterial({ color: HANDLE_COLOR }));
+    handle.add(square, outline, knob);
+    handle.position.copy(point);
+    handle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), _normal.copy(normal).normalize());
+    this.object3d.add(handle);
+    this.handles.push({ handle, plane: new THREE.Plane() });
+    this.syncPlanes();
+    return handle;
+  }
+
+  /** Remove the most recently added plane. */
+  removeLastPlane() {
+    const last = this.handles.pop();
+    if (!last) return;
+    this.object3d.remove(last.handle);
+    last.handle.traverse((obj) => {
+      const mesh = obj as THREE.Mesh;
+      mesh.geometry?.dispose();
+      (mesh.material as THREE.Material | undefined)?.dispose();
+    });
+    this.syncPlanes();
+  }
+
+  clearPlanes() {
+    while (this.handles.length) this.removeLastPlane();
+  }
+
+  /** Turn the slab on or off; `distance` (m) moves its centre, e.g. onto the molecule in view. */
+  setSlab(enabled: boolean, distance = this.distance) {
+    this.slab = enabled;
+    this.distance = distance;
+    this.syncPlanes();
+  }
+
+  setSlabThickness(metres: number) {
+    this.thickness = THREE.MathUtils.clamp(metres, SLAB_THICKNESS_RANGE[0], SLAB_THICKNESS_RANGE[1]);
+  }
+
+  /** Handle whose square or knob the ray hits first, if any. */
+  handleAt(raycaster: THREE.Raycaster): THREE.Object3D | undefined {
+    const hit = raycaster.intersectObjects(this.handles.map((h) => h.handle), true).find((it) => !(it.object instanceof THREE.LineSegments));
+    return hit && this.handles.find((h) => h.handle === hit.object.parent)?.handle;
+  }
+
+  /** Handle whose knob lies within `radius` of a point (e.g. a controller), if any. */
+  handleNear(point: THREE.Vector3, radius: number): THREE.Object3D | undefined {
+    return this.handles.find((h) => h.handle.position.distanceTo(point) <= radius)?.handle;
+  }
+
+  /** Keep user planes in step with their handles and the slab in front of the camera. Call every frame. */
+  update(camera: THREE.Camera) {
+    for (const { handle, plane } of this.handles) {
+      _normal.set(0, 0, 1).applyQuaternion(handle.quaternion);
+      plane.setFromNormalAndCoplanarPoint(_normal, handle.position);
+    }
+    if (this.slab) {
+      camera.getWorldDirection(_forward);
+      camera.getWorldPosition(_point);
+      const near = this.distance - this.thickness / 2;
+      const far = this.distance + this.thickness / 2;
+      this.slabPlanes[0].setFromNormalAndCoplanarPoint(_forward, _normal.copy(_point).addScaledVector(_forward, near));
+      this.slabPlanes[1].setFromNormalAndCoplanarPoint(_normal.copy(_forward).negate(), _point.addScaledVector(_forward, far));
+    }
+  }
+
+  /** Rebuild `planes` in place after planes or the slab were added or removed. */
+  private syncPlanes() {
+    this.planes.length = 0;
+    this.planes.push(...this.handles.map((h) => h.plane));
+    if (this.slab) this.planes.push(...this.slabPlanes);
+  }
+}
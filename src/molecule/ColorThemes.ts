@@ -0,0 +1,347 @@
+import * as THREE from 'three';
+import type { Atom, RepresentationOptions } from './PDBLoader';
+import { buildStructure, isAminoAcid, isNucleotide, isWater, Structure } from './Structure';
+import { assignSecondaryStructure, SecondaryType } from './SecondaryStructure';
+import { resolveSelection, SelectionLike } from './Selection';
+
+/**
+ * Colour themes map every atom to a colour. Builders create one per call via
+ * createColorTheme() (from `RepresentationOptions.colorTheme`, optionally
+ * overridden per selection by `colorOverrides`) and colour instances /
+ * vertices with `colorOf(atomIndex)`; the Visuals panel shows the theme's
+ * legend.
+ */
+
+export type ColorThemeId =
+  | 'element'
+  | 'chain'
+  | 'residue'
+  | 'secondary'
+  | 'bfactor'
+  | 'hydrophobicity'
+  | 'rainbow'
+  | 'uniform'
+  | 'deviation';
+
+/**
+ * All themes in the order the Visuals panel cycles through them. 'deviation'
+ * needs superposition data and is only applied from the superposition panel.
+ */
+export const COLOR_THEMES: ColorThemeId[] = [
+  'element', 'chain', 'residue', 'secondary', 'bfactor', 'hydrophobicity', 'rainbow', 'uniform',
+];
+
+export const COLOR_THEME_LABELS: Record<ColorThemeId, string> = {
+  element: 'Element',
+  chain: 'Chain',
+  residue: 'Residue type',
+  secondary: 'Secondary structure',
+  bfactor: 'B-factor',
+  hydrophobicity: 'Hydrophobicity',
+  rainbow: 'Rainbow N→C',
+  uniform: 'Uniform',
+  deviation: 'Superposition deviation',
+};
+
+export interface LegendEntry {
+  label: string;
+  color: number;
+}
+
+export interface ColorTheme {
+  id: ColorThemeId;
+  label: string;
+  /** Swatches describing the theme; gradients are given as a few labelled stops. */
+  legend: LegendEntry[];
+  colorOf(atomIndex: number): number;
+}
+
+/** Theme applied to a selection instead of the representation's `colorTheme`. */
+export interface ColorOverride {
+  selection: SelectionLike;
+  colorTheme: ColorThemeId;
+  /** Colour when `colorTheme` is 'uniform'. */
+  uniformColor?: number;
+}
+
+/** Precomputed data a builder may already have, so themes need not derive it again. */
+export interface ColorThemeContext {
+  structure?: Structure;
+  /** Per-residue secondary structure (indexed like `structure.residues`). */
+  secondary?: SecondaryType[];
+}
+
+/** Jmol element colours, keyed by upper-case symbol like Atom.element. */
+export const ELEMENT_COLORS: Record<string, number> = {
+  H: 0xffffff, D: 0xffffc0, HE: 0xd9ffff, LI: 0xcc80ff, BE: 0xc2ff00, B: 0xffb5b5,
+  C: 0x909090, N: 0x3050f8, O: 0xff0d0d, F: 0x90e050, NE: 0xb3e3f5,
+  NA: 0xab5cf2, MG: 0x8aff00, AL: 0xbfa6a6, SI: 0xf0c8a0, P: 0xff8000, S: 0xffff30,
+  CL: 0x1ff01f, AR: 0x80d1e3, K: 0x8f40d4, CA: 0x3dff00, SC: 0xe6e6e6, TI: 0xbfc2c7,
+  V: 0xa6a6ab, CR: 0x8a99c7, MN: 0x9c7ac7, FE: 0xe06633, CO: 0xf090a0, NI: 0x50d050,
+  CU: 0xc88033, ZN: 0x7d80b0, GA: 0xc28f8f, GE: 0x668f8f, AS: 0xbd80e3, SE: 0xffa100,
+  BR: 0xa62929, KR: 0x5cb8d1, RB: 0x702eb0, SR: 0x00ff00, Y: 0x94ffff, ZR: 0x94e0e0,
+  NB: 0x73c2c9, MO: 0x54b5b5, TC: 0x3b9e9e, RU: 0x248f8f, RH: 0x0a7d8c, PD: 0x006985,
+  AG: 0xc0c0c0, CD: 0xffd98f, IN: 0xa67573, SN: 0x668080, SB: 0x9e63b5, TE: 0xd47a00,
+  I: 0x940094, XE: 0x429eb0, CS: 0x57178f, BA: 0x00c900, LA: 0x70d4ff, CE: 0xffffc7,
+  PR: 0xd9ffc7, ND: 0xc7ffc7, PM: 0xa3ffc7, SM: 0x8fffc7, EU: 0x61ffc7, GD: 0x45ffc7,
+  TB: 0x30ffc7, DY: 0x1fffc7, HO: 0x00ff9c, ER: 0x00e675, TM: 0x00d452, YB: 0x00bf38,
+  LU: 0x00ab24, HF: 0x4dc2ff, TA: 0x4da6ff, W: 0x2194d6, RE: 0x267dab, OS: 0x266696,
+  IR: 0x175487, PT: 0xd0d0e0, AU: 0xffd123, HG: 0xb8b8d0, TL: 0xa6544d, PB: 0x575961,
+  BI: 0x9e4fb5, PO: 0xab5c00, AT: 0x754f45, RN: 0x428296, FR: 0x420066, RA: 0x007d00,
+  AC: 0x70abfa, TH: 0x00baff, PA: 0x00a1ff, U: 0x008fff, NP: 0x0080ff, PU: 0x006bff,
+  AM: 0x545cf2, CM: 0x785ce3, BK: 0x8a4fe3, CF: 0xa136d4, ES: 0xb31fd4, FM: 0xb31fba,
+  MD: 0xb30da6, NO: 0xbd0d87, LR: 0xc70066, RF: 0xcc0059, DB: 0xd1004f, SG: 0xd90045,
+  BH: 0xe00038, HS: 0xe6002e, MT: 0xeb0026,
+};
+const OTHER_COLOR = 0x888888;
+const UNIFORM_COLOR = 0xcccccc;
+
+export function elementColor(element: string): number {
+  return ELEMENT_COLORS[element] ?? OTHER_COLOR;
+}
+
+// distinguishable chain colours, reused cyclically
+const CHAIN_PALETTE = [
+  0x1f77b4, 0xff7f0e, 0x2ca02c, 0xd62728, 0x9467bd, 0x8c564b,
+  0xe377c2, 0x17becf, 0xbcbd22, 0x7f7f7f, 0x393b79, 0xad494a,
+];
+// chains listed individually in the legend before the rest are summarised
+const MAX_CHAIN_LEGEND = 8;
+
+export const SECONDARY_COLORS: Record<SecondaryType | 'nucleic', number> = {
+  helix: 0xff0080,
+  sheet: 0xffc800,
+  coil: 0xdddddd,
+  nucleic: 0xff8c00,
+};
+
+type ResidueClass = 'hydrophobic' | 'aromatic' | 'polar' | 'positive' | 'negative' | 'special' | 'nucleic' | 'water' | 'other';
+const RESIDUE_CLASSES: Record<string, ResidueClass> = {
+  ALA: 'hydrophobic', VAL: 'hydrophobic', LEU: 'hydrophobic', ILE: 'hydrophobic', MET: 'hydrophobic', MSE: 'hydrophobic',
+  PHE: 'aromatic', TRP: 'aromatic', TYR: 'aromatic',
+  SER: 'polar', THR: 'polar', ASN: 'polar', GLN: 'polar', HIS: 'polar',
+  LYS: 'positive', ARG: 'positive',
+  ASP: 'negative', GLU: 'negative',
+  GLY: 'special', PRO: 'special', CYS: 'special',
+};
+const RESIDUE_CLASS_COLORS: Record<ResidueClass, [string, number]> = {
+  hydrophobic: ['Hydrophobic', 0xc8c8c8],
+  aromatic: ['Aromatic', 0x8c78d2],
+  polar: ['Polar', 0x2ecc71],
+  positive: ['Positive', 0x3060ff],
+  negative: ['Negative', 0xe62020],
+  special: ['Gly / Pro / Cys', 0xf0c040],
+  nucleic: ['Nucleotide', 0xff8c00],
+  water: ['Water', 0x80d0ff],
+  other: ['Other', OTHER_COLOR],
+};
+
+function residueClass(name: string): ResidueClass {
+  if (RESIDUE_CLASSES[name]) return RESIDUE_CLASSES[name];
+  if (isNucleotide(name)) return 'nucleic';
+  if (isWater(name)) return 'water';
+  return 'other';
+}
+
+/** Kyte–Doolittle hydropathy index. */
+const KYTE_DOOLITTLE: Record<string, number> = {
+  ILE: 4.5, VAL: 4.2, LEU: 3.8, PHE: 2.8, CYS: 2.5, MET: 1.9, MSE: 1.9, ALA: 1.8,
+  GLY: -0.4, THR: -0.7, SER: -0.8, TRP: -0.9, TYR: -1.3, PRO: -1.6,
+  HIS: -3.2, GLU: -3.5, GLN: -3.5, ASP: -3.5, ASN: -3.5, LYS: -3.9, ARG: -4.5,
+};
+
+const _a = new THREE.Color();
+const _b = new THREE.Color();
+
+/** Sample a multi-stop gradient at t ∈ [0, 1]. */
+function gradient(stops: number[], t: number): number {
+  const x = THREE.MathUtils.clamp(t, 0, 1) * (stops.length - 1);
+  const i = Math.min(Math.floor(x), stops.length - 2);
+  return _a.setHex(stops[i]).lerp(_b.setHex(stops[i + 1]), x - i).getHex();
+}
+
+const BFACTOR_STOPS = [0x2040ff, 0xffffff, 0xff2020];
+const HYDROPHOBICITY_STOPS = [0x3070ff, 0xffffff, 0xff8020];
+const DEVIATION_STOPS = [0x2040ff, 0xffffff, 0xff2020];
+// deviations at or above this (Å) get the last gradient stop
+const DEVIATION_MAX = 3;
+
+function rainbow(t: number): number {
+  // blue (N-terminus) → red (C-terminus)
+  return _a.setHSL((1 - THREE.MathUtils.clamp(t, 0, 1)) * 0.66, 1, 0.5).getHex();
+}
+
+/**
+ * Theme `id` for `atoms`, with `options.colorOverrides` applied on top: atoms in
+ * an override's selection take its theme (the last matching override wins) and
+ * the legend lists the swatches of every theme in use.
+ */
+export function createColorTheme(
+  id: ColorThemeId,
+  atoms: Atom[],
+  options: RepresentationOptions = {},
+  context: ColorThemeContext = {}
+): ColorTheme {
+  const base = baseColorTheme(id, atoms, options, context);
+  const overrides = options.colorOverrides ?? [];
+  if (!overrides.length) return base;
+
+  const structure = (context.structure ??= buildStructure(atoms));
+  // index into `themes` per atom, -1 for the base theme
+  const owner = new Int32Array(atoms.length).fill(-1);
+  const themes = overrides.map((o, k) => {
+    for (const i of resolveSelection(atoms, o.selection, structure).indices()) owner[i] = k;
+    return baseColorTheme(o.colorTheme, atoms, { ...options, uniformColor: o.uniformColor ?? options.uniformColor }, context);
+  });
+  const legend: LegendEntry[] = [];
+  for (const entry of [base, ...themes].flatMap((t) => t.legend)) {
+    if (!legend.some((e) => e.label === entry.label && e.color === entry.color)) legend.push(entry);
+  }
+  return {
+    ...base,
+    legend,
+    colorOf: (i) => (owner[i] < 0 ? base.colorOf(i) : themes[owner[i]].colorOf(i)),
+  };
+}
+
+function baseColorTheme(
+  id: ColorThemeId,
+  atoms: Atom[],
+  options: RepresentationOptions,
+  context: ColorThemeContext
+): ColorTheme {
+  const theme = (legend: LegendEntry[], colorOf: (i: number) => number): ColorTheme => ({
+    id,
+    label: COLOR_THEME_LABELS[id],
+    legend,
+    colorOf,
+  });
+  const structure = () => (context.structure ??= buildStructure(atoms));
+
+  switch (id) {
+    case 'element': {
+      const present = [...new Set(atoms.map((a) => a.element))].sort();
+      return theme(
+        present.map((el) => ({ label: el.charAt(0) + el.slice(1).toLowerCase(), color: elementColor(el) })),
+        (i) => elementColor(atoms[i].element)
+      );
+    }
+
+    case 'chain': {
+      const { chains, atomResidue, residues } = structure();
+      const chainIndex = new Map(chains.map((c, i) => [c, i]));
+      const colorFor = (i: number) => CHAIN_PALETTE[i % CHAIN_PALETTE.length];
+      const legend = chains.slice(0, MAX_CHAIN_LEGEND).map((c, i) => ({ label: `Chain ${c.id || '-'}`, color: colorFor(i) }));
+      if (chains.length > MAX_CHAIN_LEGEND) {
+        legend.push({ label: `… ${chains.length - MAX_CHAIN_LEGEND} more`, color: OTHER_COLOR });
+      }
+      return theme(legend, (i) => colorFor(chainIndex.get(residues[atomResidue[i]].chain)!));
+    }
+
+    case 'residue': {
+      const present = new Set(atoms.map((a) => residueClass(a.resName)));
+      const legend = (Object.keys(RESIDUE_CLASS_COLORS) as ResidueClass[])
+        .filter((c) => present.has(c))
+        .map((c) => ({ label: RESIDUE_CLASS_COLORS[c][0], color: RESIDUE_CLASS_COLORS[c][1] }));
+      return theme(legend, (i) => RESIDUE_CLASS_COLORS[residueClass(atoms[i].resName)][1]);
+    }
+
+    case 'secondary': {
+      const s = structure();
+      const types = (context.secondary ??= assignSecondaryStructure(s, options.secondary));
+      return theme(
+        [
+          { label: 'Helix', color: SECONDARY_COLORS.helix },
+          { label: 'Sheet', color: SECONDARY_COLORS.sheet },
+          { label: 'Coil', color: SECONDARY_COLORS.coil },
+          { label: 'Nucleic acid', color: SECONDARY_COLORS.nucleic },
+          { label: 'Ligand / other', color: OTHER_COLOR },
+        ],
+        (i) => {
+          const res = s.residues[s.atomResidue[i]];
+          if (isNucleotide(res.name)) return SECONDARY_COLORS.nucleic;
+          if (res.hetero && !isAminoAcid(res.name)) return OTHER_COLOR;
+          return SECONDARY_COLORS[types[res.index]];
+        }
+      );
+    }
+
+    case 'bfactor': {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const a of atoms) {
+        min = Math.min(min, a.bFactor);
+        max = Math.max(max, a.bFactor);
+      }
+      if (!(max > min)) max = min + 1;
+      const t = (b: number) => (b - min) / (max - min);
+      return theme(
+        [min, (min + max) / 2, max].map((b) => ({ label: b.toFixed(1), color: gradient(BFACTOR_STOPS, t(b)) })),
+        (i) => gradient(BFACTOR_STOPS, t(atoms[i].bFactor))
+      );
+    }
+
+    case 'hydrophobicity': {
+      const t = (h: number) => (h + 4.5) / 9;
+      return theme(
+        [
+          { label: 'Hydrophilic (−4.5)', color: gradient(HYDROPHOBICITY_STOPS, 0) },
+          { label: 'Neutral (0)', color: gradient(HYDROPHOBICITY_STOPS, t(0)) },
+          { label: 'Hydrophobic (+4.5)', color: gradient(HYDROPHOBICITY_STOPS, 1) },
+          { label: 'Non-amino acid', color: OTHER_COLOR },
+        ],
+        (i) => {
+          const h = KYTE_DOOLITTLE[atoms[i].resName];
+          return h === undefined ? OTHER_COLOR : gradient(HYDROPHOBICITY_STOPS, t(h));
+        }
+      );
+    }
+
+    case 'rainbow': {
+      // position of each polymer residue along its chain
+      const s = structure();
+      const fraction = new Float32Array(s.residues.length).fill(-1);
+      for (const chain of s.chains) {
+        const polymer = chain.residues.filter((r) => !r.hetero || isAminoAcid(r.name));
+        polymer.forEach((r, k) => {
+          fraction[r.index] = polymer.length > 1 ? k / (polymer.length - 1) : 0;
+        });
+      }
+      return theme(
+        [
+          { label: 'N-terminus', color: rainbow(0) },
+          { label: 'Middle', color: rainbow(0.5) },
+          { label: 'C-terminus', color: rainbow(1) },
+          { label: 'Ligand / other', color: OTHER_COLOR },
+        ],
+        (i) => {
+          const f = fraction[s.atomResidue[i]];
+          return f < 0 ? OTHER_COLOR : rainbow(f);
+        }
+      );
+    }
+
+    case 'uniform': {
+      const color = options.uniformColor ?? UNIFORM_COLOR;
+      return theme([{ label: 'All atoms', color }], () => color);
+    }
+
+    case 'deviation': {
+      const s = structure();
+      const deviation = options.deviation;
+      const t = (d: number) => d / DEVIATION_MAX;
+      return theme(
+        [
+          { label: '0 Å', color: gradient(DEVIATION_STOPS, 0) },
+          { label: `${DEVIATION_MAX / 2} Å`, color: gradient(DEVIATION_STOPS, 0.5) },
+          { label: `≥ ${DEVIATION_MAX} Å`, color: gradient(DEVIATION_STOPS, 1) },
+          { label: 'Not aligned', color: OTHER_COLOR },
+        ],
+        (i) => {
+          const d = deviation?.[s.atomResidue[i]];
+          return d === undefined || Number.isNaN(d) ? OTHER_COLOR : gradient(DEVIATION_STOPS, t(d));
+        }
+      );
+    }
+  }
+}
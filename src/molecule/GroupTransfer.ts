@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+
+/**
+ * Flatten a representation group built in a worker into plain data + typed
+ * arrays that can be posted to the main thread with zero-copy transfer, and
+ * rebuild it there. Supports what the PDBLoader builders produce: groups,
+ * meshes, instanced meshes, line segments and point clouds.
+ */
+
+type TypedArray = Float32Array | Uint32Array | Uint16Array | Int32Array | Uint8Array;
+
+interface SerializedGeometry {
+  attributes: Record<string, { array: TypedArray; itemSize: number; normalized: boolean }>;
+  index?: TypedArray;
+}
+
+export interface SerializedObject {
+  kind: 'group' | 'mesh' | 'instanced' | 'lines' | 'points';
+  matrix: number[];
+  renderOrder: number;
+  userData: Record<string, unknown>;
+  children: SerializedObject[];
+  /** Keys into SerializedGroup.geometries / materials. */
+  geometry?: string;
+  material?: string;
+  count?: number;
+  instanceMatrix?: Float32Array;
+  instanceColor?: Float32Array;
+}
+
+export interface SerializedGroup {
+  root: SerializedObject;
+  geometries: Record<string, SerializedGeometry>;
+  /** Material.toJSON() output, parsed back with MaterialLoader. */
+  materials: Record<string, THREE.MaterialJSON>;
+}
+
+/** Serialise `group`; `transfer` lists the buffers to pass to postMessage. */
+export function serializeGroup(group: THREE.Object3D): { data: SerializedGroup; transfer: ArrayBuffer[] } {
+  const buffers = new Set<ArrayBuffer>();
+  const geometries: Record<string, SerializedGeometry> = {};
+  const materials: Record<string, THREE.MaterialJSON> = {};
+  const track = <T extends { buffer: ArrayBufferLike }>(arr: T): T => {
+    buffers.add(arr.buffer as ArrayBuffer);
+    return arr;
+  };
+
+  const visit = (obj: THREE.Object3D): SerializedObject => {
+    obj.updateMatrix();
+    const userData: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj.userData)) {
+      userData[key] = ArrayBuffer.isView(value) ? track(value) : value;
+    }
+    const out: SerializedObject = {
+      kind: 'group',
+      matrix: obj.matrix.toArray(),
+      renderOrder: obj.renderOrder,
+      userData,
+      children: obj.children.map(visit),
+    };
+
+    const mesh = obj as THREE.Mesh;
+    if (!mesh.geometry) return out;
+    if ((obj as THREE.InstancedMesh).isInstancedMesh) out.kind = 'instanced';
+    else if ((obj as THREE.Points).isPoints) out.kind = 'points';
+    else if ((obj as THREE.LineSegments).isLineSegments) out.kind = 'lines';
+    else if (mesh.isMesh) out.kind = 'mesh';
+    else return out;
+
+    const geom = mesh.geometry;
+    if (!geometries[geom.uuid]) {
+      const attributes: SerializedGeometry['attributes'] = {};
+      for (const [name, attr] of Object.entries(geom.attributes)) {
+        const a = attr as THREE.BufferAttribute;
+        attributes[name] = { array: track(a.array as TypedArray), itemSize: a.itemSize, normalized: a.normalized };
+      }
+      geometries[geom.uuid] = { attributes, index: geom.index ? track(geom.index.array as TypedArray) : undefined };
+    }
+    out.geometry = geom.uuid;
+
+    const mat = mesh.material as THREE.Material;
+    if (!materials[mat.uuid]) materials[mat.uuid] = mat.toJSON();
+    out.material = mat.uuid;
+
+    if (out.kind === 'instanced') {
+      const inst = obj as THREE.InstancedMesh;
+      out.count = inst.count;
+      out.instanceMatrix = track(inst.instanceMatrix.array as Float32Array);
+      if (inst.instanceColor) out.instanceColor = track(inst.instanceColor.array as Float32Array);
+    }
+    return out;
+  };
+
+  const root = visit(group);
+  return { data: { root, geometries, materials }, transfer: [...buffers] };
+}
+
+/** Rebuild a group produced by serializeGroup (shared geometries/materials stay shared). */
+export function deserializeGroup(data: SerializedGroup): THREE.Group {
+  const geometries = new Map<string, THREE.BufferGeometry>();
+  const materials = new Map<string, THREE.Material>();
+  const loader = new THREE.MaterialLoader();
+
+  const geometryFor = (key: string): THREE.BufferGeometry => {
+    const cached = geometries.get(key);
+    if (cached) return cached;
+    const src = data.geometries[key];
+    const geom = new THREE.BufferGeometry();
+    for (const [name, a] of Object.entries(src.attributes)) {
+      geom.setAttribute(name, new THREE.BufferAttribute(a.array, a.itemSize, a.normalized));
+    }
+    if (src.index) geom.setIndex(new THREE.BufferAttribute(src.index, 1));
+    geometries.set(key, geom);
+    return geom;
+  };
+  const materialFor = (key: string): THREE.Material => {
+    const cached = materials.get(key);
+    if (cached) return cached;
+    const mat = loader.parse(data.materials[key]);
+    materials.set(key, mat);
+    return mat;
+  };
+
+  const build = (src: SerializedObject): THREE.Object3D => {
+    let obj: THREE.Object3D;
+    switch (src.kind) {
+      case 'instanced': {
+        const inst = new THREE.InstancedMesh(geometryFor(src.geometry!), materialFor(src.material!), src.count!);
+        inst.instanceMatrix = new THREE.InstancedBufferAttribute(src.instanceMatrix!, 16);
+        if (src.instanceColor) inst.instanceColor = new THREE.InstancedBufferAttribute(src.instanceColor, 3);
+        inst.computeBoundingSphere();
+        obj = inst;
+        break;
+      }
+      case 'mesh':
+        obj = new THREE.Mesh(geometryFor(src.geometry!), materialFor(src.material!));
+        break;
+      case 'lines':
+        obj = new THREE.LineSegments(geometryFor(src.geometry!), materialFor(src.material!));
+        break;
+      case 'points':
+        obj = new THREE.Points(geometryFor(src.geometry!), materialFor(src.material!));
+        break;
+      default:
+        obj = new THREE.Group();
+    }
+    obj.matrix.fromArray(src.matrix);
+    obj.matrix.decompose(obj.position, obj.quaternion, obj.scale);
+    obj.renderOrder = src.renderOrder;
+    Object.assign(obj.userData, src.userData);
+    for (const child of src.children) obj.add(build(child));
+    return obj;
+  };
+
+  const root = build(data.root);
+  if ((root as THREE.Group).isGroup) return root as THREE.Group;
+  const group = new THREE.Group();
+  group.add(root);
+  return group;
+}
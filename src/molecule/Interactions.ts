@@ -0,0 +1,348 @@
+import * as THREE from 'three';
+import type { Atom } from './PDBLoader';
+import { Bond, computeBonds } from './Bonds';
+import { buildStructure, isAminoAcid, Structure } from './Structure';
+import { SpatialGrid } from './SpatialGrid';
+import { resolveSelection, SelectionLike } from './Selection';
+
+/**
+ * Non-covalent contacts between two groups of atoms (a ligand and the protein,
+ * or two chains), from heavy-atom geometry alone since most structures carry
+ * no hydrogens:
+ * - hydrogen bonds: donor / acceptor N or O within 3.5 Å,
+ * - salt bridges: oppositely charged groups within 4 Å,
+ * - π-stacking: planar 5/6-membered rings, centroids within 5.5 Å, parallel
+ *   (offset ≤ 2 Å) or T-shaped,
+ * - hydrophobic contacts: carbons without polar neighbours within 4 Å, one per
+ *   residue pair.
+ */
+
+export type InteractionType = 'hbond' | 'saltBridge' | 'piStacking' | 'hydrophobic';
+
+export const INTERACTION_TYPES: InteractionType[] = ['hbond', 'saltBridge', 'piStacking', 'hydrophobic'];
+
+export const INTERACTION_LABELS: Record<InteractionType, string> = {
+  hbond: 'Hydrogen bond',
+  saltBridge: 'Salt bridge',
+  piStacking: 'π-stacking',
+  hydrophobic: 'Hydrophobic',
+};
+
+export const INTERACTION_COLORS: Record<InteractionType, number> = {
+  hbond: 0x3399ff,
+  saltBridge: 0xff44cc,
+  piStacking: 0x33dd66,
+  hydrophobic: 0xbbbbbb,
+};
+
+export interface Interaction {
+  type: InteractionType;
+  /** Atom indices of each partner: one atom, or the ring for π-stacking. */
+  from: number[];
+  to: number[];
+  /** Å between the atoms or ring centroids. */
+  distance: number;
+}
+
+export interface InteractionOptions {
+  /** Bonds of `atoms`; derived from distances when omitted. */
+  bonds?: Bond[];
+  structure?: Structure;
+}
+
+const HBOND_MIN = 2.5;
+const HBOND_MAX = 3.5;
+const SALT_BRIDGE_MAX = 4.0;
+const HYDROPHOBIC_MAX = 4.0;
+const STACKING_MAX = 5.5;
+const STACKING_OFFSET = 2.0;
+const PLANARITY_TOLERANCE = 0.15;
+
+// amino-acid side-chain roles; backbone N (not Pro) donates, backbone O accepts
+const PROTEIN_DONORS: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'], ASN: ['ND2'], GLN: ['NE2'], HIS: ['ND1', 'NE2'], LYS: ['NZ'], TRP: ['NE1'],
+  SER: ['OG'], THR: ['OG1'], TYR: ['OH'], CYS: ['SG'],
+};
+const PROTEIN_ACCEPTORS: Record<string, string[]> = {
+  ASP: ['OD1', 'OD2'], GLU: ['OE1', 'OE2'], ASN: ['OD1'], GLN: ['OE1'], HIS: ['ND1', 'NE2'],
+  SER: ['OG'], THR: ['OG1'], TYR: ['OH'], MET: ['SD'],
+};
+const PROTEIN_POSITIVE: Record<string, string[]> = { LYS: ['NZ'], ARG: ['NE', 'NH1', 'NH2'], HIS: ['ND1', 'NE2'] };
+const PROTEIN_NEGATIVE: Record<string, string[]> = { ASP: ['OD1', 'OD2'], GLU: ['OE1', 'OE2'] };
+
+interface AtomRoles {
+  donor: boolean;
+  acceptor: boolean;
+  /** +1 / -1 for atoms of charged groups, else 0. */
+  charge: number;
+  hydrophobic: boolean;
+}
+
+/** Classify atoms by residue templates (amino acids) or bonding pattern (everything else). */
+function atomRoles(atoms: Atom[], neighbours: number[][], index: number): AtomRoles {
+  const atom = atoms[index];
+  const heavy = neighbours[index].filter((j) => atoms[j].element !== 'H' && atoms[j].element !== 'D');
+  const roles: AtomRoles = { donor: false, acceptor: false, charge: 0, hydrophobic: false };
+
+  if (atom.element === 'C') {
+    roles.hydrophobic = heavy.every((j) => atoms[j].element === 'C' || atoms[j].element === 'S');
+    return roles;
+  }
+  if (['F', 'CL', 'BR', 'I'].includes(atom.element)) {
+    roles.hydrophobic = true;
+    return roles;
+  }
+
+  if (isAminoAcid(atom.resName)) {
+    const res = atom.resName;
+    const has = (table: Record<string, string[]>) => !!table[res]?.includes(atom.name);
+    const backboneN = atom.name === 'N' && res !== 'PRO';
+    const backboneO = atom.name === 'O' || atom.name === 'OXT';
+    roles.donor = backboneN || has(PROTEIN_DONORS);
+    roles.acceptor = backboneO || has(PROTEIN_ACCEPTORS);
+    roles.charge = has(PROTEIN_POSITIVE) ? 1 : has(PROTEIN_NEGATIVE) || atom.name === 'OXT' ? -1 : 0;
+    roles.hydrophobic = atom.name === 'SD';
+    return roles;
+  }
+
+  // ligands, nucleic acids, waters: infer from element and connectivity
+  if (atom.element === 'O') {
+    roles.acceptor = true;
+    roles.donor = heavy.length <= 1;
+    if (heavy.length === 1) {
+      const partner = atoms[heavy[0]];
+      // terminal O on P / S (phosphate, sulfate) or one of two on a carboxylate carbon
+      const terminalOs = neighbours[heavy[0]].filter((j) => atoms[j].element === 'O' && neighbours[j].length === 1).length;
+      if (partner.element === 'P' || partner.element === 'S' || (partner.element === 'C' && terminalOs >= 2)) roles.charge = -1;
+    }
+  } else if (atom.element === 'N') {
+    roles.donor = heavy.length < 3;
+    roles.acceptor = heavy.length < 3;
+    if (heavy.length === 4) roles.charge = 1;
+  } else if (atom.element === 'S') {
+    roles.hydrophobic = heavy.every((j) => atoms[j].element === 'C');
+  }
+  if (atom.charge) roles.charge = Math.sign(atom.charge);
+  return roles;
+}
+
+/**
+ * Interactions between the atoms of `groupA` and those of `groupB` (queries or
+ * selections over `atoms`, e.g. a ligand and `protein`, or `chain A` and
+ * `chain B`). Pairs of atoms in the same or sequence-adjacent residues are
+ * skipped, so overlapping groups do not report backbone geometry.
+ */
+export function computeInteractions(
+  atoms: Atom[],
+  groupA: SelectionLike,
+  groupB: SelectionLike,
+  options: InteractionOptions = {}
+): Interaction[] {
+  const structure = options.structure ?? buildStructure(atoms);
+  const a = resolveSelection(atoms, groupA, structure).indices();
+  const b = resolveSelection(atoms, groupB, structure).indices();
+  if (!a.length || !b.length) return [];
+
+  const bonds = options.bonds ?? computeBonds(atoms);
+  const neighbours: number[][] = atoms.map(() => []);
+  for (const bond of bonds) {
+    neighbours[bond.a].push(bond.b);
+    neighbours[bond.b].push(bond.a);
+  }
+  const rolesCache = new Map<number, AtomRoles>();
+  const roles = (i: number) => {
+    let r = rolesCache.get(i);
+    if (!r) rolesCache.set(i, (r = atomRoles(atoms, neighbours, i)));
+    return r;
+  };
+
+  const residueOf = structure.atomResidue;
+  const related = (i: number, j: number) => {
+    const ri = structure.residues[residueOf[i]];
+    const rj = structure.residues[residueOf[j]];
+    return ri.chain === rj.chain && Math.abs(ri.index - rj.index) <= 1;
+  };
+
+  const interactions: Interaction[] = [];
+  // shortest salt bridge / hydrophobic contact per residue pair
+  const perResidue = new Map<string, Interaction>();
+  const keepShortest = (key: string, interaction: Interaction) => {
+    const prev = perResidue.get(key);
+    if (!prev || interaction.distance < prev.distance) perResidue.set(key, interaction);
+  };
+
+  const bPoints = Array.from(b, (i) => atoms[i]);
+  const grid = new SpatialGrid(bPoints);
+  const maxCutoff = Math.max(HBOND_MAX, SALT_BRIDGE_MAX, HYDROPHOBIC_MAX);
+  for (const i of a) {
+    const ai = atoms[i];
+    const ri = roles(i);
+    grid.forEachWithin(ai.x, ai.y, ai.z, maxCutoff, (k, d2) => {
+      const j = b[k];
+      if (j === i || related(i, j)) return;
+      const rj = roles(j);
+      const d = Math.sqrt(d2);
+      const pairKey = (type: string) => {
+        const [x, y] = residueOf[i] < residueOf[j] ? [residueOf[i], residueOf[j]] : [residueOf[j], residueOf[i]];
+        return `${type} ${x} ${y}`;
+      };
+      if (ri.charge && ri.charge === -rj.charge && d <= SALT_BRIDGE_MAX) {
+        keepShortest(pairKey('saltBridge'), { type: 'saltBridge', from: [i], to: [j], distance: d });
+      } else if (d >= HBOND_MIN && d <= HBOND_MAX && ((ri.donor && rj.acceptor) || (ri.acceptor && rj.donor))) {
+        interactions.push({ type: 'hbond', from: [i], to: [j], distance: d });
+      } else if (ri.hydrophobic && rj.hydrophobic && d <= HYDROPHOBIC_MAX) {
+        keepShortest(pairKey('hydrophobic'), { type: 'hydrophobic', from: [i], to: [j], distance: d });
+      }
+    });
+  }
+  interactions.push(...perResidue.values());
+
+  // π-stacking between rings lying entirely in each group
+  const ringsA = findPlanarRings(atoms, neighbours, a);
+  const ringsB = findPlanarRings(atoms, neighbours, b);
+  for (const ringA of ringsA) {
+    for (const ringB of ringsB) {
+      if (ringA.atoms.some((i) => ringB.atoms.includes(i)) || related(ringA.atoms[0], ringB.atoms[0])) continue;
+      const d = ringA.centroid.distanceTo(ringB.centroid);
+      if (d > STACKING_MAX) continue;
+      const angle = THREE.MathUtils.radToDeg(Math.acos(Math.min(1, Math.abs(ringA.normal.dot(ringB.normal)))));
+      const offset = ringB.centroid.clone().sub(ringA.centroid).projectOnPlane(ringA.normal).length();
+      const parallel = angle < 30 && offset <= STACKING_OFFSET;
+      const tShaped = angle > 60 && offset <= STACKING_OFFSET;
+      if (parallel || tShaped) {
+        interactions.push({ type: 'piStacking', from: ringA.atoms, to: ringB.atoms, distance: d });
+      }
+    }
+  }
+  return interactions;
+}
+
+interface Ring {
+  atoms: number[];
+  centroid: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+/**
+ * Planar 5- and 6-membered rings made of bonds within `indices`: for each bond
+ * the shortest other path between its atoms closes the smallest ring through it.
+ */
+function findPlanarRings(atoms: Atom[], neighbours: number[][], indices: ArrayLike<number>): Ring[] {
+  const inGroup = new Set<number>(Array.from(indices));
+  const rings = new Map<string, number[]>();
+  for (const u of inGroup) {
+    for (const v of neighbours[u]) {
+      if (v < u || !inGroup.has(v)) continue;
+      const path = shortestPath(neighbours, inGroup, v, u, 5, [u, v]);
+      if (!path || path.length < 5 || path.length > 6) continue;
+      const key = [...path].sort((x, y) => x - y).join(' ');
+      if (!rings.has(key)) rings.set(key, path);
+    }
+  }
+
+  const out: Ring[] = [];
+  for (const ring of rings.values()) {
+    const points = ring.map((i) => new THREE.Vector3(atoms[i].x, atoms[i].y, atoms[i].z));
+    const centroid = points.reduce((c, p) => c.add(p), new THREE.Vector3()).divideScalar(points.length);
+    const normal = new THREE.Vector3();
+    points.forEach((p, k) => {
+      const q = points[(k + 1) % points.length];
+      normal.add(new THREE.Vector3().crossVectors(p.clone().sub(centroid), q.clone().sub(centroid)));
+    });
+    if (normal.lengthSq() === 0) continue;
+    normal.normalize();
+    const planar = points.every((p) => Math.abs(p.clone().sub(centroid).dot(normal)) <= PLANARITY_TOLERANCE);
+    if (planar) out.push({ atoms: ring, centroid, normal });
+  }
+  return out;
+}
+
+/** Breadth-first path start → goal (inclusive) of at most `maxBonds` bonds, not using the bond `skip`. */
+function shortestPath(
+  neighbours: number[][],
+  allowed: Set<number>,
+  start: number,
+  goal: number,
+  maxBonds: number,
+  skip: [number, number]
+): number[] | undefined {
+  const prev = new Map<number, number>([[start, -1]]);
+  let frontier = [start];
+  for (let depth = 0; depth < maxBonds && frontier.length; depth++) {
+    const next: number[] = [];
+    for (const x of frontier) {
+      for (const y of neighbours[x]) {
+        if (!allowed.has(y) || prev.has(y)) continue;
+        if ((x === skip[0] && y === skip[1]) || (x === skip[1] && y === skip[0])) continue;
+        prev.set(y, x);
+        if (y === goal) {
+          const path = [y];
+          for (let p = x; p !== -1; p = prev.get(p)!) path.push(p);
+          return path;
+        }
+        next.push(y);
+      }
+    }
+    frontier = next;
+  }
+  return undefined;
+}
+
+// dashed-cylinder pattern, in Å
+const DASH = 0.3;
+const GAP = 0.2;
+const RADIUS = 0.07;
+
+const _up = new THREE.Vector3(0, 1, 0);
+const _dir = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _pos = new THREE.Vector3();
+const _scale = new THREE.Vector3();
+
+function centroidOf(atoms: Atom[], indices: number[]): THREE.Vector3 {
+  const c = new THREE.Vector3();
+  for (const i of indices) c.add(_pos.set(atoms[i].x, atoms[i].y, atoms[i].z));
+  return c.divideScalar(indices.length);
+}
+
+/**
+ * Interactions as dashed cylinders, one InstancedMesh of dashes per type.
+ * Coordinates are in Å like the representations, so the group takes the
+ * molecule's transform. Dashes are not pick targets.
+ */
+export function createInteractionOverlay(atoms: Atom[], interactions: Interaction[]): THREE.Group {
+  const group = new THREE.Group();
+  const geom = new THREE.CylinderGeometry(RADIUS, RADIUS, 1, 6);
+  const matrix = new THREE.Matrix4();
+  for (const type of INTERACTION_TYPES) {
+    const segments: [THREE.Vector3, THREE.Vector3][] = [];
+    for (const it of interactions) {
+      if (it.type !== type) continue;
+      const p = centroidOf(atoms, it.from);
+      const q = centroidOf(atoms, it.to);
+      const len = p.distanceTo(q);
+      const count = Math.max(1, Math.round((len + GAP) / (DASH + GAP)));
+      // stretch the pattern so both ends finish on a dash
+      const step = (len + GAP) / count;
+      _dir.subVectors(q, p).normalize();
+      for (let k = 0; k < count; k++) {
+        const start = p.clone().addScaledVector(_dir, k * step);
+        segments.push([start, start.clone().addScaledVector(_dir, step - GAP)]);
+      }
+    }
+    if (!segments.length) continue;
+    const mesh = new THREE.InstancedMesh(geom, new THREE.MeshBasicMaterial({ color: INTERACTION_COLORS[type] }), segments.length);
+    segments.forEach(([s, e], k) => {
+      _dir.subVectors(e, s);
+      const len = _dir.length();
+      _quat.setFromUnitVectors(_up, _dir.divideScalar(len || 1));
+      _pos.copy(s).add(e).multiplyScalar(0.5);
+      mesh.setMatrixAt(k, matrix.compose(_pos, _quat, _scale.set(1, len, 1)));
+    });
+    mesh.computeBoundingSphere();
+    mesh.raycast = () => {};
+    mesh.name = type;
+    group.add(mesh);
+  }
+  return group;
+}
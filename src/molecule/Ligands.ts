@@ -0,0 +1,33 @@
+import { isAminoAcid, isNucleotide, isWater, Residue, Structure } from './Structure';
+
+/**
+ * Crystallisation / buffer components and counter-ions that are HETATM groups
+ * but rarely the ligand of interest.
+ */
+const ADDITIVES = new Set([
+  'SO4', 'PO4', 'NO3', 'CO3', 'NH4', 'SCN', 'AZI', 'IOD', 'CL', 'BR', 'NA', 'K',
+  'ACT', 'ACY', 'FMT', 'CIT', 'TLA', 'MLI', 'GOL', 'EDO', 'PEG', 'PG4', 'PGE', '1PE',
+  'P6G', 'MPD', 'MRD', 'IPA', 'DMS', 'BME', 'TRS', 'EPE', 'MES', 'IMD',
+]);
+
+/** Single-atom hetero residue other than water, e.g. ZN, MG. */
+export function isIon(res: Residue): boolean {
+  return res.hetero && res.atoms.length === 1 && !isWater(res.name);
+}
+
+/** Hetero residue that is not water, an ion, a common additive or a modified polymer residue. */
+export function isLigand(res: Residue): boolean {
+  return (
+    res.hetero &&
+    !isWater(res.name) &&
+    !isIon(res) &&
+    !ADDITIVES.has(res.name) &&
+    !isAminoAcid(res.name) &&
+    !isNucleotide(res.name)
+  );
+}
+
+/** Ligand residues of a structure in file order. */
+export function findLigands(structure: Structure): Residue[] {
+  return structure.residues.filter(isLigand);
+}
@@ -0,0 +1,43 @@
+import { fetchStructure, prepareMolecule, LoadStage } from './PDBLoader';
+import { buildInitialRepresentation } from './Representations';
+import { serializeGroup } from './GroupTransfer';
+import { packModels } from './AtomTransfer';
+import type { LoadRequest, LoadResponse } from './StructureLoader';
+
+/**
+ * Worker entry used by StructureLoader: download, parse, bond and build the
+ * requested representation off the main thread, then post the result back.
+ * Atoms, bonds and geometry travel as transferred typed arrays; only the
+ * small records (string table, secondary structure, sequences, materials)
+ * are copied.
+ */
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (e: MessageEvent<LoadRequest>) => {
+  const { jobId, id, style } = e.data;
+  const post = (msg: LoadResponse, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+  const progress = (stage: LoadStage, fraction?: number) => post({ type: 'progress', jobId, stage, fraction });
+
+  try {
+    const molecule = prepareMolecule(await fetchStructure(id, progress), id, progress);
+    progress('geometry');
+    const start = performance.now();
+    const group = buildInitialRepresentation(molecule.atoms, molecule.bonds, molecule.secondary, style);
+    const buildTime = (performance.now() - start) / 1000;
+    const { data, transfer } = serializeGroup(group);
+    const models = packModels(molecule.models);
+
+    // bonds as flat (a, b, order) triples
+    const bonds = new Int32Array(molecule.bonds.length * 3);
+    molecule.bonds.forEach((bond, i) => {
+      bonds[3 * i] = bond.a;
+      bonds[3 * i + 1] = bond.b;
+      bonds[3 * i + 2] = bond.order;
+    });
+
+    post({ type: 'done', jobId, models: models.data, bonds, secondary: molecule.secondary, sequences: molecule.sequences, group: data, buildTime }, [...transfer, ...models.transfer, bonds.buffer]);
+  } catch (err) {
+    post({ type: 'error', jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+};
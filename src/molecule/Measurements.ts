@@ -0,0 +1,300 @@
+import * as THREE from 'three';
+import type { Atom } from './PDBLoader';
+import type { Point3 } from './SpatialGrid';
+
+export type MeasurementKind = 'distance' | 'angle' | 'dihedral';
+
+/** Atoms to pick for each kind of measurement. */
+export const MEASUREMENT_ATOMS: Record<MeasurementKind, number> = { distance: 2, angle: 3, dihedral: 4 };
+
+export interface Measurement {
+  id: number;
+  kind: MeasurementKind;
+  /** Atom indices in pick order. */
+  atoms: number[];
+  /** Å for distances, degrees for angles and dihedrals. */
+  value: number;
+}
+
+const _u = new THREE.Vector3();
+const _v = new THREE.Vector3();
+const _w = new THREE.Vector3();
+
+function vec(p: Point3, out = new THREE.Vector3()): THREE.Vector3 {
+  return out.set(p.x, p.y, p.z);
+}
+
+export function measureDistance(a: Point3, b: Point3): number {
+  return vec(a, _u).distanceTo(vec(b, _v));
+}
+
+/** Angle a–b–c at b, in degrees. */
+export function measureAngle(a: Point3, b: Point3, c: Point3): number {
+  const ba = vec(a, _u).sub(vec(b, _w));
+  const bc = vec(c, _v).sub(_w);
+  return THREE.MathUtils.radToDeg(ba.angleTo(bc));
+}
+
+/** Torsion a–b–c–d about b–c in degrees (−180, 180], positive clockwise looking down b→c (IUPAC). */
+export function measureDihedral(a: Point3, b: Point3, c: Point3, d: Point3): number {
+  const b1 = vec(b).sub(vec(a));
+  const b2 = vec(c).sub(vec(b));
+  const b3 = vec(d).sub(vec(c));
+  const n1 = new THREE.Vector3().crossVectors(b1, b2);
+  const n2 = new THREE.Vector3().crossVectors(b2, b3);
+  return THREE.MathUtils.radToDeg(Math.atan2(b2.length() * b1.dot(n2), n1.dot(n2)));
+}
+
+function measure(kind: MeasurementKind, p: Point3[]): number {
+  switch (kind) {
+    case 'distance': return measureDistance(p[0], p[1]);
+    case 'angle': return measureAngle(p[0], p[1], p[2]);
+    case 'dihedral': return measureDihedral(p[0], p[1], p[2], p[3]);
+  }
+}
+
+/** Label text, e.g. `3.42 Å` or `-62.1°`. */
+export function formatMeasurement(m: Measurement): string {
+  return m.kind === 'distance' ? `${m.value.toFixed(2)} Å` : `${m.value.toFixed(1)}°`;
+}
+
+const COLORS: Record<MeasurementKind, number> = { distance: 0xffe14d, angle: 0x66ff99, dihedral: 0x66ccff };
+// dash pattern and marker size in Å
+const DASH = 0.25;
+const GAP = 0.15;
+const MARKER_RADIUS = 0.5;
+const ARC_SEGMENTS = 24;
+// label height in metres, whatever the molecule's scale
+const LABEL_HEIGHT = 0.04;
+
+/**
+ * Measurements drawn as dashed lines (distances), dashed arcs (angles, and
+ * dihedrals around the central bond) and billboarded value labels. Geometry
+ * lives in the molecule's Å frame; follow() copies the molecule group's
+ * transform every frame so the overlay turns and scales with it. Atoms are
+ * picked one at a time with pick(); the measurement completes once enough
+ * atoms for the current kind have been picked.
+ */
+export class MeasurementLayer {
+  readonly object3d = new THREE.Group();
+  kind: MeasurementKind = 'distance';
+  private atoms: Atom[] = [];
+  private items: { measurement: Measurement; object: THREE.Group; label: THREE.Sprite }[] = [];
+  private pending: number[] = [];
+  private pendingMarkers = new THREE.Group();
+  private nextId = 1;
+
+  constructor() {
+    this.object3d.add(this.pendingMarkers);
+  }
+
+  get measurements(): Measurement[] {
+    return this.items.map((it) => it.measurement);
+  }
+
+  /** Atoms picked towards the next measurement. */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /** Use the coordinates of another model (same atom records) or a new structure. */
+  setAtoms(atoms: Atom[]) {
+    this.atoms = atoms;
+    for (const item of this.items) {
+      const { measurement } = item;
+      measurement.value = measure(measurement.kind, measurement.atoms.map((i) => atoms[i]));
+      this.disposeObject(item.object);
+      this.object3d.remove(item.object);
+      Object.assign(item, this.buildObject(measurement));
+      this.object3d.add(item.object);
+    }
+    this.updateMarkers();
+  }
+
+  setKind(kind: MeasurementKind) {
+    this.kind = kind;
+    this.cancelPending();
+  }
+
+  /** Add an atom to the measurement in progress; returns the measurement once complete. */
+  pick(atomIndex: number): Measurement | undefined {
+    if (atomIndex < 0 || atomIndex >= this.atoms.length || this.pending.includes(atomIndex)) return undefined;
+    this.pending.push(atomIndex);
+    if (this.pending.length < MEASUREMENT_ATOMS[this.kind]) {
+      this.updateMarkers();
+      return undefined;
+    }
+    const atoms = this.pending;
+    this.pending = [];
+    this.updateMarkers();
+    const measurement: Measurement = {
+      id: this.nextId++,
+      kind: this.kind,
+      atoms,
+      value: measure(this.kind, atoms.map((i) => this.atoms[i])),
+    };
+    const item = { measurement, ...this.buildObject(measurement) };
+    this.items.push(item);
+    this.object3d.add(item.object);
+    return measurement;
+  }
+
+  cancelPending() {
+    this.pending = [];
+    this.updateMarkers();
+  }
+
+  remove(id: number) {
+    const idx = this.items.findIndex((it) => it.measurement.id === id);
+    if (idx < 0) return;
+    const [item] = this.items.splice(idx, 1);
+    this.disposeObject(item.object);
+    this.object3d.remove(item.object);
+  }
+
+  clear() {
+    for (const item of [...this.items]) this.remove(item.measurement.id);
+    this.cancelPending();
+  }
+
+  /** Track the molecule group's transform and keep labels a constant size in metres. */
+  follow(group: THREE.Object3D | undefined) {
+    this.object3d.visible = !!group;
+    if (!group) return;
+    this.object3d.position.copy(group.position);
+    this.object3d.quaternion.copy(group.quaternion);
+    this.object3d.scale.copy(group.scale);
+    const scale = group.scale.x || 1;
+    for (const { label } of this.items) {
+      const aspect = label.userData.aspect as number;
+      label.scale.set((LABEL_HEIGHT * aspect) / scale, LABEL_HEIGHT / scale, 1);
+    }
+  }
+
+  /* ------------ geometry ------------ */
+  private buildObject(m: Measurement): { object: THREE.Group; label: THREE.Sprite } {
+    const p = m.atoms.map((i) => vec(this.atoms[i]));
+    const object = new THREE.Group();
+    const material = new THREE.LineDashedMaterial({ color: COLORS[m.kind], dashSize: DASH, gapSize: GAP, depthTest: false, transparent: true });
+    const addLine = (points: THREE.Vector3[]) => {
+      const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), material);
+      line.computeLineDistances();
+      line.renderOrder = 997;
+      // overlays are not pick targets
+      line.raycast = () => {};
+      object.add(line);
+    };
+
+    let labelPos: THREE.Vector3;
+    switch (m.kind) {
+      case 'distance':
+        addLine(p);
+        labelPos = p[0].clone().add(p[1]).multiplyScalar(0.5);
+        break;
+      case 'angle': {
+        addLine(p);
+        const u = p[0].clone().sub(p[1]);
+        const v = p[2].clone().sub(p[1]);
+        const radius = 0.35 * Math.min(u.length(), v.length());
+        const arc = angleArc(p[1], u.normalize(), v.normalize(), radius);
+        if (arc) addLine(arc);
+        labelPos = p[1].clone().add(u.add(v).normalize().multiplyScalar(radius * 1.6));
+        break;
+      }
+      case 'dihedral': {
+        addLine(p);
+        // arc around the b–c axis from the projection of a to that of d
+        const axis = p[2].clone().sub(p[1]);
+        const center = p[1].clone().add(p[2]).multiplyScalar(0.5);
+        const radius = 0.5 * axis.length();
+        axis.normalize();
+        const from = p[0].clone().sub(p[1]).projectOnPlane(axis).normalize();
+        const q = new THREE.Quaternion();
+        const points: THREE.Vector3[] = [];
+        for (let s = 0; s <= ARC_SEGMENTS; s++) {
+          q.setFromAxisAngle(axis, THREE.MathUtils.degToRad(m.value) * (s / ARC_SEGMENTS));
+          points.push(from.clone().applyQuaternion(q).multiplyScalar(radius).add(center));
+        }
+        addLine(points);
+        labelPos = points[ARC_SEGMENTS >> 1].clone().sub(center).multiplyScalar(1.5).add(center);
+        break;
+      }
+    }
+
+    const label = makeLabel(formatMeasurement(m), COLORS[m.kind]);
+    label.position.copy(labelPos);
+    object.add(label);
+    return { object, label };
+  }
+
+  private updateMarkers() {
+    this.disposeObject(this.pendingMarkers);
+    this.pendingMarkers.clear();
+    const geom = new THREE.SphereGeometry(MARKER_RADIUS, 12, 12);
+    const mat = new THREE.MeshBasicMaterial({ color: COLORS[this.kind], transparent: true, opacity: 0.6, depthTest: false });
+    for (const i of this.pending) {
+      const marker = new THREE.Mesh(geom, mat);
+      marker.position.copy(vec(this.atoms[i]));
+      marker.renderOrder = 997;
+      marker.raycast = () => {};
+      this.pendingMarkers.add(marker);
+    }
+    if (!this.pending.length) {
+      geom.dispose();
+      mat.dispose();
+    }
+  }
+
+  private disposeObject(object: THREE.Object3D) {
+    const materials = new Set<THREE.Material>();
+    const geometries = new Set<THREE.BufferGeometry>();
+    object.traverse((obj) => {
+      const o = obj as THREE.Mesh | THREE.Sprite;
+      if (o.geometry && !(o as THREE.Sprite).isSprite) geometries.add(o.geometry);
+      if (o.material) materials.add(o.material as THREE.Material);
+    });
+    geometries.forEach((g) => g.dispose());
+    materials.forEach((m) => {
+      (m as THREE.SpriteMaterial).map?.dispose();
+      m.dispose();
+    });
+  }
+}
+
+/** Points along the arc from unit vector u to unit vector v around `center`; undefined when (anti)parallel. */
+function angleArc(center: THREE.Vector3, u: THREE.Vector3, v: THREE.Vector3, radius: number): THREE.Vector3[] | undefined {
+  const theta = u.angleTo(v);
+  const sin = Math.sin(theta);
+  if (sin < 1e-3) return undefined;
+  const points: THREE.Vector3[] = [];
+  for (let s = 0; s <= ARC_SEGMENTS; s++) {
+    const t = s / ARC_SEGMENTS;
+    const a = Math.sin((1 - t) * theta) / sin;
+    const b = Math.sin(t * theta) / sin;
+    points.push(u.clone().multiplyScalar(a).addScaledVector(v, b).multiplyScalar(radius).add(center));
+  }
+  return points;
+}
+
+function makeLabel(text: string, color: number): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  const font = 'bold 48px sans-serif';
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 32;
+  canvas.height = 64;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = font;
+  ctx.fillStyle = `#${color.toString(16).padStart(6, '0')}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.minFilter = THREE.LinearFilter;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, depthTest: false }));
+  sprite.userData.aspect = canvas.width / canvas.height;
+  sprite.renderOrder = 998;
+  sprite.raycast = () => {};
+  return sprite;
+}
@@ -0,0 +1,87 @@
+/**
+ * Minimal MessagePack decoder – just enough to unpack BinaryCIF files.
+ * Extension types are skipped (decoded as undefined); everything else maps to
+ * the obvious JS value, with bin payloads returned as Uint8Array views.
+ */
+export function decodeMsgPack(buffer: ArrayBuffer | Uint8Array): unknown {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const utf8 = new TextDecoder('utf-8');
+  let offset = 0;
+
+  const readStr = (len: number): string => {
+    const s = utf8.decode(bytes.subarray(offset, offset + len));
+    offset += len;
+    return s;
+  };
+  const readBin = (len: number): Uint8Array => {
+    const b = bytes.subarray(offset, offset + len);
+    offset += len;
+    return b;
+  };
+  const readArray = (len: number): unknown[] => {
+    const arr = new Array(len);
+    for (let i = 0; i < len; i++) arr[i] = read();
+    return arr;
+  };
+  const readMap = (len: number): Record<string, unknown> => {
+    const obj: Record<string, unknown> = {};
+    for (let i = 0; i < len; i++) {
+      const key = String(read());
+      obj[key] = read();
+    }
+    return obj;
+  };
+  const skipExt = (len: number): undefined => {
+    offset += 1 + len; // type byte + payload
+    return undefined;
+  };
+
+  function read(): unknown {
+    const type = bytes[offset++];
+    // fixed-size families
+    if (type < 0x80) return type; // positive fixint
+    if (type < 0x90) return readMap(type & 0x0f); // fixmap
+    if (type < 0xa0) return readArray(type & 0x0f); // fixarray
+    if (type < 0xc0) return readStr(type & 0x1f); // fixstr
+    if (type >= 0xe0) return type - 0x100; // negative fixint
+
+    let v: number;
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: v = view.getUint8(offset); offset += 1; return readBin(v);
+      case 0xc5: v = view.getUint16(offset); offset += 2; return readBin(v);
+      case 0xc6: v = view.getUint32(offset); offset += 4; return readBin(v);
+      case 0xc7: v = view.getUint8(offset); offset += 1; return skipExt(v);
+      case 0xc8: v = view.getUint16(offset); offset += 2; return skipExt(v);
+      case 0xc9: v = view.getUint32(offset); offset += 4; return skipExt(v);
+      case 0xca: v = view.getFloat32(offset); offset += 4; return v;
+      case 0xcb: v = view.getFloat64(offset); offset += 8; return v;
+      case 0xcc: v = view.getUint8(offset); offset += 1; return v;
+      case 0xcd: v = view.getUint16(offset); offset += 2; return v;
+      case 0xce: v = view.getUint32(offset); offset += 4; return v;
+      case 0xcf: v = view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4); offset += 8; return v;
+      case 0xd0: v = view.getInt8(offset); offset += 1; return v;
+      case 0xd1: v = view.getInt16(offset); offset += 2; return v;
+      case 0xd2: v = view.getInt32(offset); offset += 4; return v;
+      case 0xd3: v = view.getInt32(offset) * 2 ** 32 + view.getUint32(offset + 4); offset += 8; return v;
+      case 0xd4: return skipExt(1);
+      case 0xd5: return skipExt(2);
+      case 0xd6: return skipExt(4);
+      case 0xd7: return skipExt(8);
+      case 0xd8: return skipExt(16);
+      case 0xd9: v = view.getUint8(offset); offset += 1; return readStr(v);
+      case 0xda: v = view.getUint16(offset); offset += 2; return readStr(v);
+      case 0xdb: v = view.getUint32(offset); offset += 4; return readStr(v);
+      case 0xdc: v = view.getUint16(offset); offset += 2; return readArray(v);
+      case 0xdd: v = view.getUint32(offset); offset += 4; return readArray(v);
+      case 0xde: v = view.getUint16(offset); offset += 2; return readMap(v);
+      case 0xdf: v = view.getUint32(offset); offset += 4; return readMap(v);
+    }
+    throw new Error(`MessagePack: unsupported type byte 0x${type.toString(16)}`);
+  }
+
+  return read();
+}
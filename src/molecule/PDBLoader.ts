@@ -1,26 +1,125 @@
 import * as THREE from 'three';
+import { buildStructure, Structure } from './Structure';
+import { Bond, computeBonds } from './Bonds';
+import { parseMmCIFData, parseBinaryCIFData, isMmCIF } from './CIFParser';
+import type { SecondaryStructureRecord } from './SecondaryStructure';
+import type { SequenceRecord } from './Sequence';
+import type { SurfaceOptions } from './Surface';
+import { createColorTheme, ColorOverride, ColorThemeId } from './ColorThemes';
+import { resolveSelection, AtomSelection, SelectionLike } from './Selection';
 
 export interface Atom {
   x: number;
   y: number;
   z: number;
   element: string;
+  /** Atom serial number as written in the file. */
+  serial: number;
+  /** Atom name, e.g. `CA`, `OG1`. */
+  name: string;
+  /** Alternate location indicator ('' when absent). */
+  altLoc: string;
+  resName: string;
+  /** Residue sequence number. */
+  resSeq: number;
+  /** Residue insertion code ('' when absent). */
+  iCode: string;
+  chainId: string;
+  occupancy: number;
+  bFactor: number;
+  /** Formal charge, e.g. +2 for `2+`. */
+  charge: number;
+  /** True for HETATM records. */
+  hetero: boolean;
 }
 
-const ELEMENT_COLORS: Record<string, number> = {
-  H: 0xffffff,
-  C: 0xaaaaaa,
-  N: 0x0000ff,
-  O: 0xff0000,
-  S: 0xffff00,
-  P: 0xff8000,
-};
+/** Explicit bond from a CONECT record (or mmCIF struct_conn), by atom serial. */
+export interface ConectRecord {
+  a: number;
+  b: number;
+  order: number;
+}
 
-export function parsePDB(text: string): Atom[] {
-  const atoms: Atom[] = [];
+/** Everything read from one coordinate file. */
+export interface MoleculeData {
+  /**
+   * One atom list per MODEL. Single-model files have exactly one entry; NMR
+   * ensembles have one per conformer, each with the same atom records.
+   */
+  models: Atom[][];
+  conect: ConectRecord[];
+  /** HELIX / SHEET records; empty when the file has none. */
+  secondary: SecondaryStructureRecord[];
+  /** SEQRES records, one per chain; empty when the file has none. */
+  sequences: SequenceRecord[];
+}
+
+/** Parse a PDB charge field such as `2+` or `1-`. */
+function parseCharge(field: string): number {
+  const m = /^(\d)([+-])$/.exec(field.trim());
+  if (!m) return 0;
+  return m[2] === '-' ? -Number(m[1]) : Number(m[1]);
+}
+
+/** Parse a PDB file, keeping each MODEL/ENDMDL block as a separate model. */
+export function parsePDBData(text: string): MoleculeData {
+  const models: Atom[][] = [];
+  // atoms of the model currently being read; null between ENDMDL and MODEL
+  let atoms: Atom[] | null = null;
+  // directed CONECT counts; a pair listed twice from the same atom is a double bond
+  const conectCounts = new Map<string, number>();
+  const secondary: SecondaryStructureRecord[] = [];
+  const sequences: SequenceRecord[] = [];
   const lines = text.split(/\r?\n/);
   for (const line of lines) {
-    if (line.startsWith('ATOM') || line.startsWith('HETATM')) {
+    if (line.startsWith('CONECT')) {
+      const from = parseInt(line.substr(6, 5), 10);
+      for (const col of [11, 16, 21, 26]) {
+        const to = parseInt(line.substr(col, 5), 10);
+        if (Number.isNaN(from) || Number.isNaN(to)) continue;
+        const key = `${from} ${to}`;
+        conectCounts.set(key, (conectCounts.get(key) ?? 0) + 1);
+      }
+    } else if (line.startsWith('HELIX ')) {
+      secondary.push({
+        type: 'helix',
+        chainId: line.substr(19, 1).trim(),
+        startSeq: parseInt(line.substr(21, 4), 10),
+        startICode: line.substr(25, 1).trim(),
+        endSeq: parseInt(line.substr(33, 4), 10),
+        endICode: line.substr(37, 1).trim(),
+      });
+    } else if (line.startsWith('SHEET ')) {
+      secondary.push({
+        type: 'sheet',
+        chainId: line.substr(21, 1).trim(),
+        startSeq: parseInt(line.substr(22, 4), 10),
+        startICode: line.substr(26, 1).trim(),
+        endSeq: parseInt(line.substr(33, 4), 10),
+        endICode: line.substr(37, 1).trim(),
+      });
+    } else if (line.startsWith('SEQRES')) {
+      const chainId = line.substr(11, 1).trim();
+      let record = sequences.find((r) => r.chainId === chainId);
+      if (!record) {
+        record = { chainId, residues: [] };
+        sequences.push(record);
+      }
+      // up to 13 residue names per line, from column 20
+      for (let col = 19; col < line.length; col += 4) {
+        const name = line.substr(col, 3).trim();
+        if (name) record.residues.push(name);
+      }
+    } else if (line.startsWith('MODEL')) {
+      atoms = [];
+      models.push(atoms);
+    } else if (line.startsWith('ENDMDL')) {
+      atoms = null;
+    } else if (line.startsWith('ATOM') || line.startsWith('HETATM')) {
+      if (!atoms) {
+        atoms = [];
+        models.push(atoms);
+      }
       const x = parseFloat(line.substr(30, 8));
       const y = parseFloat(line.substr(38, 8));
       const z = parseFloat(line.substr(46, 8));
@@ -29,182 +128,667 @@ export function parsePDB(text: string): Atom[] {
         // fallback to column 12-16 (atom name)
         element = line.substr(12, 2).trim();
       }
-      atoms.push({ x, y, z, element });
+      const serial = parseInt(line.substr(6, 5), 10);
+      const occupancy = parseFloat(line.substr(54, 6));
+      const bFactor = parseFloat(line.substr(60, 6));
+      atoms.push({
+        x,
+        y,
+        z,
+        element,
+        // serials above 99999 are hybrid-36 encoded; fall back to file order
+        serial: Number.isNaN(serial) ? atoms.length + 1 : serial,
+        name: line.substr(12, 4).trim(),
+        altLoc: line.substr(16, 1).trim(),
+        resName: line.substr(17, 3).trim(),
+        chainId: line.substr(21, 1).trim(),
+        resSeq: parseInt(line.substr(22, 4), 10) || 0,
+        iCode: line.substr(26, 1).trim(),
+        occupancy: Number.isNaN(occupancy) ? 1 : occupancy,
+        bFactor: Number.isNaN(bFactor) ? 0 : bFactor,
+        charge: parseCharge(line.substr(78, 2)),
+        hetero: line.startsWith('HETATM'),
+      });
     }
   }
-  return atoms;
+  const conect: ConectRecord[] = [];
+  conectCounts.forEach((count, key) => {
+    const [a, b] = key.split(' ').map(Number);
+    // each bond is normally listed from both ends; keep one record per pair
+    if (a > b && conectCounts.has(`${b} ${a}`)) return;
+    const reverse = conectCounts.get(`${b} ${a}`) ?? 0;
+    conect.push({ a: Math.min(a, b), b: Math.max(a, b), order: Math.min(Math.max(count, reverse), 3) });
+  });
+  return { models: models.filter((m) => m.length), conect, secondary, sequences };
+}
+
+/** Parse a PDB file; for multi-model files only the first model is returned. */
+export function parsePDB(text: string): Atom[] {
+  return parsePDBData(text).models[0] ?? [];
+}
+
+/** Shared inputs for the representation builders. */
+export interface RepresentationOptions {
+  /** Bonds from computeBonds(); derived from distances when omitted. */
+  bonds?: Bond[];
+  /** HELIX / SHEET records for the cartoon; computed from the backbone when empty. */
+  secondary?: SecondaryStructureRecord[];
+  /** Probe radius, grid resolution etc. for the molecular surface. */
+  surface?: SurfaceOptions;
+  /** Colour theme; each builder has its own default (element for atomistic ones). */
+  colorTheme?: ColorThemeId;
+  /** Colour of the 'uniform' theme. */
+  uniformColor?: number;
+  /** Themes for parts of the structure, later entries winning over `colorTheme`. */
+  colorOverrides?: ColorOverride[];
+  /**
+   * Per-residue Cα deviation (Å) from a superposition, indexed like
+   * `Structure.residues` (NaN where unaligned); used by the 'deviation' theme.
+   */
+  deviation?: Float32Array;
+  /**
+   * Atoms to draw (query or AtomSelection); everything when omitted. Picking
+   * maps still hold indices into the full atom list.
+   */
+  selection?: SelectionLike;
+  /**
+   * Level of detail from 0 (coarsest) to MAX_DETAIL: tessellation of spheres,
+   * cylinders, cartoon tubes and surfaces, and at 0 bonds drawn as lines.
+   * DEFAULT_DETAIL when omitted.
+   */
+  detail?: number;
+  /**
+   * Factor on sphere and bond radii of the atomistic styles and on
+   * coarse-grained beads, within RADIUS_SCALE_RANGE; 1 when omitted.
+   */
+  radiusScale?: number;
+}
+
+/** Limits of RepresentationOptions.radiusScale. */
+export const RADIUS_SCALE_RANGE = [0.5, 2];
+
+/** Highest level of detail; see RepresentationOptions.detail. */
+export const MAX_DETAIL = 3;
+/** Level the builders use unless told otherwise. */
+export const DEFAULT_DETAIL = 2;
+// tessellation relative to the default, per level of detail
+const DETAIL_SCALE = [0.5, 0.75, 1, 1.5];
+
+/** Tessellation factor for a level of detail (1 at DEFAULT_DETAIL). */
+export function detailScale(detail = DEFAULT_DETAIL): number {
+  return DETAIL_SCALE[THREE.MathUtils.clamp(Math.round(detail), 0, MAX_DETAIL)];
+}
+
+/** Segment count for a tessellation of `base` segments at the default detail. */
+export function detailSegments(base: number, detail = DEFAULT_DETAIL): number {
+  return Math.max(4, Math.round(base * detailScale(detail)));
+}
+
+/** Structures above this many atoms load as a coarse-grained model. */
+export const COARSE_GRAINED_ATOMS = 50000;
+
+export type RepresentationBuilder = (atoms: Atom[], options?: RepresentationOptions) => THREE.Group;
+
+const _up = new THREE.Vector3(0, 1, 0);
+const _dir = new THREE.Vector3();
+const _perp = new THREE.Vector3();
+const _pos = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _scale = new THREE.Vector3();
+const _color = new THREE.Color();
+
+/** Bonds whose atoms are both selected. */
+function selectedBonds(bonds: Bond[], selected: AtomSelection): Bond[] {
+  return selected.size === selected.atomCount ? bonds : bonds.filter((b) => selected.has(b.a) && selected.has(b.b));
 }
 
-export function createBallStick(atoms: Atom[]): THREE.Group {
+/**
+ * One instanced sphere per listed atom, coloured per instance. `userData.instanceAtoms`
+ * maps instance id → atom index so picking can resolve a hit to its atom.
+ */
+function createAtomSpheres(
+  atoms: Atom[],
+  indices: ArrayLike<number>,
+  radiusOf: (atom: Atom) => number,
+  segments: number,
+  material: THREE.Material,
+  colorOf: (index: number) => number
+): THREE.InstancedMesh {
+  const geom = new THREE.SphereGeometry(1, segments, segments);
+  const mesh = new THREE.InstancedMesh(geom, material, indices.length);
+  const instanceAtoms = Int32Array.from(indices);
+  const matrix = new THREE.Matrix4();
+  instanceAtoms.forEach((atomIndex, k) => {
+    const atom = atoms[atomIndex];
+    const r = radiusOf(atom);
+    matrix.makeScale(r, r, r).setPosition(atom.x, atom.y, atom.z);
+    mesh.setMatrixAt(k, matrix);
+    mesh.setColorAt(k, _color.setHex(colorOf(atomIndex)));
+  });
+  mesh.userData.instanceAtoms = instanceAtoms;
+  mesh.computeBoundingSphere();
+  return mesh;
+}
+
+/**
+ * Matrix for a unit-height, Y-aligned cylinder spanning p → q, optionally shifted
+ * sideways by `offset` (parallel strands of double/triple bonds) and thinned.
+ */
+function cylinderMatrix(
+  out: THREE.Matrix4,
+  p: THREE.Vector3,
+  q: THREE.Vector3,
+  offset?: THREE.Vector3,
+  thickness = 1
+): THREE.Matrix4 {
+  _dir.subVectors(q, p);
+  const len = _dir.length();
+  _quat.setFromUnitVectors(_up, _dir.divideScalar(len || 1));
+  _pos.copy(p).add(q).multiplyScalar(0.5);
+  if (offset) _pos.add(offset);
+  return out.compose(_pos, _quat, _scale.set(thickness, len, thickness));
+}
+
+/** Unit vector perpendicular to the bond a → b, used to fan out multiple bonds. */
+function bondPerpendicular(a: THREE.Vector3, b: THREE.Vector3): THREE.Vector3 {
+  _dir.subVectors(b, a).normalize();
+  _perp.crossVectors(_dir, _up);
+  if (_perp.lengthSq() < 1e-6) _perp.set(1, 0, 0);
+  return _perp.normalize();
+}
+
+/**
+ * Ball-and-stick: two draw calls in total – one InstancedMesh of atom spheres and
+ * one of bond cylinders (double/triple bonds add thinner parallel instances,
+ * `userData.instanceOffsets` holds each one's sideways shift).
+ */
+export function createBallStick(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
   const group = new THREE.Group();
-  const sphereGeom = new THREE.SphereGeometry(0.3, 12, 12);
-  const cylGeom = new THREE.CylinderGeometry(0.1, 0.1, 1, 8);
-  const matCache = new Map<number, THREE.MeshStandardMaterial>();
-
-  // spheres (reuse materials)
-  for (const atom of atoms) {
-    const colorVal = ELEMENT_COLORS[atom.element] ?? 0x888888;
-    let mat = matCache.get(colorVal);
-    if (!mat) {
-      const newMat = new THREE.MeshStandardMaterial({ color: colorVal });
-      matCache.set(colorVal, newMat);
-      mat = newMat;
-    }
-    const sphere = new THREE.Mesh(sphereGeom, mat);
-    sphere.position.set(atom.x, atom.y, atom.z);
-    group.add(sphere);
-  }
+  const theme = createColorTheme(options.colorTheme ?? 'element', atoms, options);
+  const selected = resolveSelection(atoms, options.selection);
+  const detail = options.detail ?? DEFAULT_DETAIL;
+  const scale = options.radiusScale ?? 1;
+  group.add(createAtomSpheres(atoms, selected.indices(), () => 0.3 * scale, detailSegments(12, detail), new THREE.MeshStandardMaterial({ color: 0xffffff }), theme.colorOf));
 
-  // Skip expensive bond creation for large structures (>2000 atoms)
-  if (atoms.length < 2000) {
-    const bondMat = new THREE.MeshStandardMaterial({ color: 0xdddddd });
-    for (let i = 0; i < atoms.length; i++) {
-      const a = atoms[i];
-      for (let j = i + 1; j < atoms.length; j++) {
-        const b = atoms[j];
-        const dist2 = (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2;
-        if (dist2 < 1.8 ** 2) {
-          const dist = Math.sqrt(dist2);
-          const cyl = new THREE.Mesh(cylGeom, bondMat);
-          const mid = new THREE.Vector3((a.x + b.x) / 2, (a.y + b.y) / 2, (a.z + b.z) / 2);
-          cyl.position.copy(mid);
-          cyl.scale.set(1, dist, 1);
-          cyl.lookAt(b.x, b.y, b.z);
-          cyl.rotateX(Math.PI / 2);
-          group.add(cyl);
-        }
-      }
+  const bonds = selectedBonds(options.bonds ?? computeBonds(atoms), selected);
+  // lowest detail: one line per half-bond instead of cylinders
+  if (detail <= 0) {
+    group.add(createBondLines(atoms, bonds, theme.colorOf));
+    return group;
+  }
+  let count = 0;
+  for (const bond of bonds) count += Math.max(1, bond.order);
+  const cylGeom = new THREE.CylinderGeometry(0.1 * scale, 0.1 * scale, 1, detailSegments(8, detail));
+  const bondMesh = new THREE.InstancedMesh(cylGeom, new THREE.MeshStandardMaterial({ color: 0xdddddd }), count);
+  // instance id → [atom a, atom b]; picking resolves to the nearer end
+  const instanceBonds = new Int32Array(count * 2);
+  const instanceOffsets = new Float32Array(count);
+  const matrix = new THREE.Matrix4();
+  const pa = new THREE.Vector3();
+  const pb = new THREE.Vector3();
+  const offset = new THREE.Vector3();
+  let k = 0;
+  for (const bond of bonds) {
+    const a = atoms[bond.a];
+    const b = atoms[bond.b];
+    pa.set(a.x, a.y, a.z);
+    pb.set(b.x, b.y, b.z);
+    const order = Math.max(1, bond.order);
+    const perp = order > 1 ? bondPerpendicular(pa, pb).clone() : undefined;
+    for (let s = 0; s < order; s++) {
+      instanceOffsets[k] = (s - (order - 1) / 2) * 0.12 * scale;
+      if (perp) offset.copy(perp).multiplyScalar(instanceOffsets[k]);
+      bondMesh.setMatrixAt(k, cylinderMatrix(matrix, pa, pb, perp && offset, perp ? 0.5 : 1));
+      instanceBonds[2 * k] = bond.a;
+      instanceBonds[2 * k + 1] = bond.b;
+      k++;
     }
   }
+  bondMesh.userData.instanceBonds = instanceBonds;
+  bondMesh.userData.instanceOffsets = instanceOffsets;
+  bondMesh.computeBoundingSphere();
+  group.add(bondMesh);
   return group;
 }
 
-export function createSpaceFill(atoms: Atom[]): THREE.Group {
+/** Van der Waals radii in Å for space-filling spheres; other elements use 1.6. */
+export const VDW_RADII: Record<string, number> = { H: 1.2, C: 1.7, N: 1.55, O: 1.52, S: 1.8, P: 1.8 };
+
+export function createSpaceFill(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
   const group = new THREE.Group();
-  const radiusTable: Record<string, number> = { H: 0.5, C: 0.77, N: 0.75, O: 0.73, S: 1.02, P: 1.06 };
-  for (const atom of atoms) {
-    const radius = radiusTable[atom.element] ?? 0.8;
-    const geom = new THREE.SphereGeometry(radius, 16, 16);
-    const color = ELEMENT_COLORS[atom.element] ?? 0x888888;
-    const mat = new THREE.MeshStandardMaterial({ color });
-    const sphere = new THREE.Mesh(geom, mat);
-    sphere.position.set(atom.x, atom.y, atom.z);
-    group.add(sphere);
-  }
+  const material = new THREE.MeshStandardMaterial({ color: 0xffffff });
+  const theme = createColorTheme(options.colorTheme ?? 'element', atoms, options);
+  const selected = resolveSelection(atoms, options.selection);
+  const scale = options.radiusScale ?? 1;
+  group.add(createAtomSpheres(atoms, selected.indices(), (atom) => (VDW_RADII[atom.element] ?? 1.6) * scale, detailSegments(16, options.detail), material, theme.colorOf));
   return group;
 }
 
-export async function loadPDB(id: string): Promise<{ atoms: Atom[]; group: THREE.Group }> {
-  const url = `https://files.rcsb.org/download/${id.toUpperCase()}.pdb`;
+/** Licorice sticks: half-bonds coloured by their atom, capped with spheres of the same radius. */
+export function createSticks(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
+  const group = new THREE.Group();
+  const radius = 0.2 * (options.radiusScale ?? 1);
+  const material = new THREE.MeshStandardMaterial({ color: 0xffffff });
+  const theme = createColorTheme(options.colorTheme ?? 'element', atoms, options);
+  const selected = resolveSelection(atoms, options.selection);
+  const segments = detailSegments(10, options.detail);
+  group.add(createAtomSpheres(atoms, selected.indices(), () => radius, segments, material, theme.colorOf));
+
+  const bonds = selectedBonds(options.bonds ?? computeBonds(atoms), selected);
+  const cylGeom = new THREE.CylinderGeometry(radius, radius, 1, segments, 1, true);
+  const halves = new THREE.InstancedMesh(cylGeom, material, bonds.length * 2);
+  // each half-bond belongs to exactly one atom
+  const instanceAtoms = new Int32Array(bonds.length * 2);
+  const matrix = new THREE.Matrix4();
+  const pa = new THREE.Vector3();
+  const pb = new THREE.Vector3();
+  const mid = new THREE.Vector3();
+  bonds.forEach((bond, i) => {
+    const a = atoms[bond.a];
+    const b = atoms[bond.b];
+    pa.set(a.x, a.y, a.z);
+    pb.set(b.x, b.y, b.z);
+    mid.copy(pa).add(pb).multiplyScalar(0.5);
+    halves.setMatrixAt(2 * i, cylinderMatrix(matrix, pa, mid));
+    halves.setColorAt(2 * i, _color.setHex(theme.colorOf(bond.a)));
+    halves.setMatrixAt(2 * i + 1, cylinderMatrix(matrix, mid, pb));
+    halves.setColorAt(2 * i + 1, _color.setHex(theme.colorOf(bond.b)));
+    instanceAtoms[2 * i] = bond.a;
+    instanceAtoms[2 * i + 1] = bond.b;
+  });
+  halves.userData.instanceAtoms = instanceAtoms;
+  halves.userData.halfBonds = true;
+  halves.computeBoundingSphere();
+  group.add(halves);
+  return group;
+}
+
+const RCSB_DOWNLOAD = 'https://files.rcsb.org/download';
+const RCSB_MODELS = 'https://models.rcsb.org';
+
+/** Parse a coordinate file of unknown format (legacy PDB or mmCIF text). */
+export function parseStructureText(text: string): MoleculeData {
+  return isMmCIF(text) ? parseMmCIFData(text) : parsePDBData(text);
+}
+
+/** Stages reported while a structure is loading (see StructureLoader). */
+export type LoadStage = 'download' | 'parse' | 'bonds' | 'geometry';
+/** Progress callback; `fraction` (0–1) is only known for downloads with a size. */
+export type LoadProgress = (stage: LoadStage, fraction?: number) => void;
+
+/** GET `url`, streaming the body so download progress can be reported. */
+async function fetchBytes(url: string, onProgress?: LoadProgress): Promise<{ status: number; bytes?: Uint8Array }> {
   const res = await fetch(url);
-  if (!res.ok) throw new Error(`Failed to fetch PDB ${id}`);
-  const text = await res.text();
-  const atoms = parsePDB(text);
-  // scale down to nanometers (~10x) for scene units
-  for (const atom of atoms) {
-    atom.x /= 10;
-    atom.y /= 10;
-    atom.z /= 10;
+  if (!res.ok) return { status: res.status };
+  const total = Number(res.headers.get('content-length')) || 0;
+  if (!res.body || !onProgress) return { status: res.status, bytes: new Uint8Array(await res.arrayBuffer()) };
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    // content-length is the compressed size when gzip'd, so clamp
+    onProgress('download', total ? Math.min(received / total, 1) : undefined);
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { status: res.status, bytes };
+}
+
+/**
+ * Download and parse an entry from the RCSB. Accepts a bare ID (`1CRN`), an
+ * extended ID (`pdb_00001crn`) or an ID with an explicit format suffix
+ * (`1CRN.cif`, `4V6X.bcif`). Without a suffix the legacy .pdb file is tried
+ * first and BinaryCIF / mmCIF are used when it does not exist – large
+ * assemblies and extended IDs are only distributed in CIF formats.
+ */
+export async function fetchStructure(id: string, onProgress?: LoadProgress): Promise<MoleculeData> {
+  const [rawCode, ext] = id.trim().split('.');
+  const code = rawCode.toUpperCase();
+  const format = ext?.toLowerCase();
+  const text = (bytes: Uint8Array) => {
+    onProgress?.('parse');
+    return new TextDecoder().decode(bytes);
+  };
+
+  if (format === 'pdb' || (!format && code.length === 4)) {
+    const res = await fetchBytes(`${RCSB_DOWNLOAD}/${code}.pdb`, onProgress);
+    if (res.bytes) return parseStructureText(text(res.bytes));
+    if (format || res.status !== 404) throw new Error(`Failed to fetch PDB ${id}`);
   }
-  let group: THREE.Group;
-  // Choose representation based on atom count (mobile-friendly thresholds)
-  if (atoms.length > 50000) {
-    throw new Error('Structure too large for mobile-VR viewer');
-  } else if (atoms.length > 20000) {
-    group = createPointCloud(atoms);
-  } else if (atoms.length > 5000) {
-    group = createWireframe(atoms);
-  } else {
-    group = createBallStick(atoms);
+  if (!format || format === 'bcif') {
+    try {
+      const res = await fetchBytes(`${RCSB_MODELS}/${code}.bcif`, onProgress);
+      if (res.bytes) {
+        onProgress?.('parse');
+        return parseBinaryCIFData(res.bytes);
+      }
+    } catch (err) {
+      if (format) throw err;
+    }
+    if (format) throw new Error(`Failed to fetch BinaryCIF ${id}`);
   }
+  const res = await fetchBytes(`${RCSB_DOWNLOAD}/${code}.cif`, onProgress);
+  if (!res.bytes) throw new Error(`Failed to fetch PDB ${id}`);
+  return parseMmCIFData(text(res.bytes));
+}
+
+export interface LoadedMolecule {
+  /** Atoms of the first model (coordinates in Å). */
+  atoms: Atom[];
+  /** All models (`models[0] === atoms`). */
+  models: Atom[][];
+  structure: Structure;
+  /** Bonds of the first model; valid for every model since they share atom records. */
+  bonds: Bond[];
+  secondary: SecondaryStructureRecord[];
+  sequences: SequenceRecord[];
+  group: THREE.Group;
+  /** Seconds spent building `group`, where measured. */
+  buildTime?: number;
+}
+
+/** Derive everything but the scene graph from parsed file data. */
+export function prepareMolecule(
+  data: MoleculeData,
+  id: string,
+  onProgress?: LoadProgress
+): Omit<LoadedMolecule, 'group'> {
+  const { models, conect, secondary, sequences } = data;
+  if (!models.length) throw new Error(`No atoms found in ${id}`);
+  const atoms = models[0];
+  // Coordinates stay in Å; ConfinedSpaceXR.loadPdbId scales the group to fit the pedestal.
+  onProgress?.('bonds');
+  const bonds = computeBonds(atoms, conect);
+  return { atoms, models, structure: buildStructure(atoms), bonds, secondary, sequences };
+}
+
+/**
+ * Representation shown right after loading: ball-and-stick, or coarse-grained
+ * beads above COARSE_GRAINED_ATOMS. How much detail a large structure can
+ * afford is left to the viewer's frame-time quality manager.
+ */
+export function createDefaultRepresentation(atoms: Atom[], bonds: Bond[]): THREE.Group {
+  if (atoms.length > COARSE_GRAINED_ATOMS) return createCoarseGrained(atoms);
+  return createBallStick(atoms, { bonds });
+}
+
+/**
+ * Fetch, parse, bond and build a structure on the calling thread. The viewer
+ * normally goes through StructureLoader, which runs this pipeline in a worker.
+ */
+export async function loadPDB(id: string, onProgress?: LoadProgress): Promise<LoadedMolecule> {
+  const molecule = prepareMolecule(await fetchStructure(id, onProgress), id, onProgress);
+  onProgress?.('geometry');
+  const group = createDefaultRepresentation(molecule.atoms, molecule.bonds);
   // Centering & placement handled by ConfinedSpaceXR.loadPdbId
-  return { atoms, group };
+  return { ...molecule, group };
 }
 
 // ---------------- Additional representations ----------------
-export function createWireframe(atoms: Atom[]): THREE.Group {
+/** Thin lines along every bond (half-bonds coloured per atom); unbonded atoms as points. */
+export function createWireframe(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
   const group = new THREE.Group();
-  const sphereGeom = new THREE.SphereGeometry(0.3, 8, 8);
-  const matCache = new Map<number, THREE.MeshBasicMaterial>();
-  for (const atom of atoms) {
-    const colorVal = ELEMENT_COLORS[atom.element] ?? 0x888888;
-    let mat = matCache.get(colorVal);
-    if (!mat) {
-      const newMat = new THREE.MeshBasicMaterial({ color: colorVal, wireframe: true });
-      matCache.set(colorVal, newMat);
-      mat = newMat;
-    }
-    const sphere = new THREE.Mesh(sphereGeom, mat);
-    sphere.position.set(atom.x, atom.y, atom.z);
-    group.add(sphere);
+  const selected = resolveSelection(atoms, options.selection);
+  const bonds = selectedBonds(options.bonds ?? computeBonds(atoms), selected);
+  const theme = createColorTheme(options.colorTheme ?? 'element', atoms, options);
+  group.add(createBondLines(atoms, bonds, theme.colorOf));
+
+  // ions and waters have no bonds – keep them visible as points
+  const bonded = new Uint8Array(atoms.length);
+  for (const bond of bonds) bonded[bond.a] = bonded[bond.b] = 1;
+  const looseIndices = Array.from(selected.indices()).filter((i) => !bonded[i]);
+  if (looseIndices.length) {
+    group.add(createPoints(atoms, looseIndices, theme.colorOf));
   }
   return group;
 }
 
-// ---------------- Ribbon / Cartoon representation ----------------
-export function createRibbon(atoms: Atom[]): THREE.Group {
-  // Approximate ribbon using a smooth tube through sampled atom positions (backbone).
+/** Two line segments per bond, one half coloured per atom; `userData.segmentAtoms` maps segment → atom. */
+function createBondLines(atoms: Atom[], bonds: Bond[], colorOf: (index: number) => number): THREE.LineSegments {
+  const positions = new Float32Array(bonds.length * 12);
+  const colors = new Float32Array(bonds.length * 12);
+  const ca = new THREE.Color();
+  const cb = new THREE.Color();
+  // segment → atom, for picking
+  const segmentAtoms = new Int32Array(bonds.length * 2);
+  bonds.forEach((bond, i) => {
+    const a = atoms[bond.a];
+    const b = atoms[bond.b];
+    segmentAtoms[2 * i] = bond.a;
+    segmentAtoms[2 * i + 1] = bond.b;
+    const mx = (a.x + b.x) / 2;
+    const my = (a.y + b.y) / 2;
+    const mz = (a.z + b.z) / 2;
+    positions.set([a.x, a.y, a.z, mx, my, mz, mx, my, mz, b.x, b.y, b.z], i * 12);
+    ca.setHex(colorOf(bond.a));
+    cb.setHex(colorOf(bond.b));
+    colors.set([ca.r, ca.g, ca.b, ca.r, ca.g, ca.b, cb.r, cb.g, cb.b, cb.r, cb.g, cb.b], i * 12);
+  });
+  const geom = new THREE.BufferGeometry();
+  geom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  const lines = new THREE.LineSegments(geom, new THREE.LineBasicMaterial({ vertexColors: true }));
+  lines.userData.segmentAtoms = segmentAtoms;
+  return lines;
+}
+
+export function createPointCloud(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
+  const theme = createColorTheme(options.colorTheme ?? 'element', atoms, options);
   const group = new THREE.Group();
-  if (atoms.length < 2) {
-    return group;
-  }
+  group.add(createPoints(atoms, resolveSelection(atoms, options.selection).indices(), theme.colorOf));
+  return group;
+}
 
-  // Downsample to keep geometry complexity manageable.
-  const sampleStep = Math.max(1, Math.floor(atoms.length / 300));
-  const points: THREE.Vector3[] = [];
-  for (let i = 0; i < atoms.length; i += sampleStep) {
-    const a = atoms[i];
-    points.push(new THREE.Vector3(a.x, a.y, a.z));
+/**
+ * Coarse-grained model for very large structures: one sphere per residue,
+ * placed on its Cα (P for nucleotides, else its first selected atom), coloured
+ * by chain by default. Waters are left out. Picking resolves to that atom.
+ */
+export function createCoarseGrained(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
+  const group = new THREE.Group();
+  const structure = buildStructure(atoms);
+  const theme = createColorTheme(options.colorTheme ?? 'chain', atoms, options, { structure });
+  const selected = resolveSelection(atoms, options.selection, structure);
+  const beads: number[] = [];
+  const guides = new Set<Atom>();
+  for (const res of structure.residues) {
+    if (res.name === 'HOH' || res.name === 'WAT') continue;
+    const chosen = res.atoms.filter((i) => selected.has(i));
+    if (!chosen.length) continue;
+    const guide = chosen.find((i) => atoms[i].name === 'CA' || atoms[i].name === 'P');
+    beads.push(guide ?? chosen[0]);
+    if (guide !== undefined) guides.add(atoms[guide]);
   }
-  // Ensure last atom included so ribbon reaches molecule end
-  const last = atoms[atoms.length - 1];
-  points.push(new THREE.Vector3(last.x, last.y, last.z));
-
-  const curve = new THREE.CatmullRomCurve3(points, false, 'centripetal');
-  const tubularSegments = Math.min(points.length * 3, 1000);
-  const tubeGeom = new THREE.TubeGeometry(curve, tubularSegments, 0.2, 8, false);
-  const material = new THREE.MeshStandardMaterial({ color: 0x00ccff, side: THREE.DoubleSide });
-  const mesh = new THREE.Mesh(tubeGeom, material);
-  group.add(mesh);
+  // residue-sized beads on the backbone, atom-sized ones for ligands and ions
+  const scale = options.radiusScale ?? 1;
+  const radiusOf = (atom: Atom) => (guides.has(atom) ? 2.4 : 1.6) * scale;
+  group.add(createAtomSpheres(atoms, beads, radiusOf, detailSegments(8, options.detail), new THREE.MeshStandardMaterial({ color: 0xffffff }), theme.colorOf));
   return group;
 }
 
-export function createPointCloud(atoms: Atom[]): THREE.Group {
-  const positions = new Float32Array(atoms.length * 3);
-  const colors = new Float32Array(atoms.length * 3);
+/** One point per listed atom; `userData.pointAtoms` maps point index → atom index. */
+function createPoints(atoms: Atom[], indices: ArrayLike<number>, colorOf: (index: number) => number): THREE.Points {
+  const positions = new Float32Array(indices.length * 3);
+  const colors = new Float32Array(indices.length * 3);
   const tmpColor = new THREE.Color();
-  atoms.forEach((a, i) => {
+  for (let i = 0; i < indices.length; i++) {
+    const a = atoms[indices[i]];
     positions[3 * i] = a.x;
     positions[3 * i + 1] = a.y;
     positions[3 * i + 2] = a.z;
-    tmpColor.setHex(ELEMENT_COLORS[a.element] ?? 0x888888);
+    tmpColor.setHex(colorOf(indices[i]));
     colors[3 * i] = tmpColor.r;
     colors[3 * i + 1] = tmpColor.g;
     colors[3 * i + 2] = tmpColor.b;
-  });
+  }
   const geom = new THREE.BufferGeometry();
   geom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
   geom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
   const mat = new THREE.PointsMaterial({ size: 0.15, vertexColors: true });
   const pts = new THREE.Points(geom, mat);
+  pts.userData.pointAtoms = Int32Array.from(indices);
+  return pts;
+}
+
+/**
+ * Overlay all models of an ensemble using one representation builder. Each model
+ * becomes a child group (in model order) so callers can address them individually.
+ */
+export function createEnsemble(
+  models: Atom[][],
+  builder: RepresentationBuilder,
+  options: RepresentationOptions = {}
+): THREE.Group {
   const group = new THREE.Group();
-  group.add(pts);
+  for (const model of models) {
+    group.add(builder(model, options));
+  }
   return group;
 }
 
-export function createTransparentSurface(atoms: Atom[]): THREE.Group {
-  if (atoms.length > 2000) {
-    // fallback to wireframe for large structures to avoid GPU overload
-    return createWireframe(atoms);
+/**
+ * Move a representation built by the functions above onto new coordinates
+ * of the same atoms (another model of an ensemble) without rebuilding it:
+ * spheres, bonds, half-bonds, bond lines and points are rewritten in place
+ * from the atom maps picking uses. Returns false, with the group possibly
+ * half updated, when it holds geometry that cannot follow (cartoons,
+ * surfaces); rebuild it then.
+ */
+export function updateAtomPositions(group: THREE.Object3D, atoms: Atom[]): boolean {
+  let movable = true;
+  group.traverse((obj) => {
+    if (!movable) return;
+    const data = obj.userData;
+    if ((obj as THREE.InstancedMesh).isInstancedMesh) {
+      const mesh = obj as THREE.InstancedMesh;
+      if (data.instanceBonds) moveBonds(mesh, atoms);
+      else if (data.halfBonds) moveHalfBonds(mesh, atoms);
+      else if (data.instanceAtoms) moveSpheres(mesh, atoms);
+      else movable = false;
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    } else if ((obj as THREE.LineSegments).isLineSegments && data.segmentAtoms) {
+      moveBondLines(obj as THREE.LineSegments, atoms);
+    } else if ((obj as THREE.Points).isPoints && data.pointAtoms) {
+      movePoints(obj as THREE.Points, atoms);
+    } else if ((obj as THREE.Mesh).isMesh || (obj as THREE.Line).isLine || (obj as THREE.Points).isPoints) {
+      movable = false;
+    }
+  });
+  return movable;
+}
+
+/** Spheres keep their radius and move to their atom. */
+function moveSpheres(mesh: THREE.InstancedMesh, atoms: Atom[]) {
+  const instanceAtoms: Int32Array = mesh.userData.instanceAtoms;
+  const array = mesh.instanceMatrix.array;
+  instanceAtoms.forEach((atomIndex, k) => {
+    const atom = atoms[atomIndex];
+    array[16 * k + 12] = atom.x;
+    array[16 * k + 13] = atom.y;
+    array[16 * k + 14] = atom.z;
+  });
+}
+
+/** Bond cylinders keep their thickness and sideways shift; see createBallStick(). */
+function moveBonds(mesh: THREE.InstancedMesh, atoms: Atom[]) {
+  const instanceBonds: Int32Array = mesh.userData.instanceBonds;
+  const instanceOffsets: Float32Array | undefined = mesh.userData.instanceOffsets;
+  const matrix = new THREE.Matrix4();
+  const pa = new THREE.Vector3();
+  const pb = new THREE.Vector3();
+  const offset = new THREE.Vector3();
+  const column = new THREE.Vector3();
+  for (let k = 0; k < mesh.count; k++) {
+    const a = atoms[instanceBonds[2 * k]];
+    const b = atoms[instanceBonds[2 * k + 1]];
+    pa.set(a.x, a.y, a.z);
+    pb.set(b.x, b.y, b.z);
+    mesh.getMatrixAt(k, matrix);
+    const thickness = column.setFromMatrixColumn(matrix, 0).length();
+    const shift = instanceOffsets?.[k] ?? 0;
+    if (shift) offset.copy(bondPerpendicular(pa, pb)).multiplyScalar(shift);
+    mesh.setMatrixAt(k, cylinderMatrix(matrix, pa, pb, shift ? offset : undefined, thickness));
   }
-  const group = createSpaceFill(atoms);
+}
+
+/** Half-bonds come in pairs, atom a → midpoint then midpoint → atom b; see createSticks(). */
+function moveHalfBonds(mesh: THREE.InstancedMesh, atoms: Atom[]) {
+  const instanceAtoms: Int32Array = mesh.userData.instanceAtoms;
+  const matrix = new THREE.Matrix4();
+  const pa = new THREE.Vector3();
+  const pb = new THREE.Vector3();
+  const mid = new THREE.Vector3();
+  for (let k = 0; k + 1 < mesh.count; k += 2) {
+    const a = atoms[instanceAtoms[k]];
+    const b = atoms[instanceAtoms[k + 1]];
+    pa.set(a.x, a.y, a.z);
+    pb.set(b.x, b.y, b.z);
+    mid.copy(pa).add(pb).multiplyScalar(0.5);
+    mesh.setMatrixAt(k, cylinderMatrix(matrix, pa, mid));
+    mesh.setMatrixAt(k + 1, cylinderMatrix(matrix, mid, pb));
+  }
+}
+
+/** Two segments per bond, atom a → midpoint → atom b; see createBondLines(). */
+function moveBondLines(lines: THREE.LineSegments, atoms: Atom[]) {
+  const segmentAtoms: Int32Array = lines.userData.segmentAtoms;
+  const position = lines.geometry.getAttribute('position') as THREE.BufferAttribute;
+  for (let i = 0; 2 * i + 1 < segmentAtoms.length; i++) {
+    const a = atoms[segmentAtoms[2 * i]];
+    const b = atoms[segmentAtoms[2 * i + 1]];
+    const mx = (a.x + b.x) / 2;
+    const my = (a.y + b.y) / 2;
+    const mz = (a.z + b.z) / 2;
+    (position.array as Float32Array).set([a.x, a.y, a.z, mx, my, mz, mx, my, mz, b.x, b.y, b.z], i * 12);
+  }
+  position.needsUpdate = true;
+  lines.geometry.computeBoundingSphere();
+}
+
+function movePoints(points: THREE.Points, atoms: Atom[]) {
+  const pointAtoms: Int32Array = points.userData.pointAtoms;
+  const position = points.geometry.getAttribute('position') as THREE.BufferAttribute;
+  pointAtoms.forEach((atomIndex, i) => position.setXYZ(i, atoms[atomIndex].x, atoms[atomIndex].y, atoms[atomIndex].z));
+  position.needsUpdate = true;
+  points.geometry.computeBoundingSphere();
+}
+
+/**
+ * Make every material of a representation translucent, e.g. to fade context
+ * around a focused region. Depth writes are turned off so what lies behind
+ * stays visible.
+ */
+export function setGroupOpacity(group: THREE.Object3D, opacity: number) {
   group.traverse((obj) => {
-    if ((obj as THREE.Mesh).isMesh) {
-      const mesh = obj as THREE.Mesh;
-      const mat = mesh.material as THREE.MeshStandardMaterial;
-      mat.transparent = true;
-      mat.opacity = 0.4;
+    const material = (obj as THREE.Mesh).material;
+    if (!material) return;
+    for (const m of Array.isArray(material) ? material : [material]) {
+      m.transparent = opacity < 1;
+      m.opacity = opacity;
+      m.depthWrite = opacity >= 1;
     }
   });
-  return group;
+}
+
+/**
+ * Clip every material of a representation by `planes` (world space). The
+ * array is shared, not copied, so later changes to it apply without another
+ * call; see ClippingLayer.
+ */
+export function setGroupClipping(group: THREE.Object3D, planes: THREE.Plane[]) {
+  group.traverse((obj) => {
+    const material = (obj as THREE.Mesh).material;
+    if (!material) return;
+    for (const m of Array.isArray(material) ? material : [material]) m.clippingPlanes = planes;
+  });
 }
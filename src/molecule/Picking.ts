@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import type { Atom } from './PDBLoader';
+import { SpatialGrid } from './SpatialGrid';
+
+// how far (Å) a surface/ribbon hit may be from the atom it resolves to
+const NEAREST_ATOM_RADIUS = 4;
+
+const _local = new THREE.Vector3();
+
+/**
+ * Resolve a raycast intersection on a molecule representation to the index of
+ * the atom that was hit, or -1. Builders tag their objects via userData:
+ * - `instanceAtoms[instanceId]` – instanced spheres and half-bonds,
+ * - `instanceBonds[2 * instanceId + 0/1]` – instanced bonds, nearer end wins,
+ * - `pointAtoms[index]` – point clouds (identity when absent),
+ * - `segmentAtoms[index / 2]` – line segments,
+ * - `vertexAtoms[vertex]` – meshes such as surfaces, via the hit face's first vertex.
+ * Anything else (cartoons) falls back to the nearest atom of `grid`.
+ * Atom coordinates are taken to be in the hit object's local frame.
+ */
+export function pickAtom(hit: THREE.Intersection, atoms: Atom[], grid?: SpatialGrid): number {
+  const obj = hit.object;
+  const data = obj.userData;
+  obj.worldToLocal(_local.copy(hit.point));
+
+  if (hit.instanceId !== undefined) {
+    if (data.instanceAtoms) return data.instanceAtoms[hit.instanceId];
+    if (data.instanceBonds) {
+      const a = data.instanceBonds[2 * hit.instanceId];
+      const b = data.instanceBonds[2 * hit.instanceId + 1];
+      return distanceSq(atoms[a], _local) <= distanceSq(atoms[b], _local) ? a : b;
+    }
+  }
+  if ((obj as THREE.Points).isPoints && hit.index !== undefined) {
+    return data.pointAtoms ? data.pointAtoms[hit.index] : hit.index;
+  }
+  if ((obj as THREE.LineSegments).isLineSegments && hit.index !== undefined && data.segmentAtoms) {
+    return data.segmentAtoms[Math.floor(hit.index / 2)];
+  }
+  if (data.vertexAtoms && hit.face) {
+    return data.vertexAtoms[hit.face.a];
+  }
+  if (!grid) return -1;
+  return grid.nearest(_local.x, _local.y, _local.z, NEAREST_ATOM_RADIUS);
+}
+
+/**
+ * The intersection worth resolving with pickAtom(). Normally the front-most
+ * one, but point clouds and lines report every primitive within the
+ * raycaster's threshold, so among those (up to the first surface hit) the one
+ * closest to the ray wins.
+ */
+export function bestHit(hits: THREE.Intersection[]): THREE.Intersection | undefined {
+  let best: THREE.Intersection | undefined;
+  for (const hit of hits) {
+    if (hit.distanceToRay === undefined) return best ?? hit;
+    if (!best || hit.distanceToRay < best.distanceToRay!) best = hit;
+  }
+  return best;
+}
+
+function distanceSq(atom: Atom, p: THREE.Vector3): number {
+  return (atom.x - p.x) ** 2 + (atom.y - p.y) ** 2 + (atom.z - p.z) ** 2;
+}
@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import {
+  Atom,
+  COARSE_GRAINED_ATOMS,
+  createBallStick,
+  createCoarseGrained,
+  createSpaceFill,
+  createSticks,
+  createWireframe,
+  RepresentationBuilder,
+  RepresentationOptions,
+} from './PDBLoader';
+import { createTransparentSurface } from './Surface';
+import { createCartoon } from './Cartoon';
+import type { Bond } from './Bonds';
+import type { ColorThemeId } from './ColorThemes';
+import type { SecondaryStructureRecord } from './SecondaryStructure';
+
+/** Representation styles in the order layers index them (RepresentationLayer.rep). */
+export const REPRESENTATION_BUILDERS: RepresentationBuilder[] = [
+  createBallStick,
+  createSticks,
+  createSpaceFill,
+  createWireframe,
+  createTransparentSurface,
+  createCartoon,
+  createCoarseGrained,
+];
+export const REPRESENTATION_LABELS = ['Ball-and-Stick', 'Sticks', 'Space-Filling', 'Wireframe', 'Transparent Surface', 'Cartoon', 'Coarse-grained'];
+
+/** At detail level 0, structures above this many atoms are drawn as coarse-grained beads whatever their layers. */
+export const LOD_COARSE_ATOMS = 20000;
+
+/** Theme a layer in style `rep` is drawn in unless one is chosen. */
+export function defaultColorTheme(rep: number): ColorThemeId {
+  return REPRESENTATION_BUILDERS[rep] === createCartoon ? 'secondary' : 'element';
+}
+
+/** Style a new structure starts in: `preferred`, or coarse-grained when too large for atomistic styles. */
+export function initialRepresentation(preferred: number, atomCount: number): number {
+  if (atomCount > COARSE_GRAINED_ATOMS) return REPRESENTATION_BUILDERS.indexOf(createCoarseGrained);
+  return REPRESENTATION_BUILDERS[preferred] ? preferred : 0;
+}
+
+/** How a newly loaded structure is first drawn; see buildInitialRepresentation(). */
+export interface InitialStyle {
+  /** Preferred style, an index into REPRESENTATION_BUILDERS. */
+  rep: number;
+  /** The style's default theme when undefined. */
+  colorTheme?: ColorThemeId;
+  /** Level of detail, see RepresentationOptions.detail. */
+  detail: number;
+}
+
+/**
+ * The group a newly loaded structure starts with, built the way the viewer
+ * builds a structure's single layer over all atoms: tagged `userData.layer`
+ * 0, or coarse-grained beads at detail 0 above LOD_COARSE_ATOMS.
+ */
+export function buildInitialRepresentation(atoms: Atom[], bonds: Bond[], secondary: SecondaryStructureRecord[], style: InitialStyle): THREE.Group {
+  const rep = initialRepresentation(style.rep, atoms.length);
+  const options: RepresentationOptions = { detail: style.detail, bonds, secondary, colorTheme: style.colorTheme ?? defaultColorTheme(rep) };
+  if (style.detail === 0 && atoms.length > LOD_COARSE_ATOMS) return createCoarseGrained(atoms, options);
+  const group = new THREE.Group();
+  const layer = REPRESENTATION_BUILDERS[rep](atoms, options);
+  layer.userData.layer = 0;
+  group.add(layer);
+  return group;
+}
@@ -0,0 +1,151 @@
+import type { Atom } from './PDBLoader';
+import { Structure, findResidue } from './Structure';
+import { SpatialGrid } from './SpatialGrid';
+
+export type SecondaryType = 'helix' | 'sheet' | 'coil';
+
+/** A HELIX / SHEET record (or mmCIF struct_conf / struct_sheet_range row). */
+export interface SecondaryStructureRecord {
+  type: 'helix' | 'sheet';
+  chainId: string;
+  startSeq: number;
+  startICode: string;
+  endSeq: number;
+  endICode: string;
+}
+
+/**
+ * Secondary structure of every residue (indexed like `structure.residues`).
+ * File records are used when present; otherwise it is computed from backbone
+ * hydrogen bonds with computeSecondaryStructure().
+ */
+export function assignSecondaryStructure(structure: Structure, records: SecondaryStructureRecord[] = []): SecondaryType[] {
+  if (!records.length) return computeSecondaryStructure(structure);
+
+  const types: SecondaryType[] = structure.residues.map(() => 'coil');
+  for (const rec of records) {
+    const start = findResidue(structure, rec.chainId, rec.startSeq, rec.startICode);
+    const end = findResidue(structure, rec.chainId, rec.endSeq, rec.endICode);
+    if (!start || !end) continue;
+    for (let i = start.index; i <= end.index; i++) types[i] = rec.type;
+  }
+  return types;
+}
+
+/* ------------------------------------------------------------------ */
+/*  DSSP-like assignment                                               */
+/* ------------------------------------------------------------------ */
+
+// Kabsch & Sander electrostatic H-bond model: E = q1 q2 f (1/rON + 1/rCH - 1/rOH - 1/rCN)
+const HBOND_FACTOR = 0.084 * 332;
+const HBOND_CUTOFF = -0.5; // kcal/mol
+// residues whose Cα atoms are further apart cannot be H-bonded
+const CA_CUTOFF = 9;
+
+interface BackboneResidue {
+  residue: number;
+  n: Atom;
+  ca: Atom;
+  c: Atom;
+  o: Atom;
+  /** Amide hydrogen, placed 1 Å from N opposite the previous carbonyl. */
+  h?: { x: number; y: number; z: number };
+  /** False when this residue is not peptide-bonded to the previous entry. */
+  linked: boolean;
+}
+
+function distance(a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
+/**
+ * Simplified DSSP: backbone H-bonds from the electrostatic energy, α-helices
+ * from two consecutive i→i+4 turns and β-strands from ladders of at least two
+ * consecutive (anti)parallel bridges. Residues lacking N/CA/C/O are coil.
+ */
+export function computeSecondaryStructure(structure: Structure): SecondaryType[] {
+  const { atoms, residues } = structure;
+  const types: SecondaryType[] = residues.map(() => 'coil');
+
+  const backbone: BackboneResidue[] = [];
+  for (const res of residues) {
+    const named: Record<string, Atom> = {};
+    for (const i of res.atoms) {
+      const atom = atoms[i];
+      if (!named[atom.name]) named[atom.name] = atom;
+    }
+    const { N: n, CA: ca, C: c, O: o } = named;
+    if (!n || !ca || !c || !o) continue;
+    const prev = backbone[backbone.length - 1];
+    const linked = !!prev && residues[prev.residue].chain === res.chain && distance(prev.c, n) < 2.5;
+    const entry: BackboneResidue = { residue: res.index, n, ca, c, o, linked };
+    if (linked && res.name !== 'PRO') {
+      const dx = prev.c.x - prev.o.x;
+      const dy = prev.c.y - prev.o.y;
+      const dz = prev.c.z - prev.o.z;
+      const len = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+      entry.h = { x: n.x + dx / len, y: n.y + dy / len, z: n.z + dz / len };
+    }
+    backbone.push(entry);
+  }
+  const count = backbone.length;
+  if (count < 3) return types;
+
+  // hbonds has key (i * count + j) when the C=O of i accepts from the N-H of j
+  const hbonds = new Set<number>();
+  const tryHBond = (i: number, j: number) => {
+    const acc = backbone[i];
+    const don = backbone[j];
+    if (!don.h) return;
+    const e =
+      HBOND_FACTOR *
+      (1 / distance(acc.o, don.n) + 1 / distance(acc.c, don.h) - 1 / distance(acc.o, don.h) - 1 / distance(acc.c, don.n));
+    if (e < HBOND_CUTOFF) hbonds.add(i * count + j);
+  };
+  const grid = new SpatialGrid(backbone.map((r) => r.ca), CA_CUTOFF);
+  grid.forEachPair(CA_CUTOFF, (i, j) => {
+    if (j - i < 2) return;
+    tryHBond(i, j);
+    tryHBond(j, i);
+  });
+
+  // consecutive backbone entries i..j form an unbroken chain
+  const connected = (i: number, j: number) => {
+    if (i < 0 || j >= count) return false;
+    for (let k = i + 1; k <= j; k++) if (!backbone[k].linked) return false;
+    return true;
+  };
+  const hb = (i: number, j: number) => i >= 0 && j >= 0 && i < count && j < count && hbonds.has(i * count + j);
+
+  // α-helix: turns at i-1 and i mark residues i..i+3
+  const helix = new Uint8Array(count);
+  for (let i = 1; i + 4 < count; i++) {
+    if (hb(i - 1, i + 3) && hb(i, i + 4) && connected(i - 1, i + 4)) {
+      for (let k = i; k <= i + 3; k++) helix[k] = 1;
+    }
+  }
+
+  // β-bridges between non-helical residues
+  const bridged = new Uint8Array(count);
+  grid.forEachPair(CA_CUTOFF, (i, j) => {
+    if (j - i < 3 || helix[i] || helix[j]) return;
+    if (!connected(i - 1, i + 1) || !connected(j - 1, j + 1)) return;
+    const parallel = (hb(i - 1, j) && hb(j, i + 1)) || (hb(j - 1, i) && hb(i, j + 1));
+    const antiparallel = (hb(i, j) && hb(j, i)) || (hb(i - 1, j + 1) && hb(j - 1, i + 1));
+    if (parallel || antiparallel) {
+      bridged[i] = 1;
+      bridged[j] = 1;
+    }
+  });
+
+  for (let i = 0; i < count; i++) {
+    const res = backbone[i].residue;
+    if (helix[i]) {
+      types[res] = 'helix';
+    } else if (bridged[i] && ((bridged[i - 1] && connected(i - 1, i)) || (bridged[i + 1] && connected(i, i + 1)))) {
+      // isolated bridges stay coil; ladders become strands
+      types[res] = 'sheet';
+    }
+  }
+  return types;
+}
@@ -0,0 +1,366 @@
+import type { Atom } from './PDBLoader';
+import { buildStructure, isAminoAcid, isNucleotide, isWater, Structure } from './Structure';
+import { SpatialGrid } from './SpatialGrid';
+import { isIon, isLigand } from './Ligands';
+
+/**
+ * Atom selections: a set of indices into a structure's flat atom list, built
+ * either programmatically (AtomSelection, withinDistance, expandToResidues) or
+ * from a small query language via select():
+ *
+ *   chain A and resi 10-50        resn HOH          within 5 of ligand
+ *   backbone or (sidechain and elem S)              byres within 4.5 of resn HEM
+ *
+ * Property keywords take one or more values (`chain A B`, `resi 1-10,20`); a
+ * trailing `*` matches any suffix (`name C*`). Keywords are case-insensitive,
+ * residue / atom names and elements are compared upper-case, chain ids as is.
+ * `not` binds tighter than `and`, which binds tighter than `or`.
+ */
+
+/** Immutable set of atom indices, stored as a membership mask over all atoms. */
+export class AtomSelection {
+  private cachedIndices?: Int32Array;
+
+  constructor(readonly mask: Uint8Array) {}
+
+  static all(atomCount: number): AtomSelection {
+    return new AtomSelection(new Uint8Array(atomCount).fill(1));
+  }
+
+  static none(atomCount: number): AtomSelection {
+    return new AtomSelection(new Uint8Array(atomCount));
+  }
+
+  static fromIndices(atomCount: number, indices: Iterable<number>): AtomSelection {
+    const mask = new Uint8Array(atomCount);
+    for (const i of indices) mask[i] = 1;
+    return new AtomSelection(mask);
+  }
+
+  /** Number of atoms the selection is defined over (not the number selected). */
+  get atomCount(): number {
+    return this.mask.length;
+  }
+
+  get size(): number {
+    return this.indices().length;
+  }
+
+  get isEmpty(): boolean {
+    return this.size === 0;
+  }
+
+  has(index: number): boolean {
+    return this.mask[index] === 1;
+  }
+
+  /** Selected atom indices in ascending order. */
+  indices(): Int32Array {
+    if (!this.cachedIndices) {
+      let count = 0;
+      for (let i = 0; i < this.mask.length; i++) count += this.mask[i];
+      const indices = new Int32Array(count);
+      let k = 0;
+      for (let i = 0; i < this.mask.length; i++) if (this.mask[i]) indices[k++] = i;
+      this.cachedIndices = indices;
+    }
+    return this.cachedIndices;
+  }
+
+  and(other: AtomSelection): AtomSelection {
+    return this.combine(other, (a, b) => a & b);
+  }
+
+  or(other: AtomSelection): AtomSelection {
+    return this.combine(other, (a, b) => a | b);
+  }
+
+  /** Atoms in this selection but not in `other`. */
+  minus(other: AtomSelection): AtomSelection {
+    return this.combine(other, (a, b) => a & (b ^ 1));
+  }
+
+  not(): AtomSelection {
+    return new AtomSelection(this.mask.map((m) => m ^ 1));
+  }
+
+  private combine(other: AtomSelection, op: (a: number, b: number) => number): AtomSelection {
+    if (other.mask.length !== this.mask.length) {
+      throw new Error(`Cannot combine selections over ${this.mask.length} and ${other.mask.length} atoms`);
+    }
+    return new AtomSelection(this.mask.map((m, i) => op(m, other.mask[i])));
+  }
+}
+
+/** A query string or an already evaluated selection. */
+export type SelectionLike = string | AtomSelection;
+
+/** Thrown by parseSelection() / select() for malformed queries. */
+export class SelectionSyntaxError extends Error {
+  constructor(message: string, readonly query: string) {
+    super(`${message} in selection "${query}"`);
+    this.name = 'SelectionSyntaxError';
+  }
+}
+
+type Keyword =
+  | 'all' | 'none' | 'protein' | 'nucleic' | 'polymer' | 'backbone' | 'sidechain'
+  | 'water' | 'ligand' | 'ion' | 'hetero' | 'hydrogen';
+type Property = 'chain' | 'resi' | 'resn' | 'name' | 'elem' | 'index' | 'serial';
+
+/** Parsed query, see parseSelection(). */
+export type SelectionNode =
+  | { op: 'and' | 'or'; left: SelectionNode; right: SelectionNode }
+  | { op: 'not' | 'byres'; operand: SelectionNode }
+  | { op: 'within'; distance: number; operand: SelectionNode }
+  | { op: 'keyword'; keyword: Keyword }
+  | { op: 'property'; property: Property; values: string[] };
+
+const KEYWORDS = new Set<string>([
+  'all', 'none', 'protein', 'nucleic', 'polymer', 'backbone', 'sidechain',
+  'water', 'ligand', 'ion', 'hetero', 'hydrogen',
+]);
+const PROPERTIES: Record<string, Property> = {
+  chain: 'chain', resi: 'resi', resn: 'resn', name: 'name',
+  elem: 'elem', element: 'elem', index: 'index', serial: 'serial',
+};
+const OPERATORS = new Set(['and', 'or', 'not', 'within', 'of', 'byres', '(', ')']);
+
+const PROTEIN_BACKBONE = new Set(['N', 'CA', 'C', 'O', 'OXT']);
+const NUCLEIC_BACKBONE = new Set(['P', 'OP1', 'OP2', 'O1P', 'O2P', "O5'", "C5'", "C4'", "C3'", "O3'"]);
+
+function isReserved(token: string): boolean {
+  const t = token.toLowerCase();
+  return OPERATORS.has(t) || KEYWORDS.has(t) || t in PROPERTIES;
+}
+
+/** Parse a query into a syntax tree without evaluating it. */
+export function parseSelection(query: string): SelectionNode {
+  const tokens = query.replace(/[()]/g, ' $& ').split(/[\s,]+/).filter(Boolean);
+  let pos = 0;
+  const peek = () => tokens[pos]?.toLowerCase();
+  const fail = (message: string): never => {
+    throw new SelectionSyntaxError(message, query);
+  };
+  const expect = (token: string) => {
+    if (peek() !== token) fail(pos < tokens.length ? `Expected "${token}" but found "${tokens[pos]}"` : `Expected "${token}"`);
+    pos++;
+  };
+
+  const parseOr = (): SelectionNode => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      pos++;
+      left = { op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): SelectionNode => {
+    let left = parseUnary();
+    while (peek() === 'and') {
+      pos++;
+      left = { op: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): SelectionNode => {
+    const token = peek();
+    if (token === undefined) return fail('Unexpected end');
+    if (token === 'not' || token === 'byres') {
+      pos++;
+      return { op: token, operand: parseUnary() };
+    }
+    if (token === 'within') {
+      pos++;
+      const distance = Number(tokens[pos]);
+      if (!(distance >= 0)) fail(`Expected a distance after "within"`);
+      pos++;
+      expect('of');
+      return { op: 'within', distance, operand: parseUnary() };
+    }
+    if (token === '(') {
+      pos++;
+      const node = parseOr();
+      expect(')');
+      return node;
+    }
+    if (KEYWORDS.has(token)) {
+      pos++;
+      return { op: 'keyword', keyword: token as Keyword };
+    }
+    const property = PROPERTIES[token];
+    if (property) {
+      pos++;
+      const values: string[] = [];
+      while (pos < tokens.length && !isReserved(tokens[pos])) values.push(tokens[pos++]);
+      if (!values.length) fail(`Expected a value after "${token}"`);
+      if (property === 'resi' || property === 'index' || property === 'serial') {
+        for (const v of values) if (!parseRange(v)) fail(`Invalid ${token} "${v}"`);
+      }
+      return { op: 'property', property, values };
+    }
+    return fail(`Unexpected "${tokens[pos]}"`);
+  };
+
+  const node = parseOr();
+  if (pos < tokens.length) fail(`Unexpected "${tokens[pos]}"`);
+  return node;
+}
+
+/** `10`, `-3`, `10A` (insertion code) or an inclusive range `10-50`. */
+function parseRange(value: string): { from: number; to: number; iCode?: string } | undefined {
+  let m = /^(-?\d+)([A-Za-z]?)$/.exec(value);
+  if (m) {
+    const n = Number(m[1]);
+    return { from: n, to: n, iCode: m[2] ? m[2].toUpperCase() : undefined };
+  }
+  m = /^(-?\d+)[-:](-?\d+)$/.exec(value);
+  if (m) return { from: Number(m[1]), to: Number(m[2]) };
+  return undefined;
+}
+
+/** Matcher for name-like values; a trailing `*` matches any suffix. */
+function nameMatcher(values: string[], normalize: (s: string) => string): (s: string) => boolean {
+  const exact = new Set<string>();
+  const prefixes: string[] = [];
+  for (const v of values.map(normalize)) {
+    if (v.endsWith('*')) prefixes.push(v.slice(0, -1));
+    else exact.add(v);
+  }
+  return (s) => exact.has(s) || prefixes.some((p) => s.startsWith(p));
+}
+
+/** Evaluate a query (or parsed tree) against a structure. */
+export function select(structure: Structure, query: string | SelectionNode): AtomSelection {
+  const node = typeof query === 'string' ? parseSelection(query) : query;
+  return new AtomSelection(evaluate(node, structure));
+}
+
+/**
+ * Turn a query or selection into an AtomSelection over `atoms`; undefined
+ * selects everything. `structure` saves rebuilding it when the caller has one.
+ */
+export function resolveSelection(atoms: Atom[], selection: SelectionLike | undefined, structure?: Structure): AtomSelection {
+  if (selection === undefined) return AtomSelection.all(atoms.length);
+  if (typeof selection === 'string') return select(structure ?? buildStructure(atoms), selection);
+  if (selection.atomCount !== atoms.length) {
+    throw new Error(`Selection over ${selection.atomCount} atoms used with ${atoms.length} atoms`);
+  }
+  return selection;
+}
+
+/** Every atom within `distance` Å of an atom in `selection` (including the selection itself). */
+export function withinDistance(structure: Structure, selection: AtomSelection, distance: number): AtomSelection {
+  const { atoms } = structure;
+  const mask = new Uint8Array(atoms.length);
+  const grid = new SpatialGrid(atoms);
+  for (const i of selection.indices()) {
+    const a = atoms[i];
+    grid.forEachWithin(a.x, a.y, a.z, distance, (j) => {
+      mask[j] = 1;
+    });
+  }
+  return new AtomSelection(mask);
+}
+
+/** Grow a selection to whole residues. */
+export function expandToResidues(structure: Structure, selection: AtomSelection): AtomSelection {
+  const mask = new Uint8Array(structure.atoms.length);
+  const done = new Uint8Array(structure.residues.length);
+  for (const i of selection.indices()) {
+    const r = structure.atomResidue[i];
+    if (done[r]) continue;
+    done[r] = 1;
+    for (const j of structure.residues[r].atoms) mask[j] = 1;
+  }
+  return new AtomSelection(mask);
+}
+
+function evaluate(node: SelectionNode, structure: Structure): Uint8Array {
+  const { atoms } = structure;
+  switch (node.op) {
+    case 'and': {
+      const a = evaluate(node.left, structure);
+      const b = evaluate(node.right, structure);
+      return a.map((m, i) => m & b[i]);
+    }
+    case 'or': {
+      const a = evaluate(node.left, structure);
+      const b = evaluate(node.right, structure);
+      return a.map((m, i) => m | b[i]);
+    }
+    case 'not':
+      return evaluate(node.operand, structure).map((m) => m ^ 1);
+    case 'byres':
+      return expandToResidues(structure, new AtomSelection(evaluate(node.operand, structure))).mask;
+    case 'within':
+      return withinDistance(structure, new AtomSelection(evaluate(node.operand, structure)), node.distance).mask;
+    case 'keyword':
+      return atomMask(atoms.length, keywordTest(node.keyword, structure));
+    case 'property':
+      return atomMask(atoms.length, propertyTest(node.property, node.values, atoms));
+  }
+}
+
+function atomMask(count: number, test: (i: number) => boolean): Uint8Array {
+  const mask = new Uint8Array(count);
+  for (let i = 0; i < count; i++) if (test(i)) mask[i] = 1;
+  return mask;
+}
+
+function keywordTest(keyword: Keyword, structure: Structure): (i: number) => boolean {
+  const { atoms, residues, atomResidue } = structure;
+  const resName = (i: number) => atoms[i].resName;
+  const protein = (i: number) => isAminoAcid(resName(i));
+  const nucleic = (i: number) => isNucleotide(resName(i));
+  const backbone = (i: number) =>
+    (protein(i) && PROTEIN_BACKBONE.has(atoms[i].name)) || (nucleic(i) && NUCLEIC_BACKBONE.has(atoms[i].name));
+  const residue = (i: number) => residues[atomResidue[i]];
+  switch (keyword) {
+    case 'all': return () => true;
+    case 'none': return () => false;
+    case 'protein': return protein;
+    case 'nucleic': return nucleic;
+    case 'polymer': return (i) => protein(i) || nucleic(i);
+    case 'backbone': return backbone;
+    case 'sidechain': return (i) => (protein(i) || nucleic(i)) && !backbone(i);
+    case 'water': return (i) => isWater(resName(i));
+    case 'ion': return (i) => isIon(residue(i));
+    case 'ligand': return (i) => isLigand(residue(i));
+    case 'hetero': return (i) => atoms[i].hetero;
+    case 'hydrogen': return (i) => atoms[i].element === 'H' || atoms[i].element === 'D';
+  }
+}
+
+function propertyTest(property: Property, values: string[], atoms: Atom[]): (i: number) => boolean {
+  switch (property) {
+    case 'chain': {
+      const match = nameMatcher(values, (s) => s);
+      return (i) => match(atoms[i].chainId);
+    }
+    case 'resn': {
+      const match = nameMatcher(values, (s) => s.toUpperCase());
+      return (i) => match(atoms[i].resName);
+    }
+    case 'name': {
+      const match = nameMatcher(values, (s) => s.toUpperCase());
+      return (i) => match(atoms[i].name.toUpperCase());
+    }
+    case 'elem': {
+      const match = nameMatcher(values, (s) => s.toUpperCase());
+      return (i) => match(atoms[i].element);
+    }
+    case 'resi':
+    case 'index':
+    case 'serial': {
+      const ranges = values.map((v) => parseRange(v)!);
+      const valueOf = (i: number) => (property === 'resi' ? atoms[i].resSeq : property === 'serial' ? atoms[i].serial : i);
+      return (i) => {
+        const n = valueOf(i);
+        return ranges.some((r) => n >= r.from && n <= r.to && (r.iCode === undefined || r.iCode === atoms[i].iCode));
+      };
+    }
+  }
+}
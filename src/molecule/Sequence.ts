@@ -0,0 +1,119 @@
+import { isAminoAcid, isNucleotide, isWater, Residue, Structure } from './Structure';
+
+/** A chain's full polymer sequence from SEQRES (or mmCIF pdbx_poly_seq_scheme). */
+export interface SequenceRecord {
+  chainId: string;
+  /** Residue names in sequence order, e.g. `['THR', 'THR', 'CYS', …]`. */
+  residues: string[];
+}
+
+/** One position of a chain's sequence. */
+export interface SequenceEntry {
+  /** Residue name; '' for a gap inferred from the numbering. */
+  name: string;
+  /** One-letter code; `-` for an inferred gap. */
+  code: string;
+  /** Index into `Structure.residues`; undefined when the residue is not modelled. */
+  residue?: number;
+}
+
+export interface ChainSequence {
+  chainId: string;
+  entries: SequenceEntry[];
+  /** True when the sequence comes from SEQRES; otherwise only modelled residues and numbering gaps. */
+  fromSeqres: boolean;
+}
+
+const ONE_LETTER: Record<string, string> = {
+  ALA: 'A', ARG: 'R', ASN: 'N', ASP: 'D', CYS: 'C', GLN: 'Q', GLU: 'E', GLY: 'G', HIS: 'H', ILE: 'I',
+  LEU: 'L', LYS: 'K', MET: 'M', PHE: 'F', PRO: 'P', SER: 'S', THR: 'T', TRP: 'W', TYR: 'Y', VAL: 'V',
+  MSE: 'M', SEC: 'U', PYL: 'O',
+  A: 'A', C: 'C', G: 'G', U: 'U', I: 'I', DA: 'A', DC: 'C', DG: 'G', DT: 'T', DU: 'U', DI: 'I',
+};
+
+// without SEQRES, gaps longer than this are shown with this many markers
+const MAX_GAP_MARKERS = 10;
+
+/** One-letter code of a residue name; `X` for anything non-standard. */
+export function oneLetterCode(resName: string): string {
+  return ONE_LETTER[resName] ?? 'X';
+}
+
+/** Residue that belongs in the sequence strip: polymer records or known monomers. */
+function isPolymerResidue(res: Residue): boolean {
+  return !isWater(res.name) && (!res.hetero || isAminoAcid(res.name) || isNucleotide(res.name));
+}
+
+/**
+ * Per-chain sequences for a structure. With SEQRES records the full sequence
+ * is shown and modelled residues are matched to it by a longest common
+ * subsequence of residue names, so unmodelled stretches become entries
+ * without a residue. Without SEQRES, the modelled polymer residues are listed
+ * and jumps in the residue numbering are marked as gaps.
+ */
+export function buildChainSequences(structure: Structure, records: SequenceRecord[] = []): ChainSequence[] {
+  const sequences: ChainSequence[] = [];
+  for (const chain of structure.chains) {
+    const record = records.find((r) => r.chainId === chain.id);
+    if (record && record.residues.length) {
+      sequences.push({ chainId: chain.id, entries: alignToSeqres(record.residues, chain.residues), fromSeqres: true });
+      continue;
+    }
+    const modelled = chain.residues.filter(isPolymerResidue);
+    if (modelled.length) sequences.push({ chainId: chain.id, entries: modelledEntries(modelled), fromSeqres: false });
+  }
+  return sequences;
+}
+
+/** Modelled residues in order, with gap markers where the numbering jumps. */
+function modelledEntries(residues: Residue[]): SequenceEntry[] {
+  const entries: SequenceEntry[] = [];
+  residues.forEach((res, i) => {
+    const prev = residues[i - 1];
+    const missing = prev && !res.iCode ? res.seq - prev.seq - 1 : 0;
+    for (let g = 0; g < Math.min(missing, MAX_GAP_MARKERS); g++) entries.push({ name: '', code: '-' });
+    entries.push({ name: res.name, code: oneLetterCode(res.name), residue: res.index });
+  });
+  return entries;
+}
+
+/**
+ * SEQRES entries linked to the chain's modelled residues. Polymer residues
+ * that do not fit the alignment (e.g. microheterogeneity) are inserted after
+ * the preceding match; unmatched hetero groups (ligands) are left out.
+ */
+function alignToSeqres(seqres: string[], residues: Residue[]): SequenceEntry[] {
+  const n = seqres.length;
+  const m = residues.length;
+  // lcs[i * (m + 1) + j]: LCS length of seqres[i..] and residues[j..]
+  const w = m + 1;
+  const lcs = new Int32Array((n + 1) * w);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * w + j] =
+        seqres[i] === residues[j].name ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+    }
+  }
+
+  const entries: SequenceEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const match = i < n && j < m && seqres[i] === residues[j].name && lcs[i * w + j] === lcs[(i + 1) * w + j + 1] + 1;
+    // skip a modelled residue only when that keeps more matches; on ties the
+    // SEQRES residue is the one left unmodelled
+    const skipModelled = !match && j < m && (i === n || lcs[i * w + j + 1] > lcs[(i + 1) * w + j]);
+    if (match) {
+      entries.push({ name: seqres[i], code: oneLetterCode(seqres[i]), residue: residues[j].index });
+      i++;
+      j++;
+    } else if (skipModelled) {
+      const res = residues[j++];
+      if (isPolymerResidue(res)) entries.push({ name: res.name, code: oneLetterCode(res.name), residue: res.index });
+    } else {
+      entries.push({ name: seqres[i], code: oneLetterCode(seqres[i]) });
+      i++;
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,141 @@
+/** Anything with a position in Å – atoms satisfy this directly. */
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Uniform-grid spatial hash for fixed-radius neighbour queries.
+ *
+ * Points are bucketed into cubic cells of `cellSize`; cell coordinates are
+ * hashed into a table of ~2n buckets, so memory stays O(n) no matter how
+ * sparse the structure is (cryo-EM assemblies span hundreds of Å). Queries
+ * visit only the cells overlapping the search sphere, making bonding and
+ * contact detection O(n) instead of the naive O(n²) double loop.
+ */
+export class SpatialGrid {
+  private readonly points: ArrayLike<Point3>;
+  private readonly cellSize: number;
+  private readonly mask: number;
+  /** bucketStart[h] .. bucketStart[h + 1] indexes into `order` for bucket h. */
+  private readonly bucketStart: Int32Array;
+  private readonly order: Int32Array;
+  private readonly minX: number;
+  private readonly minY: number;
+  private readonly minZ: number;
+
+  constructor(points: ArrayLike<Point3>, cellSize = 4) {
+    this.points = points;
+    this.cellSize = cellSize;
+    const n = points.length;
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let minZ = Infinity;
+    for (let i = 0; i < n; i++) {
+      const p = points[i];
+      if (p.x < minX) minX = p.x;
+      if (p.y < minY) minY = p.y;
+      if (p.z < minZ) minZ = p.z;
+    }
+    this.minX = n ? minX : 0;
+    this.minY = n ? minY : 0;
+    this.minZ = n ? minZ : 0;
+
+    let size = 16;
+    while (size < n * 2) size <<= 1;
+    this.mask = size - 1;
+
+    // counting sort of point indices by bucket
+    const bucketOf = new Int32Array(n);
+    const counts = new Int32Array(size + 1);
+    for (let i = 0; i < n; i++) {
+      const p = points[i];
+      const h = this.hash(this.cell(p.x, this.minX), this.cell(p.y, this.minY), this.cell(p.z, this.minZ));
+      bucketOf[i] = h;
+      counts[h + 1]++;
+    }
+    for (let h = 0; h < size; h++) counts[h + 1] += counts[h];
+    this.bucketStart = counts.slice();
+    this.order = new Int32Array(n);
+    for (let i = 0; i < n; i++) this.order[counts[bucketOf[i]]++] = i;
+  }
+
+  get size(): number {
+    return this.points.length;
+  }
+
+  /**
+   * Call `cb(index, dist²)` for every point within `radius` of (x, y, z).
+   * Returning `false` from the callback stops the search early.
+   */
+  forEachWithin(x: number, y: number, z: number, radius: number, cb: (index: number, dist2: number) => void | boolean) {
+    const r2 = radius * radius;
+    const x0 = this.cell(x - radius, this.minX);
+    const x1 = this.cell(x + radius, this.minX);
+    const y0 = this.cell(y - radius, this.minY);
+    const y1 = this.cell(y + radius, this.minY);
+    const z0 = this.cell(z - radius, this.minZ);
+    const z1 = this.cell(z + radius, this.minZ);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        for (let cz = z0; cz <= z1; cz++) {
+          const h = this.hash(cx, cy, cz);
+          for (let k = this.bucketStart[h]; k < this.bucketStart[h + 1]; k++) {
+            const i = this.order[k];
+            const p = this.points[i];
+            // different cells can share a bucket; only report points that live in this cell
+            if (
+              this.cell(p.x, this.minX) !== cx ||
+              this.cell(p.y, this.minY) !== cy ||
+              this.cell(p.z, this.minZ) !== cz
+            ) continue;
+            const d2 = (p.x - x) ** 2 + (p.y - y) ** 2 + (p.z - z) ** 2;
+            if (d2 <= r2 && cb(i, d2) === false) return;
+          }
+        }
+      }
+    }
+  }
+
+  /** Indices of all points within `radius` of (x, y, z). */
+  within(x: number, y: number, z: number, radius: number): number[] {
+    const out: number[] = [];
+    this.forEachWithin(x, y, z, radius, (i) => {
+      out.push(i);
+    });
+    return out;
+  }
+
+  /** Index of the closest point within `maxRadius`, or -1 if there is none. */
+  nearest(x: number, y: number, z: number, maxRadius: number): number {
+    let best = -1;
+    let bestD2 = Infinity;
+    this.forEachWithin(x, y, z, maxRadius, (i, d2) => {
+      if (d2 < bestD2) {
+        bestD2 = d2;
+        best = i;
+      }
+    });
+    return best;
+  }
+
+  /** Call `cb(i, j, dist²)` once for every pair i < j closer than `radius`. */
+  forEachPair(radius: number, cb: (i: number, j: number, dist2: number) => void) {
+    for (let i = 0; i < this.points.length; i++) {
+      const p = this.points[i];
+      this.forEachWithin(p.x, p.y, p.z, radius, (j, d2) => {
+        if (j > i) cb(i, j, d2);
+      });
+    }
+  }
+
+  private cell(v: number, min: number): number {
+    return Math.floor((v - min) / this.cellSize);
+  }
+
+  private hash(cx: number, cy: number, cz: number): number {
+    return (Math.imul(cx, 73856093) ^ Math.imul(cy, 19349663) ^ Math.imul(cz, 83492791)) & this.mask;
+  }
+}
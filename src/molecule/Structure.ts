@@ -0,0 +1,106 @@
+import type { Atom } from './PDBLoader';
+
+/**
+ * Hierarchical Structure → Chain → Residue → Atom index built on top of the flat
+ * atom list. Residues and chains only hold indices into `Structure.atoms`, so the
+ * flat array stays the single source of truth for coordinates and atom records.
+ */
+export interface Residue {
+  /** Position in `Structure.residues`. */
+  index: number;
+  name: string;
+  seq: number;
+  iCode: string;
+  chain: Chain;
+  /** Indices into `Structure.atoms`. */
+  atoms: number[];
+  /** True when every atom of the residue is a HETATM record. */
+  hetero: boolean;
+}
+
+export interface Chain {
+  id: string;
+  residues: Residue[];
+}
+
+export interface Structure {
+  atoms: Atom[];
+  chains: Chain[];
+  /** All residues in file order. */
+  residues: Residue[];
+  /** Residue index for every atom. */
+  atomResidue: Int32Array;
+}
+
+export function buildStructure(atoms: Atom[]): Structure {
+  const chains: Chain[] = [];
+  const chainById = new Map<string, Chain>();
+  const residues: Residue[] = [];
+  const atomResidue = new Int32Array(atoms.length);
+  let current: Residue | undefined;
+
+  atoms.forEach((atom, i) => {
+    const sameResidue =
+      current &&
+      current.chain.id === atom.chainId &&
+      current.seq === atom.resSeq &&
+      current.iCode === atom.iCode &&
+      current.name === atom.resName;
+    if (!sameResidue) {
+      let chain = chainById.get(atom.chainId);
+      if (!chain) {
+        chain = { id: atom.chainId, residues: [] };
+        chainById.set(atom.chainId, chain);
+        chains.push(chain);
+      }
+      current = {
+        index: residues.length,
+        name: atom.resName,
+        seq: atom.resSeq,
+        iCode: atom.iCode,
+        chain,
+        atoms: [],
+        hetero: true,
+      };
+      residues.push(current);
+      chain.residues.push(current);
+    }
+    current!.atoms.push(i);
+    current!.hetero = current!.hetero && atom.hetero;
+    atomResidue[i] = current!.index;
+  });
+
+  return { atoms, chains, residues, atomResidue };
+}
+
+/** Human-readable residue label, e.g. `LYS 48A (B)`. */
+export function residueLabel(res: Residue): string {
+  return `${res.name} ${res.seq}${res.iCode}${res.chain.id ? ` (${res.chain.id})` : ''}`;
+}
+
+/** Look up a residue by chain, number and optional insertion code. */
+export function findResidue(structure: Structure, chainId: string, seq: number, iCode = ''): Residue | undefined {
+  const chain = structure.chains.find((c) => c.id === chainId);
+  return chain?.residues.find((r) => r.seq === seq && r.iCode === iCode);
+}
+
+const AMINO_ACIDS = new Set([
+  'ALA', 'ARG', 'ASN', 'ASP', 'CYS', 'GLN', 'GLU', 'GLY', 'HIS', 'ILE',
+  'LEU', 'LYS', 'MET', 'PHE', 'PRO', 'SER', 'THR', 'TRP', 'TYR', 'VAL',
+  'MSE', 'SEC', 'PYL',
+]);
+const NUCLEOTIDES = new Set(['A', 'C', 'G', 'U', 'I', 'DA', 'DC', 'DG', 'DT', 'DU', 'DI']);
+const WATERS = new Set(['HOH', 'WAT', 'H2O', 'DOD', 'SOL']);
+
+/** Standard amino acids plus the common genetically encoded / MSE variants. */
+export function isAminoAcid(resName: string): boolean {
+  return AMINO_ACIDS.has(resName);
+}
+
+export function isNucleotide(resName: string): boolean {
+  return NUCLEOTIDES.has(resName);
+}
+
+export function isWater(resName: string): boolean {
+  return WATERS.has(resName);
+}
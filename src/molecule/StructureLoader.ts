@@ -0,0 +1,146 @@
+import { fetchStructure, prepareMolecule, LoadedMolecule, LoadProgress, LoadStage } from './PDBLoader';
+import { Bond } from './Bonds';
+import type { SecondaryStructureRecord } from './SecondaryStructure';
+import type { SequenceRecord } from './Sequence';
+import { buildStructure } from './Structure';
+import { deserializeGroup, SerializedGroup } from './GroupTransfer';
+import { PackedModels, unpackModels } from './AtomTransfer';
+import { buildInitialRepresentation, InitialStyle } from './Representations';
+
+/** Message sent to LoadWorker. */
+export interface LoadRequest {
+  type: 'load';
+  jobId: number;
+  id: string;
+  style: InitialStyle;
+}
+
+/** Messages posted back by LoadWorker. */
+export type LoadResponse =
+  | { type: 'progress'; jobId: number; stage: LoadStage; fraction?: number }
+  | {
+      type: 'done';
+      jobId: number;
+      models: PackedModels;
+      bonds: Int32Array;
+      secondary: SecondaryStructureRecord[];
+      sequences: SequenceRecord[];
+      group: SerializedGroup;
+      /** Seconds the worker spent building `group`. */
+      buildTime: number;
+    }
+  | { type: 'error'; jobId: number; message: string };
+
+/** Rejection reason of a load that was superseded or cancelled. */
+export class LoadCancelledError extends Error {
+  constructor(id: string) {
+    super(`Loading ${id} was cancelled`);
+    this.name = 'LoadCancelledError';
+  }
+}
+
+interface PendingLoad {
+  jobId: number;
+  id: string;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Loads structures in a Web Worker so parsing, bond detection and geometry
+ * generation never stall rendering. Only one load runs at a time: starting a
+ * new one cancels the load in flight, which terminates the worker (a busy
+ * parser cannot be interrupted otherwise) and rejects its promise with
+ * LoadCancelledError. The group comes back already built in the requested
+ * style. Falls back to loading on the main thread where workers are
+ * unavailable.
+ */
+export class StructureLoader {
+  private worker?: Worker;
+  private pending?: PendingLoad;
+  private nextJobId = 1;
+
+  get busy(): boolean {
+    return !!this.pending;
+  }
+
+  load(id: string, style: InitialStyle, onProgress?: LoadProgress): Promise<LoadedMolecule> {
+    this.cancel();
+    if (typeof Worker === 'undefined') return loadOnMainThread(id, style, onProgress);
+
+    const worker = this.getWorker();
+    const jobId = this.nextJobId++;
+    return new Promise<LoadedMolecule>((resolve, reject) => {
+      this.pending = { jobId, id, reject };
+      worker.onmessage = (e: MessageEvent<LoadResponse>) => {
+        const msg = e.data;
+        if (msg.jobId !== jobId) return;
+        switch (msg.type) {
+          case 'progress':
+            onProgress?.(msg.stage, msg.fraction);
+            break;
+          case 'done':
+            this.pending = undefined;
+            resolve(this.unpack(msg));
+            break;
+          case 'error':
+            this.pending = undefined;
+            reject(new Error(msg.message));
+            break;
+        }
+      };
+      worker.onerror = (e) => {
+        e.preventDefault();
+        this.pending = undefined;
+        this.terminate();
+        reject(new Error(e.message || `Failed to load ${id}`));
+      };
+      const request: LoadRequest = { type: 'load', jobId, id, style };
+      worker.postMessage(request);
+    });
+  }
+
+  /** Abort the load in flight, if any. */
+  cancel() {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = undefined;
+    this.terminate();
+    pending.reject(new LoadCancelledError(pending.id));
+  }
+
+  dispose() {
+    this.cancel();
+    this.terminate();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./LoadWorker.ts', import.meta.url));
+    }
+    return this.worker;
+  }
+
+  private terminate() {
+    this.worker?.terminate();
+    this.worker = undefined;
+  }
+
+  private unpack({ models: packedModels, bonds: packed, secondary, sequences, group, buildTime }: Extract<LoadResponse, { type: 'done' }>): LoadedMolecule {
+    const models = unpackModels(packedModels);
+    const bonds: Bond[] = [];
+    for (let i = 0; i < packed.length; i += 3) {
+      bonds.push({ a: packed[i], b: packed[i + 1], order: packed[i + 2] });
+    }
+    const atoms = models[0];
+    return { atoms, models, structure: buildStructure(atoms), bonds, secondary, sequences, group: deserializeGroup(group), buildTime };
+  }
+}
+
+/** What the worker does, for environments without one. */
+async function loadOnMainThread(id: string, style: InitialStyle, onProgress?: LoadProgress): Promise<LoadedMolecule> {
+  const molecule = prepareMolecule(await fetchStructure(id, onProgress), id, onProgress);
+  onProgress?.('geometry');
+  const start = performance.now();
+  const group = buildInitialRepresentation(molecule.atoms, molecule.bonds, molecule.secondary, style);
+  return { ...molecule, group, buildTime: (performance.now() - start) / 1000 };
+}
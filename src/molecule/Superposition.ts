@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import type { Point3 } from './SpatialGrid';
+import { isAminoAcid, Structure } from './Structure';
+import { AtomSelection } from './Selection';
+import { oneLetterCode } from './Sequence';
+
+/** Raised when two selections share too few aligned Cα atoms to fit. */
+export class SuperpositionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SuperpositionError';
+  }
+}
+
+/** One aligned residue pair (indices into each structure's `residues`). */
+export interface AlignedPair {
+  mobile: number;
+  target: number;
+  /** Cα–Cα distance after fitting (Å). */
+  distance: number;
+}
+
+export interface SuperpositionResult {
+  /** Maps mobile coordinates onto the target (both in Å). */
+  transform: THREE.Matrix4;
+  /** Cα RMSD over all aligned pairs after fitting (Å). */
+  rmsd: number;
+  pairs: AlignedPair[];
+  /** Fraction of aligned pairs with the same residue type. */
+  identity: number;
+}
+
+// Needleman–Wunsch scores on one-letter codes
+const MATCH = 2;
+const MISMATCH = -1;
+const GAP = -2;
+
+/** Residue with its Cα atom, for selected amino acids in file order. */
+function alphaCarbons(structure: Structure, selection: AtomSelection): { residue: number; atom: number; code: string }[] {
+  const out: { residue: number; atom: number; code: string }[] = [];
+  for (const res of structure.residues) {
+    if (res.hetero && !isAminoAcid(res.name)) continue;
+    const ca = res.atoms.find((i) => structure.atoms[i].name === 'CA' && selection.has(i));
+    if (ca !== undefined) out.push({ residue: res.index, atom: ca, code: oneLetterCode(res.name) });
+  }
+  return out;
+}
+
+/**
+ * Global sequence alignment (Needleman–Wunsch, linear gaps) of two one-letter
+ * sequences; returns the aligned index pairs in order. Uses Hirschberg's
+ * divide and conquer, so memory grows with the sequence lengths rather than
+ * their product (whole assemblies run to tens of thousands of residues).
+ */
+export function alignSequences(a: string[], b: string[]): [number, number][] {
+  const pairs: [number, number][] = [];
+  alignHalves(a, b, 0, 0, pairs);
+  return pairs;
+}
+
+/** Split `a` in half at the column of `b` the best alignment passes through, and recurse. */
+function alignHalves(a: string[], b: string[], aOffset: number, bOffset: number, pairs: [number, number][]) {
+  if (a.length <= 1 || b.length <= 1) {
+    for (const [i, j] of alignTable(a, b)) pairs.push([aOffset + i, bOffset + j]);
+    return;
+  }
+  const mid = a.length >> 1;
+  const forward = lastRowScores(a.slice(0, mid), b);
+  const backward = lastRowScores(a.slice(mid).reverse(), b.slice().reverse());
+  const m = b.length;
+  let split = 0;
+  for (let k = 1; k <= m; k++) {
+    if (forward[k] + backward[m - k] > forward[split] + backward[m - split]) split = k;
+  }
+  alignHalves(a.slice(0, mid), b.slice(0, split), aOffset, bOffset, pairs);
+  alignHalves(a.slice(mid), b.slice(split), aOffset + mid, bOffset + split, pairs);
+}
+
+/** Scores of aligning all of `a` against every prefix of `b`, keeping two rows. */
+function lastRowScores(a: string[], b: string[]): Float64Array {
+  const m = b.length;
+  let prev = new Float64Array(m + 1);
+  let row = new Float64Array(m + 1);
+  for (let j = 1; j <= m; j++) prev[j] = j * GAP;
+  for (let i = 1; i <= a.length; i++) {
+    row[0] = i * GAP;
+    for (let j = 1; j <= m; j++) {
+      const diag = prev[j - 1] + (a[i - 1] === b[j - 1] ? MATCH : MISMATCH);
+      row[j] = Math.max(diag, prev[j] + GAP, row[j - 1] + GAP);
+    }
+    [prev, row] = [row, prev];
+  }
+  return prev;
+}
+
+/** Full-table alignment with traceback, for the small blocks alignHalves bottoms out in. */
+function alignTable(a: string[], b: string[]): [number, number][] {
+  const n = a.length;
+  const m = b.length;
+  const w = m + 1;
+  const score = new Float64Array((n + 1) * w);
+  // 0 = diagonal, 1 = gap in b (step in a), 2 = gap in a (step in b)
+  const move = new Uint8Array((n + 1) * w);
+  for (let i = 1; i <= n; i++) {
+    score[i * w] = i * GAP;
+    move[i * w] = 1;
+  }
+  for (let j = 1; j <= m; j++) {
+    score[j] = j * GAP;
+    move[j] = 2;
+  }
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const diag = score[(i - 1) * w + j - 1] + (a[i - 1] === b[j - 1] ? MATCH : MISMATCH);
+      const up = score[(i - 1) * w + j] + GAP;
+      const left = score[i * w + j - 1] + GAP;
+      const best = Math.max(diag, up, left);
+      score[i * w + j] = best;
+      move[i * w + j] = best === diag ? 0 : best === up ? 1 : 2;
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const step = move[i * w + j];
+    if (step === 0) pairs.push([--i, --j]);
+    else if (step === 1) i--;
+    else j--;
+  }
+  return pairs.reverse();
+}
+
+/**
+ * Eigen-decomposition of a symmetric 3×3 matrix (row-major) by cyclic Jacobi
+ * rotations; eigenvalues in descending order with matching unit eigenvectors.
+ */
+function symmetricEigen3(m: number[]): { values: number[]; vectors: THREE.Vector3[] } {
+  const a = [[m[0], m[1], m[2]], [m[3], m[4], m[5]], [m[6], m[7], m[8]]];
+  const v = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const off = a[0][1] ** 2 + a[0][2] ** 2 + a[1][2] ** 2;
+    if (off < 1e-20) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (Math.abs(a[p][q]) < 1e-300) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p];
+        const akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k];
+        const aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k][p];
+        const vkq = v[k][q];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+  const order = [0, 1, 2].sort((x, y) => a[y][y] - a[x][x]);
+  return {
+    values: order.map((k) => a[k][k]),
+    vectors: order.map((k) => new THREE.Vector3(v[0][k], v[1][k], v[2][k])),
+  };
+}
+
+const _p = new THREE.Vector3();
+const _q = new THREE.Vector3();
+const _x = new THREE.Vector3(1, 0, 0);
+const _y = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Kabsch fit: the rigid transform (rotation + translation, no reflection)
+ * that minimises the RMSD between `mobile[i]` and `target[i]`. The rotation
+ * comes from the SVD H = U·S·Vᵀ of the covariance H = Σ p·qᵀ of the centred
+ * point sets, with V and S from the eigen-decomposition of HᵀH.
+ */
+export function kabsch(mobile: Point3[], target: Point3[]): THREE.Matrix4 {
+  const n = mobile.length;
+  const pc = new THREE.Vector3();
+  const qc = new THREE.Vector3();
+  for (let i = 0; i < n; i++) {
+    pc.add(_p.set(mobile[i].x, mobile[i].y, mobile[i].z));
+    qc.add(_q.set(target[i].x, target[i].y, target[i].z));
+  }
+  pc.divideScalar(n);
+  qc.divideScalar(n);
+
+  // covariance H[r][c] = Σ p_r q_c, row-major
+  const h = new Array(9).fill(0);
+  for (let i = 0; i < n; i++) {
+    const p = _p.set(mobile[i].x, mobile[i].y, mobile[i].z).sub(pc).toArray();
+    const q = _q.set(target[i].x, target[i].y, target[i].z).sub(qc).toArray();
+    for (let r = 0; r < 3; r++) for (let c = 0; c < 3; c++) h[r * 3 + c] += p[r] * q[c];
+  }
+  const hth = new Array(9).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      for (let k = 0; k < 3; k++) hth[r * 3 + c] += h[k * 3 + r] * h[k * 3 + c];
+    }
+  }
+  const { values, vectors: v } = symmetricEigen3(hth);
+  const hv = (x: THREE.Vector3) =>
+    new THREE.Vector3(
+      h[0] * x.x + h[1] * x.y + h[2] * x.z,
+      h[3] * x.x + h[4] * x.y + h[5] * x.z,
+      h[6] * x.x + h[7] * x.y + h[8] * x.z
+    );
+  // left singular vectors u_k = H·v_k / σ_k, completed to a proper rotation;
+  // degenerate (collinear) point sets get an arbitrary perpendicular u2
+  const u1 = values[0] > 1e-12 ? hv(v[0]).normalize() : new THREE.Vector3(1, 0, 0);
+  let u2 = hv(v[1]);
+  u2.addScaledVector(u1, -u2.dot(u1));
+  if (values[1] <= 1e-12 || u2.lengthSq() < 1e-12) {
+    u2 = new THREE.Vector3().crossVectors(u1, Math.abs(u1.x) < 0.9 ? _x : _y);
+  }
+  u2.normalize();
+  const u3 = new THREE.Vector3().crossVectors(u1, u2);
+  // R = V·diag(1, 1, det V)·Uᵀ; the sign flip avoids reflections
+  const d = v[0].dot(new THREE.Vector3().crossVectors(v[1], v[2])) < 0 ? -1 : 1;
+  const u = [u1, u2, u3].map((x) => x.toArray());
+  const vs = [v[0], v[1], v[2].clone().multiplyScalar(d)].map((x) => x.toArray());
+  const r = (i: number, j: number) => vs[0][i] * u[0][j] + vs[1][i] * u[1][j] + vs[2][i] * u[2][j];
+
+  const transform = new THREE.Matrix4().set(
+    r(0, 0), r(0, 1), r(0, 2), 0,
+    r(1, 0), r(1, 1), r(1, 2), 0,
+    r(2, 0), r(2, 1), r(2, 2), 0,
+    0, 0, 0, 1
+  );
+  const t = qc.clone().sub(pc.clone().applyMatrix4(transform));
+  return transform.setPosition(t);
+}
+
+/**
+ * Superpose the selected part of `mobile` onto that of `target`: Cα atoms of
+ * both selections are paired by a global sequence alignment and fitted with
+ * kabsch(). Throws SuperpositionError with fewer than three pairs.
+ */
+export function superpose(
+  mobile: Structure,
+  mobileSelection: AtomSelection,
+  target: Structure,
+  targetSelection: AtomSelection
+): SuperpositionResult {
+  const a = alphaCarbons(mobile, mobileSelection);
+  const b = alphaCarbons(target, targetSelection);
+  const aligned = alignSequences(a.map((x) => x.code), b.map((x) => x.code));
+  if (aligned.length < 3) {
+    throw new SuperpositionError(`Only ${aligned.length} aligned Cα atoms; at least 3 are needed`);
+  }
+  const p = aligned.map(([i]) => mobile.atoms[a[i].atom]);
+  const q = aligned.map(([, j]) => target.atoms[b[j].atom]);
+  const transform = kabsch(p, q);
+
+  let sum = 0;
+  let identical = 0;
+  const pairs = aligned.map(([i, j], k) => {
+    const distance = _p.set(p[k].x, p[k].y, p[k].z).applyMatrix4(transform).distanceTo(_q.set(q[k].x, q[k].y, q[k].z));
+    sum += distance * distance;
+    if (a[i].code === b[j].code) identical++;
+    return { mobile: a[i].residue, target: b[j].residue, distance };
+  });
+  return { transform, rmsd: Math.sqrt(sum / pairs.length), pairs, identity: identical / pairs.length };
+}
+
+/** Per-residue Cα deviation (Å) for one side of a superposition; NaN for unaligned residues. */
+export function residueDeviation(residueCount: number, pairs: AlignedPair[], side: 'mobile' | 'target'): Float32Array {
+  const deviation = new Float32Array(residueCount).fill(NaN);
+  for (const pair of pairs) deviation[pair[side]] = pair.distance;
+  return deviation;
+}
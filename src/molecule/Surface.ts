@@ -0,0 +1,321 @@
+import * as THREE from 'three';
+import { edgeTable, triTable } from 'three/examples/jsm/objects/MarchingCubes';
+import { Atom, RepresentationOptions, VDW_RADII, detailScale } from './PDBLoader';
+import { createColorTheme } from './ColorThemes';
+import { resolveSelection } from './Selection';
+import { SpatialGrid } from './SpatialGrid';
+
+export interface SurfaceOptions {
+  /** Solvent-accessible (probe centre) or solvent-excluded (probe contact) surface. Default 'ses'. */
+  type?: 'sas' | 'ses';
+  /** Probe radius in Å (default 1.4, water). */
+  probeRadius?: number;
+  /** Grid spacing in Å (default 0.6); coarsened automatically for large structures. */
+  resolution?: number;
+  /** 1 renders opaque (default 0.5). */
+  opacity?: number;
+}
+
+const DEFAULT_PROBE = 1.4;
+const DEFAULT_RESOLUTION = 0.6;
+const DEFAULT_OPACITY = 0.5;
+// caps memory at ~12 bytes per cell (distance field, nearest atom, probe distance)
+const MAX_GRID_CELLS = 4_000_000;
+
+function radiusOf(atom: Atom): number {
+  return VDW_RADII[atom.element] ?? 1.6;
+}
+
+/** Scalar field sampled on a regular grid; negative inside the surface. */
+interface Field {
+  values: Float32Array;
+  nx: number;
+  ny: number;
+  nz: number;
+  origin: THREE.Vector3;
+  spacing: number;
+}
+
+/**
+ * Distance to the nearest probe-inflated atom sphere, |x − c| − (r + probe),
+ * evaluated near every atom. Its zero level set is the solvent-accessible
+ * surface. `nearest` records which sphere each cell is closest to.
+ */
+function sasField(atoms: Atom[], probe: number, resolution: number): { field: Field; nearest: Int32Array } {
+  const min = new THREE.Vector3(Infinity, Infinity, Infinity);
+  const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
+  let maxRadius = 0;
+  for (const atom of atoms) {
+    min.min(_v.set(atom.x, atom.y, atom.z));
+    max.max(_v);
+    maxRadius = Math.max(maxRadius, radiusOf(atom));
+  }
+  const pad = maxRadius + probe + 2 * resolution;
+  min.subScalar(pad);
+  max.addScalar(pad);
+
+  let spacing = resolution;
+  const size = new THREE.Vector3().subVectors(max, min);
+  const cells = (size.x / spacing) * (size.y / spacing) * (size.z / spacing);
+  if (cells > MAX_GRID_CELLS) spacing *= Math.cbrt(cells / MAX_GRID_CELLS);
+  const nx = Math.ceil(size.x / spacing) + 1;
+  const ny = Math.ceil(size.y / spacing) + 1;
+  const nz = Math.ceil(size.z / spacing) + 1;
+
+  // cells beyond every sphere's reach only need to be "outside"
+  const values = new Float32Array(nx * ny * nz).fill(2 * spacing + probe);
+  const nearest = new Int32Array(nx * ny * nz).fill(-1);
+  atoms.forEach((atom, i) => {
+    const r = radiusOf(atom) + probe;
+    splat(atom.x, atom.y, atom.z, r + 2 * spacing, min, spacing, nx, ny, nz, (idx, d) => {
+      const v = d - r;
+      if (v < values[idx]) {
+        values[idx] = v;
+        nearest[idx] = i;
+      }
+    });
+  });
+  return { field: { values, nx, ny, nz, origin: min, spacing }, nearest };
+}
+
+/**
+ * Turn the SAS field into a solvent-excluded one: a cell is inside the SES
+ * when it lies inside the SAS and no probe position (a point on the SAS) is
+ * within one probe radius. Probe positions are sampled by projecting every
+ * outside cell that borders the SAS onto its nearest inflated sphere.
+ */
+function sesField(atoms: Atom[], probe: number, sas: Field, nearest: Int32Array): Field {
+  const { nx, ny, nz, spacing, origin } = sas;
+  const sasValues = sas.values;
+  // distance from each cell to the closest probe position
+  const probeDist = new Float32Array(sasValues.length).fill(Infinity);
+  const reach = probe + 2 * spacing;
+  const inside = (idx: number) => sasValues[idx] < 0;
+
+  for (let z = 1; z < nz - 1; z++) {
+    for (let y = 1; y < ny - 1; y++) {
+      for (let x = 1; x < nx - 1; x++) {
+        const idx = x + nx * (y + ny * z);
+        if (inside(idx)) continue;
+        const border =
+          inside(idx - 1) || inside(idx + 1) ||
+          inside(idx - nx) || inside(idx + nx) ||
+          inside(idx - nx * ny) || inside(idx + nx * ny);
+        if (!border || nearest[idx] < 0) continue;
+        const atom = atoms[nearest[idx]];
+        const r = radiusOf(atom) + probe;
+        _v.set(origin.x + x * spacing - atom.x, origin.y + y * spacing - atom.y, origin.z + z * spacing - atom.z);
+        _v.multiplyScalar(r / (_v.length() || 1));
+        splat(atom.x + _v.x, atom.y + _v.y, atom.z + _v.z, reach, origin, spacing, nx, ny, nz, (i, d) => {
+          if (d < probeDist[i]) probeDist[i] = d;
+        });
+      }
+    }
+  }
+
+  const values = new Float32Array(sasValues.length);
+  for (let i = 0; i < values.length; i++) {
+    // cells beyond every probe's reach are buried deep inside
+    values[i] = sasValues[i] < 0 ? probe - Math.min(probeDist[i], reach) : probe + sasValues[i];
+  }
+  return { ...sas, values };
+}
+
+/** Call `cb(index, distance)` for every grid cell within `radius` of (x, y, z). */
+function splat(
+  x: number, y: number, z: number, radius: number,
+  origin: THREE.Vector3, spacing: number, nx: number, ny: number, nz: number,
+  cb: (index: number, distance: number) => void
+) {
+  const x0 = Math.max(0, Math.floor((x - radius - origin.x) / spacing));
+  const y0 = Math.max(0, Math.floor((y - radius - origin.y) / spacing));
+  const z0 = Math.max(0, Math.floor((z - radius - origin.z) / spacing));
+  const x1 = Math.min(nx - 1, Math.ceil((x + radius - origin.x) / spacing));
+  const y1 = Math.min(ny - 1, Math.ceil((y + radius - origin.y) / spacing));
+  const z1 = Math.min(nz - 1, Math.ceil((z + radius - origin.z) / spacing));
+  const r2 = radius * radius;
+  for (let k = z0; k <= z1; k++) {
+    const dz = origin.z + k * spacing - z;
+    for (let j = y0; j <= y1; j++) {
+      const dy = origin.y + j * spacing - y;
+      const dyz = dy * dy + dz * dz;
+      if (dyz > r2) continue;
+      for (let i = x0; i <= x1; i++) {
+        const dx = origin.x + i * spacing - x;
+        const d2 = dx * dx + dyz;
+        if (d2 <= r2) cb(i + nx * (j + ny * k), Math.sqrt(d2));
+      }
+    }
+  }
+}
+
+// cube corner offsets and the corners joined by each edge, in the order used by the lookup tables
+const CORNERS = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1],
+];
+const EDGES = [
+  [0, 1], [1, 2], [3, 2], [0, 3],
+  [4, 5], [5, 6], [7, 6], [4, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+// three types the tables as Int32Array[]; they are flat arrays (triTable has 16 entries per case)
+const EDGE_TABLE = edgeTable as unknown as Int32Array;
+const TRI_TABLE = triTable as unknown as Int32Array;
+
+/** Extract the zero level set of `field` as an indexed mesh; vertices are shared between cubes. */
+function marchingCubes(field: Field): { positions: Float32Array; indices: Uint32Array } {
+  const { values, nx, ny, nz, origin, spacing } = field;
+  const positions: number[] = [];
+  const indices: number[] = [];
+  // vertex on the grid edge leaving cell `index` along `axis`
+  const edgeVertices = new Map<number, number>();
+  const cornerIndex = new Int32Array(8);
+  const cubeEdges = new Int32Array(12);
+
+  const vertexOn = (a: number, b: number, ca: number[], cb: number[], x: number, y: number, z: number): number => {
+    const axis = cb[0] !== ca[0] ? 0 : cb[1] !== ca[1] ? 1 : 2;
+    const key = a * 3 + axis;
+    const cached = edgeVertices.get(key);
+    if (cached !== undefined) return cached;
+    const va = values[a];
+    const t = va / (va - values[b]);
+    const vertex = positions.length / 3;
+    positions.push(
+      origin.x + (x + ca[0] + (cb[0] - ca[0]) * t) * spacing,
+      origin.y + (y + ca[1] + (cb[1] - ca[1]) * t) * spacing,
+      origin.z + (z + ca[2] + (cb[2] - ca[2]) * t) * spacing
+    );
+    edgeVertices.set(key, vertex);
+    return vertex;
+  };
+
+  for (let z = 0; z < nz - 1; z++) {
+    for (let y = 0; y < ny - 1; y++) {
+      for (let x = 0; x < nx - 1; x++) {
+        let cube = 0;
+        for (let c = 0; c < 8; c++) {
+          const [dx, dy, dz] = CORNERS[c];
+          const idx = x + dx + nx * (y + dy + ny * (z + dz));
+          cornerIndex[c] = idx;
+          // the tables flag corners outside the surface
+          if (values[idx] >= 0) cube |= 1 << c;
+        }
+        const bits = EDGE_TABLE[cube];
+        if (!bits) continue;
+        for (let e = 0; e < 12; e++) {
+          if (!(bits & (1 << e))) continue;
+          const [ca, cb] = EDGES[e];
+          // key edges by their lower corner so neighbouring cubes share vertices
+          const [lo, hi] = cornerIndex[ca] < cornerIndex[cb] ? [ca, cb] : [cb, ca];
+          cubeEdges[e] = vertexOn(cornerIndex[lo], cornerIndex[hi], CORNERS[lo], CORNERS[hi], x, y, z);
+        }
+        for (let k = cube << 4; TRI_TABLE[k] !== -1; k += 3) {
+          indices.push(cubeEdges[TRI_TABLE[k]], cubeEdges[TRI_TABLE[k + 1]], cubeEdges[TRI_TABLE[k + 2]]);
+        }
+      }
+    }
+  }
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+const _v = new THREE.Vector3();
+
+/**
+ * Molecular surface geometry (positions in Å) with normals, per-vertex colours
+ * of the nearest atom (`colorOf`) and `vertexAtoms` (nearest atom per vertex)
+ * for picking.
+ */
+export function computeSurface(
+  atoms: Atom[],
+  options: SurfaceOptions = {},
+  colorOf: (atomIndex: number) => number = () => 0xffffff
+): { geometry: THREE.BufferGeometry; vertexAtoms: Int32Array } {
+  const probe = options.probeRadius ?? DEFAULT_PROBE;
+  const { field: sas, nearest } = sasField(atoms, probe, options.resolution ?? DEFAULT_RESOLUTION);
+  const field = options.type === 'sas' ? sas : sesField(atoms, probe, sas, nearest);
+  const { positions, indices } = marchingCubes(field);
+
+  // colour each vertex like the atom whose van der Waals sphere is closest
+  const grid = new SpatialGrid(atoms);
+  const maxRadius = Math.max(1.6, ...Object.values(VDW_RADII));
+  const reach = maxRadius + probe + field.spacing;
+  const vertexCount = positions.length / 3;
+  const vertexAtoms = new Int32Array(vertexCount);
+  const colors = new Float32Array(positions.length);
+  const color = new THREE.Color();
+  for (let v = 0; v < vertexCount; v++) {
+    const x = positions[3 * v];
+    const y = positions[3 * v + 1];
+    const z = positions[3 * v + 2];
+    let best = -1;
+    let bestGap = Infinity;
+    grid.forEachWithin(x, y, z, reach, (i, d2) => {
+      const gap = Math.sqrt(d2) - radiusOf(atoms[i]);
+      if (gap < bestGap) {
+        bestGap = gap;
+        best = i;
+      }
+    });
+    vertexAtoms[v] = best;
+    color.setHex(best < 0 ? 0x888888 : colorOf(best));
+    colors[3 * v] = color.r;
+    colors[3 * v + 1] = color.g;
+    colors[3 * v + 2] = color.b;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+  geometry.computeVertexNormals();
+  geometry.computeBoundingSphere();
+  return { geometry, vertexAtoms };
+}
+
+/**
+ * Molecular surface representation (`options.surface`). Translucent surfaces
+ * get a depth-only pre-pass so only the front-most layer is blended – without
+ * it the far side of the surface shows through in the wrong order – and render
+ * after opaque geometry but before overlays such as the wrist menu.
+ */
+export function createSurface(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
+  const group = new THREE.Group();
+  if (!atoms.length) return group;
+  // a finer or coarser grid with the level of detail, unless set explicitly
+  const surface = { resolution: DEFAULT_RESOLUTION / detailScale(options.detail), ...options.surface };
+  const opacity = surface.opacity ?? DEFAULT_OPACITY;
+  const theme = createColorTheme(options.colorTheme ?? 'element', atoms, options);
+  // the surface of the selected atoms alone, with vertexAtoms mapped back to `atoms`
+  const indices = resolveSelection(atoms, options.selection).indices();
+  if (!indices.length) return group;
+  const subset = indices.length === atoms.length ? atoms : Array.from(indices, (i) => atoms[i]);
+  const { geometry, vertexAtoms } = computeSurface(subset, surface, (k) => theme.colorOf(indices[k]));
+  vertexAtoms.forEach((k, v) => {
+    if (k >= 0) vertexAtoms[v] = indices[k];
+  });
+
+  const material = new THREE.MeshStandardMaterial({ vertexColors: true, roughness: 0.6 });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.userData.vertexAtoms = vertexAtoms;
+  if (opacity < 1) {
+    material.transparent = true;
+    material.opacity = opacity;
+    material.depthWrite = false;
+    material.depthFunc = THREE.LessEqualDepth;
+
+    const depthMaterial = new THREE.MeshBasicMaterial({ colorWrite: false });
+    const depthPass = new THREE.Mesh(geometry, depthMaterial);
+    // renders first and is not a pick target
+    depthPass.renderOrder = -1;
+    depthPass.raycast = () => {};
+    group.add(depthPass);
+  }
+  group.add(mesh);
+  return group;
+}
+
+/** Translucent solvent-excluded surface (the viewer's "Transparent Surface" mode). */
+export function createTransparentSurface(atoms: Atom[], options: RepresentationOptions = {}): THREE.Group {
+  return createSurface(atoms, { ...options, surface: { opacity: DEFAULT_OPACITY, ...options.surface } });
+}
@@ -6,8 +6,29 @@ import { XRControllerModelFactory } from 'three/examples/jsm/webxr/XRControllerM
 import { RadialMenu } from '../ui/RadialMenu';
 import { QuickLoadPanel } from '../ui/QuickLoadPanel';
 import { UIPanelManager } from '../ui/UIPanelManager';
-import { loadPDB, Atom, createBallStick, createSpaceFill, createWireframe, createTransparentSurface, createRibbon } from '../molecule/PDBLoader';
+import { Atom, createCoarseGrained, createEnsemble, createBallStick, createSticks, detailScale, RADIUS_SCALE_RANGE, RepresentationBuilder, RepresentationOptions, setGroupClipping, setGroupOpacity, updateAtomPositions } from '../molecule/PDBLoader';
+import { createTransparentSurface } from '../molecule/Surface';
+import { createCartoon } from '../molecule/Cartoon';
+import { defaultColorTheme, initialRepresentation, InitialStyle, LOD_COARSE_ATOMS, REPRESENTATION_BUILDERS, REPRESENTATION_LABELS } from '../molecule/Representations';
+import { createColorTheme, ColorOverride, ColorThemeId } from '../molecule/ColorThemes';
+import { AtomSelection, SelectionLike, parseSelection, resolveSelection, select, expandToResidues, withinDistance } from '../molecule/Selection';
+import { findLigands } from '../molecule/Ligands';
+import { buildChainSequences, SequenceRecord } from '../molecule/Sequence';
+import { buildStructure, residueLabel, Structure } from '../molecule/Structure';
+import { residueDeviation, superpose, SuperpositionError, SuperpositionResult } from '../molecule/Superposition';
+import { computeInteractions, createInteractionOverlay, INTERACTION_COLORS, INTERACTION_LABELS, INTERACTION_TYPES, Interaction } from '../molecule/Interactions';
+import type { SecondaryStructureRecord } from '../molecule/SecondaryStructure';
+import { Bond } from '../molecule/Bonds';
+import { SpatialGrid } from '../molecule/SpatialGrid';
+import { bestHit, pickAtom } from '../molecule/Picking';
+import { MeasurementLayer, formatMeasurement } from '../molecule/Measurements';
+import { ClippingLayer } from '../molecule/Clipping';
+import { StructureLoader, LoadCancelledError } from '../molecule/StructureLoader';
 import { LoadOverlay } from '../ui/LoadOverlay';
+import { SequenceStrip } from '../ui/SequenceStrip';
+import { MAX_STRUCTURES, RepresentationLayer, slotPosition, StructureEntry, StructureRegistry } from './StructureRegistry';
+import { QualityManager } from './QualityManager';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, Settings } from './Settings';
 import { NetworkManager } from '../network/NetworkManager';
 
 export class ConfinedSpaceXR {
@@ -22,27 +43,74 @@ export class ConfinedSpaceXR {
   private menuVisible = true;
   private loadOverlay!: LoadOverlay;
   private network!: NetworkManager;
+  // runs fetch/parse/geometry in a worker; a new load cancels the one in flight
+  private loader = new StructureLoader();
 
   // unified UI panel manager
   private panels!: UIPanelManager;
   // convenience getter for quick-load panel
   private get quickLoad(): QuickLoadPanel { return this.panels.getQuickLoadPanel(); }
-  // left-hand references for "watch" radial menu
-  private leftController?: THREE.Object3D;
-  private leftGrip?: THREE.Object3D;
-  private moleculeGroup?: THREE.Group;
-  private atoms?: Atom[];
-  private repIndex = 0;
-  // TODO queue (polish) -----------------------------------------------------
-  // 1. Re-measure bounding box after each representation switch to keep
-  //    scale consistent across modes.
-  // 2. Transparent-surface representation currently occludes radial menu;
-  //    set depthWrite = false and an appropriate renderOrder.
-  // ------------------------------------------------------------------------
-  private repBuilders = [createBallStick, createSpaceFill, createWireframe, createTransparentSurface, createRibbon];
-  private moleculeScale = 1;
+  // non-dominant hand, which wears the "watch" radial menu (see assignHands)
+  private menuController?: THREE.Object3D;
+  private menuGrip?: THREE.Object3D;
+  // preferences from the Settings panel, persisted in localStorage
+  private settings: Settings = loadSettings();
+  // every loaded structure; panels, picking and overlays act on the active one
+  private registry = new StructureRegistry();
+  // extra pedestals by slot (slot 0 is the central pedestal built in init)
+  private pedestals: THREE.Mesh[] = [];
+  // neighbour grid over `atoms`, rebuilt lazily when the displayed model changes
+  private atomGrid?: { atoms: Atom[]; grid: SpatialGrid };
+  // atom under the context menu (index into `atoms`), -1 if none
+  private contextAtom = -1;
+  // atom shown on the info card, marked by `atomHighlight` until the card closes
+  private highlightedAtom = -1;
+  private atomHighlight!: THREE.Mesh;
+  // distance / angle / dihedral overlays; trigger taps pick atoms while `measuring`
+  private measurements = new MeasurementLayer();
+  private measuring = false;
+  // non-covalent interaction overlay; independent of the representation, follows the molecule
+  private interactionScope?: { a: AtomSelection; b: AtomSelection; label: string };
+  private interactions: Interaction[] = [];
+  private interactionGroup?: THREE.Group;
+  // user clipping planes and slab, applied to every representation; a
+  // plane handle dragged with the mouse slides along its normal
+  private clipping = new ClippingLayer();
+  private clipDrag?: { handle: THREE.Object3D; start: THREE.Vector3; along: number };
+  private clipDragged = false;
+  private readonly SLAB_STEP = 0.05; // m per −/+ press
+  // binding-pocket focus radius (Å)
+  private pocketRadius = 5;
+  private readonly POCKET_RADIUS_RANGE = [3, 10];
+  // desktop sequence strip and the residues hovered in / picked from either
+  // strip or the 3D view
+  private sequenceStrip!: SequenceStrip;
+  private hoveredResidue = -1;
+  private pickedResidue = -1;
+  private residueHighlight!: THREE.InstancedMesh;
+  private residueHighlightShown?: { residue: number; atoms: Atom[] };
+  // superposition panel: target for the active structure and the last fit
+  private superposeTargetId?: number;
+  private superposition?: { mobileId: number; targetId: number; result?: SuperpositionResult; error?: string };
+  // NMR ensemble playback of the active structure
+  private modelPlaying = false;
+  private modelTimer = 0;
+  private readonly MODEL_FRAME_TIME = 0.25; // seconds per model during playback
+  private repBuilders = REPRESENTATION_BUILDERS;
+  private repLabels = REPRESENTATION_LABELS;
+  // selections the Visuals panel steps a layer through
+  private layerSelections = ['all', 'polymer', 'ligand', 'byres within 5 of ligand', 'not polymer', 'water'];
+  // level of detail for every representation, adapted to the measured frame
+  // time; at the lowest level structures above LOD_COARSE_ATOMS are shown as
+  // coarse-grained beads whatever their representation
+  private quality = new QualityManager();
+  // structures still to be rebuilt after a level change, one per frame
+  private detailRebuilds: StructureEntry[] = [];
+  // representation switch: the old group shrinks away as the new one grows
+  // to the scale the old one had
   private transitionOld?: THREE.Group;
   private transitionNew?: THREE.Group;
+  private transitionScale = 1;
   private transitionProgress = 0;
 
   // pointer interaction
@@ -50,21 +118,69 @@ export class ConfinedSpaceXR {
   private mouse = new THREE.Vector2();
   // vr controllers
   private controllers: THREE.Group[] = [];
-  private vrSpeed = 5; // meters per second
   private debugTimer = 0;
   private userRig!: THREE.Group;
 
-  // context-sensitive radial menu (right controller trigger long-press)
-  private rightController?: THREE.Object3D;
+  // dominant hand: picking and the context-sensitive radial menu (trigger long-press)
+  private pointerController?: THREE.Object3D;
   private triggerHeld = false;
+  // the current trigger press was used by a panel
+  private triggerConsumed = false;
   private triggerHoldDuration = 0;
   private contextMenu?: RadialMenu;
   private contextMenuVisible = false;
 
+  // squeeze-to-grab: the structure each controller holds (and the hand →
+  // group offset for one-handed moves); with both hands on one structure the
+  // pinch frame at the moment the second hand closed drives rotate + scale
+  private grabs = new Map<THREE.Object3D, { entry: StructureEntry; offset: THREE.Matrix4 }>();
+  private handleGrabs = new Map<THREE.Object3D, { handle: THREE.Object3D; offset: THREE.Matrix4 }>();
+  private pinch?: { entry: StructureEntry; frame: THREE.Matrix4; distance: number; start: THREE.Matrix4 };
+  // two-handed scaling limits, relative to the pedestal fit (entry.scale)
+  private readonly GRAB_SCALE_RANGE = [0.2, 10];
+
+  /* ------------ active structure ------------ */
+  // display state lives on the active registry entry; these forward to it so
+  // the code below can treat it as the one molecule in the scene
+  private get active(): StructureEntry | undefined { return this.registry.active; }
+  private get moleculeGroup(): THREE.Group | undefined { return this.active?.group; }
+  private set moleculeGroup(group: THREE.Group | undefined) { if (this.active && group) this.active.group = group; }
+  // `atoms` always points at models[modelIndex]
+  private get atoms(): Atom[] | undefined { return this.active?.atoms; }
+  private set atoms(atoms: Atom[] | undefined) { if (this.active && atoms) this.active.atoms = atoms; }
+  private get models(): Atom[][] | undefined { return this.active?.models; }
+  private get modelIndex(): number { return this.active?.modelIndex ?? 0; }
+  private set modelIndex(index: number) { if (this.active) this.active.modelIndex = index; }
+  private get showEnsemble(): boolean { return this.active?.showEnsemble ?? false; }
+  private set showEnsemble(show: boolean) { if (this.active) this.active.showEnsemble = show; }
+  // shared by every bonded representation and every model of an ensemble
+  private get bonds(): Bond[] | undefined { return this.active?.bonds; }
+  // HELIX/SHEET records of the loaded file, used by the cartoon
+  private get secondary(): SecondaryStructureRecord[] { return this.active?.secondary ?? []; }
+  private get sequences(): SequenceRecord[] { return this.active?.sequences ?? []; }
+  // layer of the stack the Visuals panel edits; repIndex / colorTheme are its style
+  private get layer(): RepresentationLayer | undefined { return this.active?.layers[this.active.layerIndex]; }
+  private get repIndex(): number { return this.layer?.rep ?? 0; }
+  private set repIndex(index: number) { if (this.layer) this.layer.rep = index; }
+  private get colorTheme(): ColorThemeId | undefined { return this.layer?.colorTheme; }
+  private set colorTheme(theme: ColorThemeId | undefined) { if (this.layer) this.layer.colorTheme = theme; }
+  // per-selection colour themes on top of the active one (colorSelection)
+  private get colorOverrides(): ColorOverride[] { return this.active?.colorOverrides ?? []; }
+  private set colorOverrides(overrides: ColorOverride[]) { if (this.active) this.active.colorOverrides = overrides; }
+  // atoms left out of every representation (hide / show)
+  private get hidden(): AtomSelection | undefined { return this.active?.hidden; }
+  private set hidden(hidden: AtomSelection | undefined) { if (this.active) this.active.hidden = hidden; }
+  // binding-pocket focus: ligand residue index
+  private get focusedLigand(): number | undefined { return this.active?.focusedLigand; }
+  private set focusedLigand(residue: number | undefined) { if (this.active) this.active.focusedLigand = residue; }
+  private get moleculeScale(): number { return this.active?.scale ?? 1; }
+  private set moleculeScale(scale: number) { if (this.active) this.active.scale = scale; }
+
   /** Dispose geometries & materials of a molecule group to free GPU memory. */
   private disposeGroup(group: THREE.Group) {
     group.traverse((obj) => {
-      if ((obj as THREE.Mesh).isMesh) {
+      // meshes, line segments and point clouds all own a geometry + material
+      if ((obj as THREE.Mesh).isMesh || (obj as THREE.Line).isLine || (obj as THREE.Points).isPoints) {
         const mesh = obj as THREE.Mesh;
         mesh.geometry.dispose();
         if (Array.isArray(mesh.material)) {
@@ -101,6 +217,7 @@ export class ConfinedSpaceXR {
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
     this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.xr.enabled = true;
+    this.renderer.localClippingEnabled = true;
 
     this.setupControllers();
     document.body.appendChild(this.renderer.domElement);
@@ -111,6 +228,11 @@ export class ConfinedSpaceXR {
     this.walk = new PointerLockControls(this.camera, document.body);
 
     window.addEventListener('keydown', (e) => {
+      // typing into a focused panel text field
+      if (this.panels.handleKey(e.key)) {
+        e.preventDefault();
+        return;
+      }
       if (e.key === 't') {
         this.toggleControls();
       }
@@ -150,8 +272,21 @@ export class ConfinedSpaceXR {
     this.renderer.domElement.addEventListener('pointermove', (ev) => {
       this.mouse.set((ev.clientX / window.innerWidth) * 2 - 1, -(ev.clientY / window.innerHeight) * 2 + 1);
     });
+    this.renderer.domElement.addEventListener('pointerdown', () => this.startClipDrag());
+    this.renderer.domElement.addEventListener('pointermove', () => this.moveClipDrag());
+    this.renderer.domElement.addEventListener('pointerup', () => this.endClipDrag());
     this.renderer.domElement.addEventListener('click', () => {
+      // a plane drag ends in a click that should not pick anything
+      if (this.clipDragged) {
+        this.clipDragged = false;
+        return;
+      }
+      // open panels get first chance at the click (desktop has no controller select)
+      if (this.panels.handleSelect()) return;
       this.menu.select();
+      this.raycaster.setFromCamera(this.mouse, this.camera);
+      if (this.measuring) this.addMeasurementPick();
+      else this.pickResidueUnderRay();
     });
 
     // simple env
@@ -161,24 +296,19 @@ export class ConfinedSpaceXR {
     const floor = new THREE.GridHelper(20, 20, 0x444444, 0x444444);
     this.scene.add(floor);
 
-    // pedestal placeholder
-    const pedestal = new THREE.Mesh(
-      new THREE.CylinderGeometry(1, 1, 0.2, 32),
-      new THREE.MeshStandardMaterial({ color: 0x993333 })
-    );
-    pedestal.position.y = 0.1;
-    this.scene.add(pedestal);
+    // pedestal placeholder; structures loaded alongside get pedestals of their own
+    this.scene.add(this.createPedestal(0));
 
     // menu – attach to user rig so it follows the player
     this.menu = new RadialMenu();
-    // Scale radial menu down slightly for less intrusive size
-    this.menu.object3d.scale.setScalar(0.8);
+    // Scale radial menu down slightly for less intrusive size (Settings → Display)
+    this.menu.object3d.scale.setScalar(this.settings.menuScale);
     // Remove from previous parent if any (safety)
     if (this.menu.object3d.parent) {
       this.menu.object3d.parent.remove(this.menu.object3d);
     }
     this.menu.object3d.position.set(0, 0.07, -0.15); // default offset when anchored to wrist
-    this.userRig.add(this.menu.object3d); // temporary parent until left grip detected
+    this.userRig.add(this.menu.object3d); // temporary parent until the menu hand's grip is detected
 
     // initialise panel manager
     this.panels = new UIPanelManager(this.camera, this.scene);
@@ -193,6 +323,152 @@ export class ConfinedSpaceXR {
       this.menu.object3d.visible = true;
     };
 
+    // preferences: applied as they change and saved for the next session
+    const settingsPanel = this.panels.getSettingsPanel();
+    settingsPanel.onChange = (patch) => this.updateSettings(patch);
+    settingsPanel.onReset = () => this.updateSettings({ ...DEFAULT_SETTINGS, colorTheme: undefined });
+
+    // representation layer stack & colour themes
+    const visualsPanel = this.panels.getVisualsPanel();
+    visualsPanel.onSelectLayer = (index) => this.selectLayer(index);
+    visualsPanel.onToggleLayer = (index) => this.setLayerVisible(index, !this.active?.layers[index]?.visible);
+    visualsPanel.onRemoveLayer = (index) => this.removeLayer(index);
+    visualsPanel.onNextSelection = () => this.cycleLayerSelection();
+    visualsPanel.setStyles(this.repLabels);
+    visualsPanel.onStyle = (index) => this.setRepresentation(index);
+    visualsPanel.onTheme = (theme) => this.setColorTheme(theme);
+    visualsPanel.onRadius = (scale) => this.setRadiusScale(scale);
+    visualsPanel.onAddLayer = () => this.addNextLayer();
+    visualsPanel.onPreset = () => this.applyLayerPreset();
+    visualsPanel.onToggleInteractions = () => this.toggleInteractions();
+
+    // picked-atom info card; the highlight goes away with the card
+    this.atomHighlight = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 16, 16),
+      new THREE.MeshBasicMaterial({ color: 0xffff00, transparent: true, opacity: 0.45, depthTest: false })
+    );
+    this.atomHighlight.renderOrder = 998;
+    this.atomHighlight.visible = false;
+    this.scene.add(this.atomHighlight);
+    this.panels.getAtomInfoPanel().onHide = () => {
+      this.highlightedAtom = -1;
+    };
+
+    // measurement mode lasts as long as its panel is open
+    this.scene.add(this.measurements.object3d);
+    const measurePanel = this.panels.getMeasurementPanel();
+    measurePanel.onKind = (kind) => {
+      this.measurements.setKind(kind);
+      this.updateMeasurementPanel();
+    };
+    measurePanel.onRemove = (id) => {
+      this.measurements.remove(id);
+      this.updateMeasurementPanel();
+    };
+    measurePanel.onClear = () => {
+      this.measurements.clear();
+      this.updateMeasurementPanel();
+    };
+    measurePanel.onHide = () => {
+      this.measuring = false;
+      this.measurements.cancelPending();
+    };
+
+    // ligand list and binding-pocket focus
+    const ligandPanel = this.panels.getLigandPanel();
+    ligandPanel.onSelect = (index) => {
+      const ligand = this.getStructure() && findLigands(this.getStructure()!)[index];
+      if (ligand) this.focusLigand(ligand.index);
+    };
+    ligandPanel.onRadius = (delta) => {
+      const [min, max] = this.POCKET_RADIUS_RANGE;
+      this.pocketRadius = THREE.MathUtils.clamp(this.pocketRadius + delta, min, max);
+      if (this.focusedLigand !== undefined) this.focusLigand(this.focusedLigand);
+      else this.updateLigandPanel();
+    };
+    ligandPanel.onExit = () => this.exitLigandFocus();
+
+    // sequence strip: a panel in XR, an HTML strip on desktop; both linked to the 3D view
+    this.residueHighlight = new THREE.InstancedMesh(
+      new THREE.SphereGeometry(1, 12, 12),
+      new THREE.MeshBasicMaterial({ color: 0x33ccff, transparent: true, opacity: 0.35, depthTest: false }),
+      64
+    );
+    this.residueHighlight.renderOrder = 998;
+    this.residueHighlight.raycast = () => {};
+    this.residueHighlight.visible = false;
+    this.scene.add(this.residueHighlight);
+    const sequencePanel = this.panels.getSequencePanel();
+    this.sequenceStrip = new SequenceStrip();
+    sequencePanel.onHover = this.sequenceStrip.onHover = (residue) => {
+      this.hoveredResidue = residue;
+    };
+    sequencePanel.onPick = this.sequenceStrip.onPick = (residue) => this.pickResidue(residue);
+    this.renderer.xr.addEventListener('sessionstart', () => this.sequenceStrip.setEnabled(false));
+    // hold the headset's refresh rate (72 Hz unless it reports one) in XR, 60 Hz on desktop
+    this.renderer.xr.addEventListener('sessionstart', () => this.quality.setTargetRate(this.renderer.xr.getSession()?.frameRate ?? 72));
+    this.renderer.xr.addEventListener('sessionend', () => this.quality.setTargetRate(60));
+    this.quality.onChange = () => {
+      this.detailRebuilds = [...this.registry.all];
+    };
+    this.quality.rebuildCost = (level) => Math.max(0, ...this.registry.all.map((e) => this.predictBuildTime(e, level)));
+    this.renderer.xr.addEventListener('sessionend', () => this.sequenceStrip.setEnabled(true));
+
+    // loaded structures
+    const structuresPanel = this.panels.getStructuresPanel();
+    structuresPanel.onActivate = (id) => this.activateStructure(id);
+    structuresPanel.onToggleVisible = (id) => this.toggleStructureVisible(id);
+    structuresPanel.onFocus = (id) => this.focusStructure(id);
+    structuresPanel.onRemove = (id) => this.removeStructure(id);
+    structuresPanel.onResetPlacement = () => this.resetPlacement();
+    structuresPanel.onToggleAutoRotate = () => this.setAutoRotate(!this.settings.autoRotate);
+
+    // clipping planes and slab
+    this.scene.add(this.clipping.object3d);
+    const clippingPanel = this.panels.getClippingPanel();
+    clippingPanel.onAddPlane = () => this.addClipPlane();
+    clippingPanel.onRemovePlane = () => {
+      this.clipping.removeLastPlane();
+      this.updateClippingPanel();
+    };
+    clippingPanel.onToggleSlab = () => this.toggleSlab();
+    clippingPanel.onThickness = (delta) => {
+      this.clipping.setSlabThickness(this.clipping.slabThickness + delta * this.SLAB_STEP);
+      this.updateClippingPanel();
+    };
+
+    // superposition of the active structure onto another
+    const superpositionPanel = this.panels.getSuperpositionPanel();
+    superpositionPanel.onNextTarget = () => this.nextSuperposeTarget();
+    superpositionPanel.onSuperpose = () => {
+      const target = this.superposeTarget();
+      if (this.active && target) this.superpose(this.active.id, target.id);
+    };
+    superpositionPanel.onToggleDeviation = () => this.toggleDeviationColoring();
+    superpositionPanel.onReset = () => this.resetSuperposition();
+
+    // NMR ensemble playback
+    const modelPanel = this.panels.getModelPanel();
+    modelPanel.onPrev = () => this.showModel(this.modelIndex - 1);
+    modelPanel.onNext = () => this.showModel(this.modelIndex + 1);
+    modelPanel.onTogglePlay = () => {
+      if (this.modelPlaying) this.stopModelPlayback();
+      else this.modelPlaying = !!this.models && this.models.length > 1;
+      if (this.modelPlaying && this.showEnsemble) {
+        this.showEnsemble = false;
+        this.rebuildMolecule();
+      }
+      this.updateModelPanel();
+    };
+    modelPanel.onToggleEnsemble = () => {
+      if (!this.models) return;
+      this.exitLigandFocus();
+      this.showEnsemble = !this.showEnsemble;
+      this.modelPlaying = false;
+      this.rebuildMolecule();
+      this.updateModelPanel();
+    };
+
     // Panels are now managed by UIPanelManager
     /*([
       'WebXR Molecule Viewer',
@@ -249,13 +525,42 @@ export class ConfinedSpaceXR {
 
     // keyboard toggle for menu visibility
     window.addEventListener('keydown', (e) => {
-      if (e.code === 'KeyM') this.toggleMenu();
+      if (e.code === 'KeyM' && !e.defaultPrevented) this.toggleMenu();
     });
 
     // link menu actions using panel manager
     this.menu.setAction('Help', () => this.panels.toggle('help'));
-    this.menu.setAction('Settings', () => this.panels.toggle('settings'));
-    this.menu.setAction('Visuals', () => this.cycleRepresentation());
+    this.menu.setAction('Settings', () => {
+      this.updateSettingsPanel();
+      this.panels.toggle('settings');
+    });
+    this.menu.setAction('Visuals', () => {
+      this.updateVisualsPanel();
+      this.panels.toggle('visuals');
+    });
+    this.menu.setAction('Models', () => this.panels.toggle('models'));
+    this.menu.setAction('Measure', () => {
+      this.measuring = this.panels.toggle('measure');
+      this.updateMeasurementPanel();
+    });
+    this.menu.setAction('Ligands', () => {
+      this.updateLigandPanel();
+      this.panels.toggle('ligands');
+    });
+    this.menu.setAction('Sequence', () => this.panels.toggle('sequence'));
+    this.menu.setAction('Structures', () => {
+      this.updateStructuresPanel();
+      this.panels.toggle('structures');
+    });
+    this.menu.setAction('Superpose', () => {
+      this.updateSuperpositionPanel();
+      this.panels.toggle('superpose');
+    });
+    this.menu.setAction('Clipping', () => {
+      this.updateClippingPanel();
+      this.panels.toggle('clipping');
+    });
+    this.menu.setAction('Slab', () => this.toggleSlab());
     this.menu.setAction('Load', () => {
       if (this.renderer.xr.isPresenting) {
         const opened = this.panels.toggle('pdbInput');
@@ -286,62 +591,1212 @@ export class ConfinedSpaceXR {
   public async loadPdbId(pdb: string, broadcast = false) {
     // TODO: validate input
     try {
-      const { atoms, group } = await loadPDB(pdb.trim());
-      if (this.moleculeGroup) {
-      this.disposeGroup(this.moleculeGroup);
-      this.scene.remove(this.moleculeGroup);
-    }
-      this.moleculeGroup = group;
-      this.atoms = atoms;
-      this.repIndex = 0;
-
-    // reset any prior offset so centering is handled consistently
-    group.position.set(0, 0, 0);
-
-    // 1) Uniformly scale so the molecule fits within ~1 unit height.
-      let bbox = new THREE.Box3().setFromObject(group);
-      const height = bbox.max.y - bbox.min.y;
-      this.moleculeScale = height > 0 ? 1 / height : 1;
-      group.scale.setScalar(this.moleculeScale);
-
-      // 2) Recompute bounds after scaling to obtain accurate center/min values.
-      group.updateMatrixWorld(true);
-      bbox = new THREE.Box3().setFromObject(group);
-      const center = new THREE.Vector3();
-      bbox.getCenter(center);
-      const minY = bbox.min.y;
-
-      // 3) Position so X/Z center aligns with world origin and base sits at y=1 (pedestal top)
-      group.position.set(-center.x, 1 - minY, -center.z);
+      // the worker builds the structure straight in the preferred style
+      const preferred = Math.max(0, this.repLabels.indexOf(this.settings.representation));
+      const style: InitialStyle = { rep: preferred, colorTheme: this.settings.colorTheme, detail: this.quality.level };
+      const { atoms, models, structure, bonds, secondary, sequences, group, buildTime } = await this.loader.load(pdb.trim(), style, (stage, fraction) => {
+        const percent = fraction !== undefined ? ` ${Math.round(fraction * 100)}%` : '';
+        this.loadOverlay.showProgress(`Loading ${pdb} – ${stage}${percent}`);
+      });
+      this.loadOverlay.hideProgress();
+      // the new structure becomes active; playback of the current one ends here
+      this.stopModelPlayback();
+      // make room on the pedestals: the oldest structure goes
+      if (this.registry.all.length >= MAX_STRUCTURES) this.removeStructure(this.registry.all[0].id);
+      const entry = this.registry.add({ name: pdb.trim().toUpperCase(), group, atoms, models, structure, bonds, secondary, sequences });
+      if (buildTime !== undefined) entry.buildTimes[style.detail] = buildTime;
+      setGroupClipping(group, this.clipping.planes);
+      // record the style the worker built (see buildInitialRepresentation)
+      const layer = entry.layers[0];
+      layer.rep = initialRepresentation(preferred, atoms.length);
+      layer.colorTheme = this.settings.colorTheme;
+      // the level of detail changed while loading
+      if (style.detail !== this.quality.level) this.rebuildMolecule(entry);
 
-      this.scene.add(group);
+      this.placeOnPedestal(entry.group);
+      this.scene.add(entry.group);
+      this.updatePedestals();
+      this.activateStructure(entry.id);
 
     if (broadcast) {
       this.network.sendMessage(JSON.stringify({ type: 'load', pdbId: pdb }));
     }
       console.log(`Loaded ${pdb}`);
     } catch (err) {
+      // superseded by a newer load, which now owns the progress display
+      if (err instanceof LoadCancelledError) return;
+      this.loadOverlay.hideProgress();
       console.error(err);
       console.warn('Failed to load PDB');
     }
   }
 
-  private cycleRepresentation() {
+  /**
+   * Make a structure the one panels, picking and overlays act on (or refresh
+   * them for whatever the registry holds as active when `id` is omitted).
+   * Measurements, interactions and the info card refer to atoms of the
+   * previous structure, so they are cleared.
+   */
+  public activateStructure(id?: number) {
+    this.stopModelPlayback();
+    if (id !== undefined) this.registry.setActive(id);
+    this.panels.getAtomInfoPanel().hide();
+    this.measurements.clear();
+    this.measurements.setAtoms(this.atoms ?? []);
+    this.updateMeasurementPanel();
+    this.hideInteractions();
+    this.updateModelPanel();
+    this.updateVisualsPanel();
+    this.updateLigandPanel();
+    this.updateSequences();
+    this.updateStructuresPanel();
+    this.updateSuperpositionPanel();
+  }
+
+  /** Take a structure out of the scene; when it was active, the latest remaining one takes over. */
+  public removeStructure(id: number) {
+    const wasActive = this.active?.id === id;
+    const entry = this.registry.remove(id);
+    if (!entry) return;
+    this.releaseGrabs(entry);
+    if (this.transitionNew === entry.group) this.finishTransition();
+    this.disposeGroup(entry.group);
+    this.scene.remove(entry.group);
+    this.updatePedestals();
+    if (this.superposition && (this.superposition.mobileId === id || this.superposition.targetId === id)) {
+      this.superposition = undefined;
+    }
+    if (wasActive) this.activateStructure();
+    else {
+      this.updateStructuresPanel();
+      this.updateSuperpositionPanel();
+    }
+  }
+
+  private toggleStructureVisible(id: number) {
+    const entry = this.registry.get(id);
+    if (!entry) return;
+    entry.visible = !entry.visible;
+    entry.group.visible = entry.visible;
+    this.updateStructuresPanel();
+  }
+
+  /** Activate a structure, make sure it is shown and turn the view towards it. */
+  private focusStructure(id: number) {
+    const entry = this.registry.get(id);
+    if (!entry) return;
+    if (entry !== this.active) this.activateStructure(id);
+    if (!entry.visible) this.toggleStructureVisible(id);
+    this.focus('all');
+  }
+
+  private updateStructuresPanel() {
+    const active = this.active;
+    const rows = this.registry.all.map((e) => ({ id: e.id, label: e.name, visible: e.visible, active: e === active }));
+    this.panels.getStructuresPanel().setState(rows, this.settings.autoRotate);
+  }
+
+  /** Turn the idle spin of loaded structures on or off. */
+  public setAutoRotate(on: boolean) {
+    this.updateSettings({ autoRotate: on });
+  }
+
+  /** Change preferences, save them and apply them to the running scene. */
+  public updateSettings(patch: Partial<Settings>) {
+    this.settings = { ...this.settings, ...patch };
+    saveSettings(this.settings);
+    this.menu.object3d.scale.setScalar(this.settings.menuScale);
+    if (patch.dominantHand) this.assignHands();
+    this.updateSettingsPanel();
+    this.updateStructuresPanel();
+  }
+
+  private updateSettingsPanel() {
+    this.panels.getSettingsPanel().setState(this.settings, this.repLabels);
+  }
+
+  /**
+   * Give the wrist menu to the non-dominant hand and picking / the context
+   * menu to the dominant one, from the handedness of the connected
+   * controllers. Without a menu hand the menu stays on the rig.
+   */
+  private assignHands() {
+    this.menuController = this.menuGrip = this.pointerController = undefined;
+    for (const controller of this.controllers) {
+      const hand = (controller.userData.inputSource as XRInputSource | undefined)?.handedness;
+      if (hand === this.settings.dominantHand) {
+        this.pointerController = controller;
+      } else if (hand === 'left' || hand === 'right') {
+        this.menuController = controller;
+        this.menuGrip = controller.userData.grip;
+      }
+    }
+    const parent = this.menuGrip ?? this.userRig;
+    if (this.menu.object3d.parent === parent) return;
+    // move menu to wrist (or back to the rig), hidden until the grip is squeezed
+    parent.add(this.menu.object3d);
+    this.menu.object3d.position.set(0, 0.07, -0.15);
+    if (this.menuGrip) {
+      this.menu.object3d.visible = false;
+      this.menu.setOpacity(0);
+      this.menuVisible = false;
+    }
+  }
+
+  /** Put the active structure back on its pedestal, upright and at its fitted scale. */
+  public resetPlacement() {
+    const entry = this.active;
+    if (!entry) return;
+    this.releaseGrabs(entry);
+    entry.group.quaternion.identity();
+    this.placeOnPedestal(entry.group, entry.group.children.find((c) => c.userData.focus));
+  }
+
+  /* ------------ squeeze-to-grab ------------ */
+
+  /**
+   * Structure a controller would grab: one whose bounds contain the hand,
+   * else the nearest one hit by its ray. A superposed structure hands over
+   * to its target so the pair moves together.
+   */
+  private grabbableAt(controller: THREE.Object3D): StructureEntry | undefined {
+    const visible = this.registry.all.filter((e) => e.group.visible);
+    const hand = controller.getWorldPosition(new THREE.Vector3());
+    let entry = visible.find((e) => new THREE.Box3().setFromObject(e.group).expandByScalar(0.05).containsPoint(hand));
+    if (!entry) {
+      this.setRayFromController(controller);
+      this.raycaster.params.Points.threshold = 0.01;
+      this.raycaster.params.Line.threshold = 0.01;
+      const hit = bestHit(this.raycaster.intersectObjects(visible.map((e) => e.group), true));
+      entry = hit && visible.find((e) => {
+        let obj: THREE.Object3D | null = hit.object;
+        while (obj && obj !== e.group) obj = obj.parent;
+        return !!obj;
+      });
+    }
+    const target = entry?.superposedOn && this.registry.get(entry.superposedOn.targetId);
+    return target ?? entry;
+  }
+
+  /** Start holding whatever is under the controller; false when there is nothing to grab. */
+  private startGrab(controller: THREE.Object3D): boolean {
+    // clipping plane knobs take precedence over the structures they cut
+    const hand = controller.getWorldPosition(new THREE.Vector3());
+    this.setRayFromController(controller);
+    const handle = this.clipping.handleNear(hand, 0.08) ?? this.clipping.handleAt(this.raycaster);
+    if (handle) {
+      controller.updateMatrixWorld();
+      handle.updateMatrix();
+      this.handleGrabs.set(controller, { handle, offset: controller.matrixWorld.clone().invert().multiply(handle.matrix) });
+      return true;
+    }
+    const entry = this.grabbableAt(controller);
+    if (!entry) return false;
+    this.grabs.set(controller, { entry, offset: new THREE.Matrix4() });
+    this.resetGrabOffsets(entry);
+    return true;
+  }
+
+  /** Let go with one controller; false when it was not holding anything. */
+  private endGrab(controller: THREE.Object3D): boolean {
+    if (this.handleGrabs.delete(controller)) return true;
+    const grab = this.grabs.get(controller);
+    if (!grab) return false;
+    this.grabs.delete(controller);
+    this.resetGrabOffsets(grab.entry);
+    return true;
+  }
+
+  /** Drop every hold on a structure, e.g. before it is removed or reset. */
+  private releaseGrabs(entry: StructureEntry) {
+    for (const [controller, grab] of this.grabs) {
+      if (grab.entry === entry) this.grabs.delete(controller);
+    }
+    if (this.pinch?.entry === entry) this.pinch = undefined;
+  }
+
+  /**
+   * Re-anchor the hands holding a structure after one closes or opens, so the
+   * structure does not jump: one hand keeps its hand → group offset, two
+   * hands start a new pinch from the current pose.
+   */
+  private resetGrabOffsets(entry: StructureEntry) {
+    const hands = [...this.grabs].filter(([, g]) => g.entry === entry);
+    entry.group.updateMatrix();
+    for (const [controller, grab] of hands) {
+      controller.updateMatrixWorld();
+      grab.offset.copy(controller.matrixWorld).invert().multiply(entry.group.matrix);
+    }
+    if (this.pinch?.entry === entry) this.pinch = undefined;
+    if (hands.length === 2) {
+      const { frame, distance } = this.pinchFrame(hands[0][0], hands[1][0]);
+      this.pinch = { entry, frame: frame.invert(), distance, start: entry.group.matrix.clone() };
+    }
+  }
+
+  /**
+   * Frame at the midpoint between two hands: +X along the line joining them,
+   * +Y the hands' mean up direction made perpendicular to it, so twisting
+   * both hands about that line turns the frame too. A full basis (rather
+   * than the shortest arc from +X) keeps the frame continuous whichever way
+   * the line points.
+   */
+  private pinchFrame(a: THREE.Object3D, b: THREE.Object3D): { frame: THREE.Matrix4; distance: number } {
+    const pa = a.getWorldPosition(new THREE.Vector3());
+    const pb = b.getWorldPosition(new THREE.Vector3());
+    const x = pb.clone().sub(pa);
+    const distance = x.length();
+    x.divideScalar(Math.max(distance, 1e-6));
+    const qa = a.getWorldQuaternion(new THREE.Quaternion());
+    const qb = b.getWorldQuaternion(new THREE.Quaternion());
+    const meanAxis = (v: THREE.Vector3) => v.clone().applyQuaternion(qa).add(v.clone().applyQuaternion(qb));
+    let y = meanAxis(new THREE.Vector3(0, 1, 0));
+    y.addScaledVector(x, -y.dot(x));
+    // controllers pointing up / down along the hand line: use their mean forward instead
+    if (y.lengthSq() < 1e-6) {
+      y = meanAxis(new THREE.Vector3(0, 0, -1));
+      y.addScaledVector(x, -y.dot(x));
+    }
+    if (y.lengthSq() < 1e-6) {
+      y.set(Math.abs(x.y) < 0.9 ? 0 : 1, Math.abs(x.y) < 0.9 ? 1 : 0, 0);
+      y.addScaledVector(x, -y.dot(x));
+    }
+    y.normalize();
+    const z = new THREE.Vector3().crossVectors(x, y);
+    const frame = new THREE.Matrix4().makeBasis(x, y, z).setPosition(pa.add(pb).multiplyScalar(0.5));
+    return { frame, distance };
+  }
+
+  /**
+   * Move held structures with the hands each frame: one hand carries the
+   * structure rigidly, two hands rotate it with the frame they span (see
+   * pinchFrame()) and scale it about their midpoint by how far they have
+   * moved apart.
+   */
+  private updateGrabs() {
+    const pose = new THREE.Matrix4();
+    const done = new Set<StructureEntry>();
+    for (const [controller, { entry, offset }] of this.grabs) {
+      if (done.has(entry)) continue;
+      done.add(entry);
+      const pinch = this.pinch?.entry === entry ? this.pinch : undefined;
+      if (pinch) {
+        const hands = [...this.grabs].filter(([, g]) => g.entry === entry).map(([c]) => c);
+        const { frame, distance } = this.pinchFrame(hands[0], hands[1]);
+        const startScale = new THREE.Vector3().setFromMatrixScale(pinch.start).x;
+        const [min, max] = this.GRAB_SCALE_RANGE;
+        const scale = THREE.MathUtils.clamp((startScale * distance) / Math.max(pinch.distance, 1e-3), min * entry.scale, max * entry.scale);
+        frame.scale(new THREE.Vector3().setScalar(scale / startScale));
+        pose.copy(frame).multiply(pinch.frame).multiply(pinch.start);
+      } else {
+        controller.updateWorldMatrix(true, false);
+        pose.copy(controller.matrixWorld).multiply(offset);
+      }
+      pose.decompose(entry.group.position, entry.group.quaternion, entry.group.scale);
+    }
+    // clipping plane handles are carried rigidly by one hand
+    for (const [controller, { handle, offset }] of this.handleGrabs) {
+      controller.updateWorldMatrix(true, false);
+      pose.copy(controller.matrixWorld).multiply(offset);
+      pose.decompose(handle.position, handle.quaternion, handle.scale);
+    }
+  }
+
+  /* ------------ clipping ------------ */
+
+  /**
+   * New plane through the centre of the active structure (1 m ahead without
+   * one), facing away from the viewer so the near half is cut off.
+   */
+  private addClipPlane() {
+    const eye = this.camera.getWorldPosition(new THREE.Vector3());
+    const forward = this.camera.getWorldDirection(new THREE.Vector3());
+    const point = this.moleculeGroup?.visible
+      ? new THREE.Box3().setFromObject(this.moleculeGroup).getCenter(new THREE.Vector3())
+      : eye.clone().add(forward);
+    this.clipping.addPlane(point, point.clone().sub(eye));
+    this.updateClippingPanel();
+  }
+
+  /** Slab on (centred on the active structure, else 1 m ahead) or off. */
+  private toggleSlab() {
+    if (this.clipping.slabEnabled) {
+      this.clipping.setSlab(false);
+    } else {
+      const eye = this.camera.getWorldPosition(new THREE.Vector3());
+      const center = this.moleculeGroup?.visible
+        ? new THREE.Box3().setFromObject(this.moleculeGroup).getCenter(new THREE.Vector3())
+        : undefined;
+      this.clipping.setSlab(true, center ? center.distanceTo(eye) : 1);
+    }
+    this.updateClippingPanel();
+  }
+
+  private updateClippingPanel() {
+    this.panels.getClippingPanel().setState(this.clipping.planeCount, this.clipping.slabEnabled, this.clipping.slabThickness);
+  }
+
+  /** Desktop: a press on a plane handle starts sliding it along its normal instead of orbiting. */
+  private startClipDrag() {
+    if (this.renderer.xr.isPresenting) return;
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+    const handle = this.clipping.handleAt(this.raycaster);
+    if (!handle) return;
+    this.clipDrag = { handle, start: handle.position.clone(), along: this.alongClipNormal(handle, handle.position) };
+    this.orbit.enabled = false;
+  }
+
+  private moveClipDrag() {
+    const drag = this.clipDrag;
+    if (!drag) return;
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+    const along = this.alongClipNormal(drag.handle, drag.start);
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(drag.handle.quaternion);
+    drag.handle.position.copy(drag.start).addScaledVector(normal, along - drag.along);
+    this.clipDragged = true;
+  }
+
+  private endClipDrag() {
+    if (!this.clipDrag) return;
+    this.clipDrag = undefined;
+    this.orbit.enabled = this.useOrbit;
+  }
+
+  /**
+   * Position along the line through `origin` in a handle's normal direction
+   * that comes closest to the current pointer ray.
+   */
+  private alongClipNormal(handle: THREE.Object3D, origin: THREE.Vector3): number {
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(handle.quaternion);
+    const { origin: o, direction: d } = this.raycaster.ray;
+    const w = o.clone().sub(origin);
+    const dn = d.dot(normal);
+    const denom = 1 - dn * dn;
+    // ray (nearly) along the normal: no well-defined closest point
+    if (denom < 1e-6) return 0;
+    return (w.dot(normal) - dn * w.dot(d)) / denom;
+  }
+
+  /**
+   * Superpose one structure onto another by their Cα atoms (see superpose()
+   * in Superposition.ts). The mobile structure then follows the target's
+   * transform, and both get per-residue deviations for the 'deviation'
+   * colour theme. Returns undefined when the selections share too few
+   * aligned residues.
+   */
+  public superpose(mobileId: number, targetId: number, mobileSelection: SelectionLike = 'polymer', targetSelection: SelectionLike = 'polymer'): SuperpositionResult | undefined {
+    const mobile = this.registry.get(mobileId);
+    const target = this.registry.get(targetId);
+    if (!mobile || !target || mobile === target) return undefined;
+    const a = this.getStructure(mobile)!;
+    const b = this.getStructure(target)!;
+    let result: SuperpositionResult;
+    try {
+      result = superpose(a, resolveSelection(a.atoms, mobileSelection, a), b, resolveSelection(b.atoms, targetSelection, b));
+    } catch (err) {
+      if (!(err instanceof SuperpositionError)) throw err;
+      console.warn(err.message);
+      this.superposition = { mobileId, targetId, error: err.message };
+      this.updateSuperpositionPanel();
+      return undefined;
+    }
+    mobile.superposedOn = { targetId, transform: result.transform };
+    // a structure cannot follow the one following it
+    if (target.superposedOn?.targetId === mobileId) target.superposedOn = undefined;
+    mobile.deviation = residueDeviation(a.residues.length, result.pairs, 'mobile');
+    target.deviation = residueDeviation(b.residues.length, result.pairs, 'target');
+    for (const entry of [mobile, target]) {
+      if (entry.layers.some((l) => l.colorTheme === 'deviation')) this.rebuildMolecule(entry);
+    }
+    this.superposition = { mobileId, targetId, result };
+    this.updateVisualsPanel();
+    this.updateSuperpositionPanel();
+    return result;
+  }
+
+  /** Target the panel superposes the active structure onto: the chosen one, else the first other structure. */
+  private superposeTarget(): StructureEntry | undefined {
+    const others = this.registry.all.filter((e) => e !== this.active);
+    return others.find((e) => e.id === this.superposeTargetId) ?? others[0];
+  }
+
+  private nextSuperposeTarget() {
+    const others = this.registry.all.filter((e) => e !== this.active);
+    if (!others.length) return;
+    const current = others.indexOf(this.superposeTarget()!);
+    this.superposeTargetId = others[(current + 1) % others.length].id;
+    this.updateSuperpositionPanel();
+  }
+
+  /**
+   * Colour every layer of both structures of the last superposition by
+   * deviation, or back to the themes they had before (layers given another
+   * theme in the meantime keep it).
+   */
+  private toggleDeviationColoring() {
+    const fit = this.superposition?.result && this.superposition;
+    if (!fit) return;
+    const entries = [this.registry.get(fit.mobileId), this.registry.get(fit.targetId)];
+    const on = entries.some((e) => e?.layers.some((l) => l.colorTheme !== 'deviation'));
+    for (const entry of entries) {
+      if (!entry) continue;
+      if (on) {
+        entry.themesBeforeDeviation ??= new Map();
+        for (const layer of entry.layers) {
+          if (layer.colorTheme !== 'deviation') entry.themesBeforeDeviation.set(layer, layer.colorTheme);
+          layer.colorTheme = 'deviation';
+        }
+      } else {
+        for (const layer of entry.layers) {
+          if (layer.colorTheme === 'deviation') layer.colorTheme = entry.themesBeforeDeviation?.get(layer);
+        }
+        entry.themesBeforeDeviation = undefined;
+      }
+      this.rebuildMolecule(entry);
+    }
+    this.updateVisualsPanel();
+    this.updateSuperpositionPanel();
+  }
+
+  /** Undo the active structure's superposition and put it back on its own pedestal. */
+  private resetSuperposition() {
+    const entry = this.active;
+    if (!entry?.superposedOn) return;
+    if (this.superposition?.mobileId === entry.id) this.superposition = undefined;
+    this.resetPlacement();
+    this.updateSuperpositionPanel();
+  }
+
+  private updateSuperpositionPanel() {
+    const mobile = this.active;
+    const fit = this.superposition?.mobileId === mobile?.id ? this.superposition : undefined;
+    const target = fit ? this.registry.get(fit.targetId) : this.superposeTarget();
+    this.panels.getSuperpositionPanel().setState({
+      mobile: mobile?.name,
+      target: target?.name,
+      rmsd: fit?.result?.rmsd,
+      aligned: fit?.result?.pairs.length,
+      identity: fit?.result?.identity,
+      error: fit?.error,
+      coloured: !!mobile?.layers.every((l) => l.colorTheme === 'deviation'),
+    });
+  }
+
+  private createPedestal(slot: number): THREE.Mesh {
+    const pedestal = new THREE.Mesh(
+      new THREE.CylinderGeometry(1, 1, 0.2, 32),
+      new THREE.MeshStandardMaterial({ color: 0x993333 })
+    );
+    pedestal.position.copy(slotPosition(slot));
+    pedestal.position.y = 0.1;
+    return pedestal;
+  }
+
+  /** Side pedestals only stand where a structure does; the central one always stays. */
+  private updatePedestals() {
+    const used = new Set(this.registry.all.map((e) => e.slot));
+    for (let slot = 1; slot < MAX_STRUCTURES; slot++) {
+      if (!this.pedestals[slot] && used.has(slot)) {
+        this.pedestals[slot] = this.createPedestal(slot);
+        this.scene.add(this.pedestals[slot]);
+      }
+      if (this.pedestals[slot]) this.pedestals[slot].visible = used.has(slot);
+    }
+  }
+
+  /**
+   * Scale `group` so that `focus` (the whole group by default) is ~1 unit
+   * high, then centre it on the active structure's pedestal: X/Z centre over
+   * the pedestal and its base at y=1 (pedestal top).
+   */
+  private placeOnPedestal(group: THREE.Group, focus: THREE.Object3D = group) {
+    // standing on its own pedestal ends any superposition
+    if (this.active) this.active.superposedOn = undefined;
+    // reset any prior offset and scale so centering is handled consistently
+    group.position.set(0, 0, 0);
+    group.scale.setScalar(1);
+    group.updateMatrixWorld(true);
+
+    // 1) Uniformly scale so the focus fits within ~1 unit height.
+    let bbox = new THREE.Box3().setFromObject(focus);
+    const height = bbox.max.y - bbox.min.y;
+    this.moleculeScale = height > 0 ? 1 / height : 1;
+    group.scale.setScalar(this.moleculeScale);
+
+    // 2) Recompute bounds after scaling to obtain accurate center/min values.
+    group.updateMatrixWorld(true);
+    bbox = new THREE.Box3().setFromObject(focus);
+    const center = new THREE.Vector3();
+    bbox.getCenter(center);
+
+    // 3) Position so X/Z center aligns with the pedestal and base sits on its top
+    const anchor = slotPosition(this.active?.slot ?? 0);
+    group.position.set(anchor.x - center.x, anchor.y - bbox.min.y, anchor.z - center.z);
+  }
+
+  /**
+   * Draw the selected layer in representation `index`. The new group grows
+   * in where the old one stands, keeping its transform and the scale it was
+   * fitted to the pedestal with, so switching never re-centres or re-sizes.
+   */
+  private setRepresentation(index: number) {
     if (!this.atoms) {
       console.warn('Load a molecule first');
       return;
     }
-    this.repIndex = (this.repIndex + 1) % this.repBuilders.length;
-    // set up smooth transition
-    const builder = this.repBuilders[this.repIndex];
-    const newGroup = builder(this.atoms);
-    newGroup.position.set(0, 1, 0);
-    newGroup.scale.set(0.01 * this.moleculeScale, 0.01 * this.moleculeScale, 0.01 * this.moleculeScale);
+    if (!this.repBuilders[index] || index === this.repIndex) return;
+    // styles apply to the whole molecule, so leave pocket focus first
+    if (this.focusedLigand !== undefined) this.exitLigandFocus();
+    this.repIndex = index;
+    // a transition still running ends where it was heading
+    this.finishTransition();
+    const old = this.moleculeGroup!;
+    const newGroup = this.buildMolecule();
+    newGroup.position.copy(old.position);
+    newGroup.quaternion.copy(old.quaternion);
+    newGroup.scale.copy(old.scale).multiplyScalar(0.01);
+    newGroup.visible = old.visible;
     this.scene.add(newGroup);
-    this.transitionOld = this.moleculeGroup;
+    this.transitionOld = old;
     this.transitionNew = newGroup;
+    this.transitionScale = old.scale.x;
     this.transitionProgress = 0;
     this.moleculeGroup = newGroup;
+    this.updateVisualsPanel();
+  }
+
+  /** Drop the outgoing group of a representation switch and settle the new one at full size. */
+  private finishTransition() {
+    if (this.transitionOld) {
+      this.disposeGroup(this.transitionOld);
+      this.scene.remove(this.transitionOld);
+    }
+    this.transitionNew?.scale.setScalar(this.transitionScale);
+    this.transitionOld = undefined;
+    this.transitionNew = undefined;
+  }
+
+  /** Recolour the selected layer with `theme`. */
+  private setColorTheme(theme: ColorThemeId) {
+    if (!this.layer || theme === this.activeColorTheme()) return;
+    this.colorTheme = theme;
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** Sphere / bond radius factor of the selected layer, clamped to RADIUS_SCALE_RANGE. */
+  private setRadiusScale(scale: number) {
+    const layer = this.layer;
+    if (!layer) return;
+    layer.radiusScale = THREE.MathUtils.clamp(scale, RADIUS_SCALE_RANGE[0], RADIUS_SCALE_RANGE[1]);
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** Theme a layer is drawn in: the chosen one, else the default of its representation. */
+  private layerColorTheme(layer: RepresentationLayer): ColorThemeId {
+    return layer.colorTheme ?? defaultColorTheme(layer.rep);
+  }
+
+  /** Theme of a structure's selected layer (the active structure by default). */
+  private activeColorTheme(entry = this.active): ColorThemeId {
+    const layer = entry?.layers[entry.layerIndex];
+    return layer ? this.layerColorTheme(layer) : 'element';
+  }
+
+  /* ------------ representation layers ------------ */
+  /**
+   * Add a layer drawing `selection` of the active structure as representation
+   * `rep` (an index into the representation list) on top of the others, and
+   * select it for editing. Throws SelectionSyntaxError for malformed queries.
+   */
+  public addLayer(rep: number, selection: string, colorTheme?: ColorThemeId) {
+    const entry = this.active;
+    if (!entry) return;
+    // parse up front so a bad query fails here rather than in every rebuild
+    parseSelection(selection);
+    entry.layers.push({ rep: rep % this.repBuilders.length, selection, colorTheme, visible: true });
+    entry.layerIndex = entry.layers.length - 1;
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** Remove a layer of the active structure; the last one always stays. */
+  public removeLayer(index: number) {
+    const entry = this.active;
+    if (!entry || entry.layers.length < 2 || !entry.layers[index]) return;
+    entry.layers.splice(index, 1);
+    entry.layerIndex = Math.min(entry.layerIndex, entry.layers.length - 1);
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  public setLayerVisible(index: number, visible: boolean) {
+    const layer = this.active?.layers[index];
+    if (!layer || layer.visible === visible) return;
+    layer.visible = visible;
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** Replace the active structure's layers: cartoon protein, ball-and-stick ligands, translucent pocket surface. */
+  public applyLayerPreset() {
+    const entry = this.active;
+    if (!entry) return;
+    if (this.focusedLigand !== undefined) this.exitLigandFocus();
+    const rep = (builder: RepresentationBuilder) => this.repBuilders.indexOf(builder);
+    entry.layers = [
+      { rep: rep(createCartoon), selection: 'polymer', visible: true },
+      { rep: rep(createBallStick), selection: 'ligand', visible: true },
+      { rep: rep(createTransparentSurface), selection: 'byres within 5 of ligand', visible: true },
+    ];
+    entry.layerIndex = 0;
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  private selectLayer(index: number) {
+    const entry = this.active;
+    if (!entry?.layers[index]) return;
+    entry.layerIndex = index;
+    this.updateVisualsPanel();
+  }
+
+  /** Step the selected layer to the next preset selection. */
+  private cycleLayerSelection() {
+    const layer = this.layer;
+    if (!layer) return;
+    const current = this.layerSelections.indexOf(layer.selection);
+    layer.selection = this.layerSelections[(current + 1) % this.layerSelections.length];
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** New layer over the next preset selection not drawn yet, in ball-and-stick. */
+  private addNextLayer() {
+    const entry = this.active;
+    if (!entry) return;
+    const used = new Set(entry.layers.map((l) => l.selection));
+    const selection = this.layerSelections.find((s) => !used.has(s)) ?? 'all';
+    this.addLayer(this.repBuilders.indexOf(createBallStick), selection);
+  }
+
+  private updateVisualsPanel() {
+    const id = this.activeColorTheme();
+    const theme = this.atoms
+      ? createColorTheme(id, this.atoms, { secondary: this.secondary, colorOverrides: this.colorOverrides, deviation: this.active?.deviation }, { structure: this.getStructure() })
+      : undefined;
+    const scope = this.interactionScope;
+    const interactions = scope && {
+      scope: scope.label,
+      entries: INTERACTION_TYPES.map((type) => ({
+        label: `${INTERACTION_LABELS[type]}: ${this.interactions.filter((it) => it.type === type).length}`,
+        color: INTERACTION_COLORS[type],
+      })),
+    };
+    const layers = (this.active?.layers ?? []).map((layer) => ({
+      label: `${this.repLabels[layer.rep]} · ${layer.selection}`,
+      visible: layer.visible,
+    }));
+    this.panels.getVisualsPanel().setState({
+      layers,
+      selected: this.active?.layerIndex ?? -1,
+      style: this.layer ? this.repIndex : -1,
+      theme: theme?.id,
+      legend: theme?.legend ?? [],
+      radiusScale: this.layer?.radiusScale ?? 1,
+      interactions,
+    });
+  }
+
+  /**
+   * Overlay non-covalent interactions between two groups of atoms, e.g. a
+   * ligand and `polymer`, or two chains. Recomputed when the model changes.
+   */
+  public showInteractions(a: SelectionLike, b: SelectionLike, label = 'Selection A ↔ B') {
+    if (!this.atoms) return;
+    const structure = this.getStructure();
+    this.interactionScope = {
+      a: resolveSelection(this.atoms, a, structure),
+      b: resolveSelection(this.atoms, b, structure),
+      label,
+    };
+    this.refreshInteractions();
+  }
+
+  public hideInteractions() {
+    this.interactionScope = undefined;
+    this.refreshInteractions();
+  }
+
+  /** Overlay on/off from the Visuals panel: the largest ligand against the polymer, else the first chain interface. */
+  private toggleInteractions() {
+    if (this.interactionScope) {
+      this.hideInteractions();
+      return;
+    }
+    const structure = this.getStructure();
+    if (!structure) return;
+    const ligand = select(structure, 'ligand');
+    let best: number | undefined;
+    for (const i of ligand.indices()) {
+      const r = structure.atomResidue[i];
+      if (best === undefined || structure.residues[r].atoms.length > structure.residues[best].atoms.length) best = r;
+    }
+    if (best !== undefined) {
+      this.showInteractionsOf(structure.residues[best].atoms[0]);
+      return;
+    }
+    const polymerChains = structure.chains.filter((c) => c.residues.some((r) => !r.hetero));
+    if (polymerChains.length > 1) {
+      this.showInteractionsOf(polymerChains[0].residues.find((r) => !r.hetero)!.atoms[0]);
+      return;
+    }
+    console.warn('No ligand or chain interface to show interactions for');
+    this.updateVisualsPanel();
+  }
+
+  /**
+   * Interactions around an atom's residue: a ligand against the polymer, or
+   * the atom's chain against the other chains.
+   */
+  private showInteractionsOf(atomIndex: number) {
+    const structure = this.getStructure();
+    if (!structure || atomIndex < 0) return;
+    const res = structure.residues[structure.atomResidue[atomIndex]];
+    const residue = this.residueSelection(atomIndex);
+    if (select(structure, 'ligand').has(atomIndex)) {
+      this.showInteractions(residue, select(structure, 'polymer'), `${residueLabel(res)} ↔ polymer`);
+      return;
+    }
+    const chain = AtomSelection.fromIndices(structure.atoms.length, res.chain.residues.flatMap((r) => r.atoms));
+    const others = select(structure, 'not water').minus(chain);
+    this.showInteractions(chain, others, `Chain ${res.chain.id || '-'} ↔ other chains`);
+  }
+
+  /** Recompute and redraw the interaction overlay for the current model. */
+  private refreshInteractions() {
+    if (this.interactionGroup) {
+      this.disposeGroup(this.interactionGroup);
+      this.scene.remove(this.interactionGroup);
+      this.interactionGroup = undefined;
+    }
+    this.interactions = [];
+    const scope = this.interactionScope;
+    if (scope && this.atoms) {
+      this.interactions = computeInteractions(this.atoms, scope.a, scope.b, { bonds: this.bonds, structure: this.getStructure() });
+      this.interactionGroup = createInteractionOverlay(this.atoms, this.interactions);
+      setGroupClipping(this.interactionGroup, this.clipping.planes);
+      this.scene.add(this.interactionGroup);
+    }
+    this.updateVisualsPanel();
+  }
+
+  /**
+   * Build a structure's representation (the active one by default) for its
+   * current model, or for every model in ensemble mode: one child per
+   * visible layer, tagged `userData.layer` with its index. In pocket focus
+   * the focused ligand and its pocket are built instead; see
+   * buildPocketFocus().
+   */
+  private buildMolecule(entry = this.active!): THREE.Group {
+    const start = performance.now();
+    const options = this.buildOptions(entry);
+    let group: THREE.Group;
+    if (entry.focusedLigand !== undefined) {
+      group = this.buildPocketFocus(entry, entry.focusedLigand, options);
+    } else if (this.isCoarse(entry)) {
+      // beads stand in for the whole stack
+      group = entry.showEnsemble ? createEnsemble(entry.models, createCoarseGrained, options) : createCoarseGrained(entry.atoms, options);
+    } else {
+      group = new THREE.Group();
+      entry.layers.forEach((_, i) => {
+        const child = this.buildLayer(entry, i, options);
+        if (child) group.add(child);
+      });
+    }
+    setGroupClipping(group, this.clipping.planes);
+    entry.buildTimes[this.quality.level] = (performance.now() - start) / 1000;
+    return group;
+  }
+
+  /**
+   * Seconds a full build of `entry` would take at `level`: the time measured
+   * at the current level scaled by the cube of the tessellation factor
+   * (surface grids grow with its cube, meshes more slowly), else the last
+   * time measured at `level`, else 0.
+   */
+  private predictBuildTime(entry: StructureEntry, level: number): number {
+    const current = this.quality.level;
+    const measured = entry.buildTimes[current];
+    // beads say nothing about what the atomistic layers cost
+    if (measured !== undefined && !this.isCoarse(entry, current)) return measured * (detailScale(level) / detailScale(current)) ** 3;
+    return entry.buildTimes[level] ?? 0;
+  }
+
+  private buildOptions(entry: StructureEntry): RepresentationOptions {
+    return {
+      detail: this.quality.level,
+      bonds: entry.bonds,
+      secondary: entry.secondary,
+      colorTheme: this.activeColorTheme(entry),
+      colorOverrides: entry.colorOverrides,
+      deviation: entry.deviation,
+      selection: entry.hidden?.not(),
+    };
+  }
+
+  /** Level 0 draws large structures as beads instead of their layers. */
+  private isCoarse(entry: StructureEntry, level = this.quality.level): boolean {
+    return level === 0 && entry.atoms.length > LOD_COARSE_ATOMS;
+  }
+
+  /** One layer of a structure, tagged `userData.layer`; undefined when hidden or empty. */
+  private buildLayer(entry: StructureEntry, index: number, options: RepresentationOptions): THREE.Group | undefined {
+    const layer = entry.layers[index];
+    if (!layer.visible) return undefined;
+    let selection = select(this.getStructure(entry)!, layer.selection);
+    if (entry.hidden) selection = selection.minus(entry.hidden);
+    if (selection.isEmpty) return undefined;
+    const builder = this.repBuilders[layer.rep];
+    const layerOptions = { ...options, colorTheme: this.layerColorTheme(layer), radiusScale: layer.radiusScale, selection };
+    const child = entry.showEnsemble ? createEnsemble(entry.models, builder, layerOptions) : builder(entry.atoms, layerOptions);
+    child.userData.layer = index;
+    return child;
+  }
+
+  /**
+   * Ligand as ball-and-stick, residues within `pocketRadius` of it as sticks
+   * and the rest of the molecule as a translucent cartoon. The ligand and
+   * pocket parts are tagged `userData.focus` for placeOnPedestal().
+   */
+  private buildPocketFocus(entry: StructureEntry, residueIndex: number, options: RepresentationOptions): THREE.Group {
+    const structure = this.getStructure(entry)!;
+    const atoms = structure.atoms;
+    const visible = options.selection ? resolveSelection(atoms, options.selection, structure) : AtomSelection.all(atoms.length);
+    const ligand = AtomSelection.fromIndices(atoms.length, structure.residues[residueIndex].atoms).and(visible);
+    const pocket = expandToResidues(structure, withinDistance(structure, ligand, this.pocketRadius))
+      .minus(ligand)
+      .minus(select(structure, 'water'))
+      .and(visible);
+    // an explicitly chosen theme applies throughout; otherwise element colours up close
+    const chosen = entry.layers[entry.layerIndex]?.colorTheme;
+    const detail = { ...options, colorTheme: chosen ?? 'element' };
+
+    const group = new THREE.Group();
+    const focus = new THREE.Group();
+    focus.userData.focus = true;
+    focus.add(createBallStick(atoms, { ...detail, selection: ligand }));
+    focus.add(createSticks(atoms, { ...detail, selection: pocket }));
+    group.add(focus);
+    const context = createCartoon(atoms, { ...options, colorTheme: chosen ?? 'secondary', selection: visible.minus(ligand) });
+    setGroupOpacity(context, 0.3);
+    group.add(context);
+    return group;
+  }
+
+  /** Isolate a ligand residue and its binding pocket, re-centred on the pedestal. */
+  private focusLigand(residueIndex: number) {
+    if (!this.atoms) return;
+    this.focusedLigand = residueIndex;
+    this.showEnsemble = false;
+    this.rebuildMolecule();
+    const group = this.moleculeGroup!;
+    this.placeOnPedestal(group, group.children.find((c) => c.userData.focus));
+    this.updateModelPanel();
+    this.updateLigandPanel();
+  }
+
+  /** Back to the full molecule in the active representation. */
+  private exitLigandFocus() {
+    if (this.focusedLigand === undefined) return;
+    this.focusedLigand = undefined;
+    this.rebuildMolecule();
+    this.placeOnPedestal(this.moleculeGroup!);
+    this.updateLigandPanel();
+  }
+
+  private updateLigandPanel() {
+    const structure = this.getStructure();
+    const ligands = structure ? findLigands(structure) : [];
+    const labels = ligands.map((res) => `${residueLabel(res)} · ${res.atoms.length} atoms`);
+    const active = ligands.findIndex((res) => res.index === this.focusedLigand);
+    this.panels.getLigandPanel().setState(labels, active, this.pocketRadius);
+  }
+
+  /**
+   * Carry a structure's group over to the model just selected instead of
+   * rebuilding it: layers whose geometry can follow new coordinates are
+   * moved in place (see updateAtomPositions), cartoons are rebuilt on their
+   * own, and surfaces stay put during playback (too slow to build per
+   * frame) until stopModelPlayback(). Moved layers keep the atoms their
+   * selection matched when built. False when the whole group has to be
+   * rebuilt, e.g. in pocket focus.
+   */
+  private moveToModel(entry: StructureEntry): boolean {
+    if (entry.focusedLigand !== undefined) return false;
+    if (this.isCoarse(entry)) return updateAtomPositions(entry.group, entry.atoms);
+    let options: RepresentationOptions | undefined;
+    for (const child of [...entry.group.children]) {
+      if (updateAtomPositions(child, entry.atoms)) continue;
+      const index: number | undefined = child.userData.layer;
+      // only layers can be rebuilt on their own
+      if (index === undefined) return false;
+      if (this.modelPlaying && this.repBuilders[entry.layers[index].rep] === createTransparentSurface) continue;
+      options ??= this.buildOptions(entry);
+      const rebuilt = this.buildLayer(entry, index, options);
+      this.disposeGroup(child as THREE.Group);
+      entry.group.remove(child);
+      if (!rebuilt) continue;
+      setGroupClipping(rebuilt, this.clipping.planes);
+      entry.group.add(rebuilt);
+    }
+    return true;
+  }
+
+  /** End ensemble playback; surfaces left on an earlier model are rebuilt. */
+  private stopModelPlayback() {
+    if (!this.modelPlaying) return;
+    this.modelPlaying = false;
+    const entry = this.active;
+    if (entry?.layers.some((l) => l.visible && this.repBuilders[l.rep] === createTransparentSurface)) this.rebuildMolecule(entry);
+  }
+
+  /** Swap a structure's group (the active one by default) for a freshly built one, keeping its transform. */
+  private rebuildMolecule(entry = this.active) {
+    if (!entry) return;
+    const group = this.buildMolecule(entry);
+    const old = entry.group;
+    group.position.copy(old.position);
+    group.quaternion.copy(old.quaternion);
+    group.scale.copy(old.scale);
+    group.visible = old.visible;
+    this.disposeGroup(old);
+    this.scene.remove(old);
+    if (this.transitionNew === old) this.transitionNew = group;
+    entry.group = group;
+    this.scene.add(group);
+  }
+
+  /** Show a single model of a multi-model structure (index wraps around). */
+  private showModel(index: number) {
+    if (!this.models || !this.models.length) return;
+    const count = this.models.length;
+    const previous = this.atoms;
+    this.modelIndex = ((index % count) + count) % count;
+    this.atoms = this.models[this.modelIndex];
+    const fromEnsemble = this.showEnsemble;
+    this.showEnsemble = false;
+    if (fromEnsemble || previous?.length !== this.atoms.length || !this.moveToModel(this.active!)) this.rebuildMolecule();
+    this.measurements.setAtoms(this.atoms);
+    this.refreshInteractions();
+    this.updateModelPanel();
+  }
+
+  /** Lazily (re)build the residue/chain hierarchy for a structure's displayed atoms (the active one by default). */
+  private getStructure(entry = this.active): Structure | undefined {
+    if (!entry) return undefined;
+    if (entry.structure?.atoms !== entry.atoms) entry.structure = buildStructure(entry.atoms);
+    return entry.structure;
+  }
+
+  /**
+   * Evaluate a selection query (e.g. `chain A and resi 10-50`) against the
+   * displayed model. Throws SelectionSyntaxError for malformed queries.
+   */
+  public select(query: string): AtomSelection {
+    const structure = this.getStructure();
+    if (!structure) throw new Error('No molecule loaded');
+    return select(structure, query);
+  }
+
+  /** Leave the selected atoms out of every representation. */
+  public hide(selection: SelectionLike) {
+    if (!this.atoms) return;
+    const sel = resolveSelection(this.atoms, selection, this.getStructure());
+    this.hidden = this.hidden ? this.hidden.or(sel) : sel;
+    this.rebuildMolecule();
+  }
+
+  /** Show hidden atoms again: the selected ones, or all of them when omitted. */
+  public show(selection?: SelectionLike) {
+    if (!this.atoms || !this.hidden) return;
+    this.hidden = selection === undefined ? undefined : this.hidden.minus(resolveSelection(this.atoms, selection, this.getStructure()));
+    this.rebuildMolecule();
+  }
+
+  /** Colour the selected atoms with `theme`, on top of the active colour theme. */
+  public colorSelection(selection: SelectionLike, theme: ColorThemeId, uniformColor?: number) {
+    if (!this.atoms) return;
+    this.colorOverrides.push({ selection: resolveSelection(this.atoms, selection, this.getStructure()), colorTheme: theme, uniformColor });
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** Drop every colorSelection() override. */
+  public clearColorSelections() {
+    if (!this.colorOverrides.length) return;
+    this.colorOverrides = [];
+    this.rebuildMolecule();
+    this.updateVisualsPanel();
+  }
+
+  /** Turn the view towards the centre of the selected atoms. */
+  public focus(selection: SelectionLike) {
+    if (!this.atoms || !this.moleculeGroup) return;
+    const indices = resolveSelection(this.atoms, selection, this.getStructure()).indices();
+    if (!indices.length) return;
+    const center = new THREE.Vector3();
+    for (const i of indices) {
+      const atom = this.atoms[i];
+      center.x += atom.x;
+      center.y += atom.y;
+      center.z += atom.z;
+    }
+    center.divideScalar(indices.length);
+    this.moleculeGroup.updateMatrixWorld(true);
+    this.moleculeGroup.localToWorld(center);
+    if (this.useOrbit) this.orbit.target.copy(center);
+    this.camera.lookAt(center);
+  }
+
+  /** The residue containing `atomIndex`, as a selection. */
+  private residueSelection(atomIndex: number): AtomSelection {
+    const structure = this.getStructure()!;
+    return expandToResidues(structure, AtomSelection.fromIndices(structure.atoms.length, [atomIndex]));
+  }
+
+  /** Lazily (re)build the neighbour grid for the currently displayed atoms. */
+  private getAtomGrid(): SpatialGrid | undefined {
+    if (!this.atoms) return undefined;
+    if (this.atomGrid?.atoms !== this.atoms) {
+      this.atomGrid = { atoms: this.atoms, grid: new SpatialGrid(this.atoms) };
+    }
+    return this.atomGrid.grid;
+  }
+
+  /** Resolve a raycast hit on the molecule to an atom index (-1 if none). */
+  private pickAtom(hit: THREE.Intersection): number {
+    if (!this.atoms) return -1;
+    return pickAtom(hit, this.atoms, this.getAtomGrid());
+  }
+
+  /** Point the shared raycaster along a controller's -Z axis. */
+  private setRayFromController(controller: THREE.Object3D) {
+    controller.getWorldPosition(this.raycaster.ray.origin);
+    this.raycaster.ray.direction.set(0, 0, -1).applyQuaternion(controller.getWorldQuaternion(new THREE.Quaternion()));
+  }
+
+  /** Atom under the raycaster's current ray (-1 if none) and the hit it came from. */
+  private raycastAtom(): { atom: number; hit?: THREE.Intersection } {
+    if (!this.moleculeGroup?.visible) return { atom: -1 };
+    // point / line hits within ~1 cm of the ray; bestHit keeps the closest
+    this.raycaster.params.Points.threshold = 0.01;
+    this.raycaster.params.Line.threshold = 0.01;
+    const hit = bestHit(this.raycaster.intersectObjects([this.moleculeGroup], true));
+    return { atom: hit ? this.pickAtom(hit) : -1, hit };
+  }
+
+  /** Feed the atom under the ray to the measurement in progress. */
+  private addMeasurementPick() {
+    const { atom } = this.raycastAtom();
+    if (atom < 0) return;
+    this.measurements.pick(atom);
+    this.updateMeasurementPanel();
+  }
+
+  private updateMeasurementPanel() {
+    const atoms = this.atoms;
+    const rows = atoms
+      ? this.measurements.measurements.map((m) => ({
+          id: m.id,
+          label: `${m.atoms.map((i) => `${atoms[i].name} ${atoms[i].resName}${atoms[i].resSeq}`).join(' – ')}: ${formatMeasurement(m)}`,
+        }))
+      : [];
+    this.panels.getMeasurementPanel().setState(this.measurements.kind, this.measurements.pendingCount, rows);
+  }
+
+  /** Open the info card for an atom of the displayed model and highlight it. */
+  private showAtomInfo(index: number) {
+    if (!this.atoms || index < 0) return;
+    this.panels.getAtomInfoPanel().setAtom(this.atoms[index], index);
+    this.panels.open('atomInfo');
+    this.highlightedAtom = index;
+    this.pickResidue(this.getStructure()!.atomResidue[index]);
+  }
+
+  /** Fill both sequence views for the loaded structure. */
+  private updateSequences() {
+    const structure = this.getStructure();
+    const chains = structure ? buildChainSequences(structure, this.sequences) : [];
+    this.hoveredResidue = -1;
+    this.pickedResidue = -1;
+    this.panels.getSequencePanel().setSequences(chains);
+    this.sequenceStrip.setSequences(chains);
+  }
+
+  /** Mark a residue (index into `Structure.residues`) in 3D and in both sequence views. */
+  private pickResidue(residue: number) {
+    this.pickedResidue = residue;
+    this.panels.getSequencePanel().highlight(residue);
+    this.sequenceStrip.highlight(residue);
+  }
+
+  /** Pick the residue of the atom under the raycaster's current ray, if any. */
+  private pickResidueUnderRay() {
+    const { atom } = this.raycastAtom();
+    if (atom >= 0) this.pickResidue(this.getStructure()!.atomResidue[atom]);
+  }
+
+  /** Halo over the atoms of the hovered (else picked) residue, following the molecule. */
+  private updateResidueHighlight() {
+    const group = this.moleculeGroup;
+    const residue = this.hoveredResidue >= 0 ? this.hoveredResidue : this.pickedResidue;
+    const structure = this.getStructure();
+    const show = residue >= 0 && !!group?.visible && !!structure && residue < structure.residues.length;
+    this.residueHighlight.visible = show;
+    if (!show) return;
+    const mesh = this.residueHighlight;
+    const shown = this.residueHighlightShown;
+    // rebuilt when the residue or the displayed model changes
+    if (shown?.residue !== residue || shown.atoms !== structure!.atoms) {
+      const indices = structure!.residues[residue].atoms;
+      const matrix = new THREE.Matrix4();
+      mesh.count = Math.min(indices.length, mesh.instanceMatrix.count);
+      for (let k = 0; k < mesh.count; k++) {
+        const atom = structure!.atoms[indices[k]];
+        // 1 Å halo per atom in the molecule's Å frame
+        mesh.setMatrixAt(k, matrix.makeTranslation(atom.x, atom.y, atom.z));
+      }
+      mesh.instanceMatrix.needsUpdate = true;
+      this.residueHighlightShown = { residue, atoms: structure!.atoms };
+    }
+    mesh.position.copy(group!.position);
+    mesh.quaternion.copy(group!.quaternion);
+    mesh.scale.copy(group!.scale);
+  }
+
+  /** Keep the highlight on the picked atom while the molecule turns or is rebuilt. */
+  private updateAtomHighlight() {
+    const group = this.moleculeGroup;
+    const show = this.highlightedAtom >= 0 && !!group?.visible && !!this.atoms;
+    this.atomHighlight.visible = show;
+    if (!show) return;
+    group!.updateMatrixWorld();
+    this.atomHighlight.position.copy(this.atomWorldPosition(this.highlightedAtom, group!));
+    // 1 Å halo, drawn over whatever representation is active
+    this.atomHighlight.scale.setScalar(group!.getWorldScale(new THREE.Vector3()).x);
+  }
+
+  /** World position of an atom drawn by `obj` (whose local frame holds atom coordinates). */
+  private atomWorldPosition(index: number, obj: THREE.Object3D): THREE.Vector3 {
+    const atom = this.atoms![index];
+    return obj.localToWorld(new THREE.Vector3(atom.x, atom.y, atom.z));
+  }
+
+  private updateModelPanel() {
+    const count = this.models?.length ?? 0;
+    this.panels.getModelPanel().setState(this.modelIndex, count, this.modelPlaying, this.showEnsemble);
   }
 
 /*
@@ -398,7 +1853,8 @@ export class ConfinedSpaceXR {
       this.userRig.add(grip);
       controller.addEventListener('selectstart', () => {
         // If any panel is open that uses select(), forward to panel manager first
-        if (this.panels.handleSelect()) {
+        this.triggerConsumed = this.panels.handleSelect();
+        if (this.triggerConsumed) {
           // panel consumed or closed; restore menu
           this.menuVisible = true;
           this.menu.object3d.visible = true;
@@ -406,8 +1862,8 @@ export class ConfinedSpaceXR {
           this.menu.select();
         }
 
-        // start long-press timer for right-hand context menu
-        if (controller === this.rightController) {
+        // start long-press timer for the dominant hand's context menu
+        if (controller === this.pointerController) {
           this.triggerHeld = true;
           this.triggerHoldDuration = 0;
         }
@@ -419,44 +1875,40 @@ export class ConfinedSpaceXR {
       });
       // trigger release – finish or cancel context menu
       controller.addEventListener('selectend', () => {
-        if (controller === this.rightController) {
+        if (controller === this.pointerController) {
           if (this.contextMenuVisible && this.contextMenu) {
             this.contextMenu.select();
             this.scene.remove(this.contextMenu.object3d);
             this.contextMenu = undefined;
             this.contextMenuVisible = false;
+          } else if (!this.triggerConsumed) {
+            // a short tap (no context menu) picks the next measurement atom, else a residue
+            this.setRayFromController(controller);
+            if (this.measuring) this.addMeasurementPick();
+            else this.pickResidueUnderRay();
           }
           this.triggerHeld = false;
           this.triggerHoldDuration = 0;
         }
       });
+      controller.userData.grip = grip;
       controller.addEventListener('connected', (event: any) => {
         controller.userData.inputSource = event.data;
-        // set left references & re-parent menu when first left controller connects
-        if (event.data.handedness === 'left') {
-          this.leftController = controller;
-          this.leftGrip = grip;
-          // move menu to wrist
-          if (this.menu.object3d.parent) this.menu.object3d.parent.remove(this.menu.object3d);
-          this.leftGrip.add(this.menu.object3d);
-          this.menu.object3d.position.set(0, 0.07, -0.15);
-          this.menu.object3d.visible = false;
-          this.menu.setOpacity(0);
-          this.menuVisible = false;
-        } else if (event.data.handedness === 'right') {
-          this.rightController = controller;
-        }
+        this.assignHands();
       });
-      // wrist-watch style show/hide using grip squeeze
+        // grip squeeze grabs the structure under the hand or ray; the menu
+      // hand's grip shows the wrist menu instead when there is nothing to grab
       controller.addEventListener('squeezestart', () => {
-        if (controller === this.leftController) {
+        if (this.startGrab(controller)) return;
+        if (controller === this.menuController) {
           this.menuVisible = true;
           this.menu.object3d.visible = true;
           this.menu.setOpacity(1);
         }
       });
       controller.addEventListener('squeezeend', () => {
-        if (controller === this.leftController) {
+        if (this.endGrab(controller)) return;
+        if (controller === this.menuController) {
           this.menuVisible = false;
           this.menu.object3d.visible = false;
           this.menu.setOpacity(0);
@@ -465,6 +1917,7 @@ export class ConfinedSpaceXR {
 
       controller.addEventListener('disconnected', () => {
         delete controller.userData.inputSource;
+        this.assignHands();
       });
       const geometry = new THREE.BufferGeometry().setFromPoints([
         new THREE.Vector3(0, 0, 0),
@@ -483,38 +1936,66 @@ export class ConfinedSpaceXR {
   }
 
   private animate() {
+    const frameStart = performance.now();
   this.panels.update();
     const delta = this.clock.getDelta();
     // update orbit controls if enabled
     if (this.useOrbit) this.orbit.update();
 
-  // subtle rotation animation for the loaded molecule
-  if (this.moleculeGroup) {
-    this.moleculeGroup.rotation.y += 0.2 * delta;
+  // subtle rotation animation for the loaded molecules; held ones follow the
+  // hands and superposed ones their target instead
+  const held = new Set([...this.grabs.values()].map((g) => g.entry));
+  for (const entry of this.registry.all) {
+    if (this.settings.autoRotate && !entry.superposedOn && !held.has(entry)) entry.group.rotation.y += this.settings.autoRotateSpeed * delta;
+  }
+  this.updateGrabs();
+  this.clipping.update(this.camera);
+  for (const entry of this.registry.all) {
+    if (!entry.superposedOn) continue;
+    const target = this.registry.get(entry.superposedOn.targetId);
+    if (!target) {
+      entry.superposedOn = undefined;
+      continue;
+    }
+    target.group.updateMatrix();
+    entry.group.matrix.multiplyMatrices(target.group.matrix, entry.superposedOn.transform);
+    entry.group.matrix.decompose(entry.group.position, entry.group.quaternion, entry.group.scale);
   }
 
     if (this.menuVisible) {
       this.menu.update(delta);
     }
 
+    // catch up with a level-of-detail change
+    const stale = this.detailRebuilds.shift();
+    if (stale && this.registry.get(stale.id) === stale) this.rebuildMolecule(stale);
+
+    // step through NMR models during playback
+    if (this.modelPlaying && this.models && this.models.length > 1) {
+      this.modelTimer += delta;
+      if (this.modelTimer >= this.MODEL_FRAME_TIME) {
+        this.modelTimer = 0;
+        this.showModel(this.modelIndex + 1);
+      }
+    }
+
     // detect right trigger long-press for context menu
-    if (this.rightController && this.triggerHeld) {
-      const src = this.rightController.userData.inputSource as XRInputSource | undefined;
+    if (this.pointerController && this.triggerHeld) {
+      const src = this.pointerController.userData.inputSource as XRInputSource | undefined;
       const pressed = src?.gamepad?.buttons?.[0]?.pressed;
       if (pressed) {
         this.triggerHoldDuration += delta;
-        const HOLD_TIME = 0.4;
-        if (!this.contextMenuVisible && this.triggerHoldDuration > HOLD_TIME) {
-          // perform raycast from right controller
-          const origin = new THREE.Vector3();
-          this.rightController.getWorldPosition(origin);
-          const dir = new THREE.Vector3(0, 0, -1).applyQuaternion(this.rightController.getWorldQuaternion(new THREE.Quaternion()));
-          this.raycaster.ray.origin.copy(origin);
-          this.raycaster.ray.direction.copy(dir);
-          let point = origin.clone().add(dir.multiplyScalar(1)); // default 1 m ahead
-          if (this.moleculeGroup) {
-            const its = this.raycaster.intersectObjects([this.moleculeGroup], true);
-            if (its.length) point = its[0].point;
+        if (!this.contextMenuVisible && this.triggerHoldDuration > this.settings.holdTime) {
+          // perform raycast from the pointing controller
+          this.setRayFromController(this.pointerController);
+          const { origin, direction } = this.raycaster.ray;
+          let point = origin.clone().addScaledVector(direction, 1); // default 1 m ahead
+          const { atom, hit } = this.raycastAtom();
+          this.contextAtom = atom;
+          if (hit) {
+            point = hit.point;
+            // snap the menu onto the picked atom
+            if (atom >= 0) point = this.atomWorldPosition(atom, hit.object);
           }
           this.showContextMenu(point);
         }
@@ -532,16 +2013,11 @@ export class ConfinedSpaceXR {
       const DURATION = 0.5;
       this.transitionProgress += delta;
       const t = Math.min(this.transitionProgress / DURATION, 1);
-      const scaleIn = THREE.MathUtils.lerp(0.01 * this.moleculeScale, this.moleculeScale, t);
-      const scaleOut = THREE.MathUtils.lerp(this.moleculeScale, 0.01 * this.moleculeScale, t);
+      const scaleIn = THREE.MathUtils.lerp(0.01 * this.transitionScale, this.transitionScale, t);
+      const scaleOut = THREE.MathUtils.lerp(this.transitionScale, 0.01 * this.transitionScale, t);
       this.transitionNew.scale.set(scaleIn, scaleIn, scaleIn);
       if (this.transitionOld) this.transitionOld.scale.set(scaleOut, scaleOut, scaleOut);
-      if (t >= 1) {
-        if (this.transitionOld) this.scene.remove(this.transitionOld);
-        this.transitionOld = undefined;
-        this.transitionNew.scale.set(1, 1, 1);
-        this.transitionNew = undefined;
-      }
+      if (t >= 1) this.finishTransition();
     }
 
     // hover detection only when menu visible
@@ -584,7 +2060,7 @@ export class ConfinedSpaceXR {
       if (this.keys.right) this.walk.moveRight(speed * delta);
     }
 
-    // VR locomotion via left controller thumbstick
+    // VR locomotion via controller thumbsticks
     if (this.renderer.xr.isPresenting) {
       for (const ctrl of this.controllers) {
         const origin = new THREE.Vector3();
@@ -609,8 +2085,8 @@ export class ConfinedSpaceXR {
           const y = axes.length >= 4 ? axes[3] : axes[1] || 0;
           const dead = 0.05;
 
-          // thumbstick hover for radial menu (left controller only)
-          if (this.menuVisible && ctrl === this.leftController) {
+          // thumbstick hover for radial menu (menu hand only)
+          if (this.menuVisible && ctrl === this.menuController) {
             const radius = Math.hypot(x, y);
             if (radius > dead) {
               const angle = Math.atan2(x, y); // 0 rad at stick up, increasing clockwise
@@ -639,8 +2115,8 @@ export class ConfinedSpaceXR {
           dir.normalize();
           const right = new THREE.Vector3().crossVectors(dir, new THREE.Vector3(0,1,0)).normalize();
           const move = new THREE.Vector3()
-            .addScaledVector(dir, -y * this.vrSpeed * delta)
-            .addScaledVector(right, x * this.vrSpeed * delta);
+            .addScaledVector(dir, -y * this.settings.locomotionSpeed * delta)
+            .addScaledVector(right, x * this.settings.locomotionSpeed * delta);
 
           this.userRig.position.add(move);
 
@@ -655,7 +2131,21 @@ export class ConfinedSpaceXR {
     if (this.contextMenuVisible && this.contextMenu) {
       this.contextMenu.object3d.lookAt(this.camera.position);
     }
+    this.updateAtomHighlight();
+    this.updateResidueHighlight();
+    // overlays belong to the active structure and disappear while it is hidden
+    const shown = this.moleculeGroup?.visible ? this.moleculeGroup : undefined;
+    this.measurements.follow(shown);
+    if (this.interactionGroup) {
+      this.interactionGroup.visible = !!shown;
+      if (shown) {
+        this.interactionGroup.position.copy(shown.position);
+        this.interactionGroup.quaternion.copy(shown.quaternion);
+        this.interactionGroup.scale.copy(shown.scale);
+      }
+    }
     this.renderer.render(this.scene, this.camera);
+    this.quality.sample(delta, (performance.now() - frameStart) / 1000);
   }
 
   /**
@@ -666,18 +2156,16 @@ export class ConfinedSpaceXR {
     if (this.contextMenu) {
       this.scene.remove(this.contextMenu.object3d);
     }
-    // TODO: build real context-aware items. Placeholder actions for phase-1.
+    // Info shows the picked atom; Center / Hide act on its residue
+    const atom = this.contextAtom;
     const items = [
-      { label: 'Info',   action: () => console.log('Info (todo)') },
-      { label: 'Center', action: () => this.camera.lookAt(worldPos) },
+      { label: 'Info',   action: () => this.showAtomInfo(atom) },
+      { label: 'Center', action: () => (atom >= 0 ? this.focus(this.residueSelection(atom)) : this.camera.lookAt(worldPos)) },
       { label: 'Hide',   action: () => {
-        if (this.moleculeGroup) {
-          this.disposeGroup(this.moleculeGroup);
-          this.scene.remove(this.moleculeGroup);
-          this.moleculeGroup = undefined as any;
-          this.atoms = undefined as any;
-        }
+        if (atom >= 0) this.hide(this.residueSelection(atom));
       } },
+      { label: 'Show all', action: () => this.show() },
+      { label: 'Contacts', action: () => this.showInteractionsOf(atom) },
     ];
     // @ts-ignore – accept plain object array as MenuItem[]
     this.contextMenu = new RadialMenu(items);
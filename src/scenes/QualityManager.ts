@@ -0,0 +1,104 @@
+import { DEFAULT_DETAIL, MAX_DETAIL } from '../molecule/PDBLoader';
+
+// seconds of frames averaged before a decision
+const WINDOW = 1;
+// drop a level when frames take this much longer than the budget on average
+const SLOW_FACTOR = 1.15;
+// raise a level only when the frame work fits in this share of the budget
+const FAST_FACTOR = 0.5;
+// seconds to wait after a change (rebuilds cause their own spikes), and the
+// longer wait before stepping back up after a drop so levels do not flicker;
+// that wait doubles each time the same level fails again
+const SETTLE_TIME = 2;
+const RECOVER_TIME = 6;
+// a raise may stall the loop for at most this many frame budgets per rebuild
+const MAX_REBUILD_FRAMES = 3;
+
+/**
+ * Picks the level of detail representations are built at (see
+ * RepresentationOptions.detail) from measured frame times. Feed it every
+ * frame of the render loop: a level is dropped when frames arrive late for
+ * the target refresh rate (72 / 90 Hz in a headset), and raised again when
+ * the work done per frame leaves plenty of headroom and the rebuild the raise
+ * triggers is affordable (see rebuildCost). Level 0 is the coarse
+ * fallback: bonds become lines and large structures coarse-grained beads.
+ */
+export class QualityManager {
+  private current = DEFAULT_DETAIL;
+  private target = 60;
+  private elapsed = 0;
+  private frames = 0;
+  private frameTime = 0;
+  private workTime = 0;
+  private sinceChange = 0;
+  private lastDrop = -Infinity;
+  private clock = 0;
+  // level that was last dropped from, and the wait before raising back into it
+  private failedLevel = -1;
+  private backoff = RECOVER_TIME;
+
+  public onChange: (level: number) => void = () => {};
+  /**
+   * Predicted seconds of the slowest single rebuild a change to `level`
+   * causes (the owner spreads the rebuilds over frames); levels that would
+   * stall the loop longer than MAX_REBUILD_FRAMES budgets are not raised to.
+   */
+  public rebuildCost: (level: number) => number = () => 0;
+
+  get level(): number {
+    return this.current;
+  }
+
+  /** Refresh rate to hold (Hz), e.g. the XR session's frame rate. */
+  setTargetRate(hz: number) {
+    this.target = hz;
+    this.failedLevel = -1;
+    this.backoff = RECOVER_TIME;
+    this.reset();
+  }
+
+  /**
+   * Record one frame: `delta` is the time since the previous frame, `work`
+   * the time spent updating and submitting this one (both in seconds).
+   */
+  sample(delta: number, work: number) {
+    this.clock += delta;
+    this.sinceChange += delta;
+    if (this.sinceChange < SETTLE_TIME) return;
+    this.elapsed += delta;
+    this.frames++;
+    this.frameTime += delta;
+    this.workTime += work;
+    if (this.elapsed < WINDOW) return;
+
+    const budget = 1 / this.target;
+    const frame = this.frameTime / this.frames;
+    const workPerFrame = this.workTime / this.frames;
+    this.elapsed = this.frames = this.frameTime = this.workTime = 0;
+    if (frame > budget * SLOW_FACTOR && this.current > 0) {
+      // work time misses GPU-bound frames, so a level can look affordable,
+      // be raised into and fail again; back off further each time it does
+      if (this.current === this.failedLevel) this.backoff *= 2;
+      else {
+        this.failedLevel = this.current;
+        this.backoff = RECOVER_TIME;
+      }
+      this.lastDrop = this.clock;
+      this.change(this.current - 1);
+    } else if (frame <= budget * SLOW_FACTOR && workPerFrame < budget * FAST_FACTOR && this.current < MAX_DETAIL) {
+      const wait = this.current + 1 === this.failedLevel ? this.backoff : RECOVER_TIME;
+      if (this.clock - this.lastDrop > wait && this.rebuildCost(this.current + 1) <= budget * MAX_REBUILD_FRAMES) this.change(this.current + 1);
+    }
+  }
+
+  private change(level: number) {
+    this.current = level;
+    this.reset();
+    this.onChange(level);
+  }
+
+  private reset() {
+    this.elapsed = this.frames = this.frameTime = this.workTime = 0;
+    this.sinceChange = 0;
+  }
+}
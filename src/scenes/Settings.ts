@@ -0,0 +1,78 @@
+import { COLOR_THEMES, ColorThemeId } from '../molecule/ColorThemes';
+
+export type Hand = 'left' | 'right';
+
+/** User preferences edited in the Settings panel and kept across sessions. */
+export interface Settings {
+  /** Thumb-stick locomotion speed (m/s). */
+  locomotionSpeed: number;
+  /** Hand that points, picks and opens the context menu; the wrist menu sits on the other one. */
+  dominantHand: Hand;
+  autoRotate: boolean;
+  /** Idle spin of loaded structures (rad/s). */
+  autoRotateSpeed: number;
+  /** Size of the wrist menu relative to its built size. */
+  menuScale: number;
+  /** Trigger hold (s) before the context menu opens. */
+  holdTime: number;
+  /** Label of the representation new structures start in. */
+  representation: string;
+  /** Theme new structures start in; the representation's default when undefined. */
+  colorTheme?: ColorThemeId;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  locomotionSpeed: 5,
+  dominantHand: 'right',
+  autoRotate: true,
+  autoRotateSpeed: 0.2,
+  menuScale: 0.8,
+  holdTime: 0.4,
+  representation: 'Ball-and-Stick',
+};
+
+/** Limits of the numeric settings. */
+export const SETTING_RANGES = {
+  locomotionSpeed: [1, 10],
+  autoRotateSpeed: [0.05, 1],
+  menuScale: [0.5, 1.5],
+  holdTime: [0.2, 1],
+} as const;
+
+const STORAGE_KEY = 'webxr-molecule-viewer.settings';
+
+/**
+ * Stored settings over the defaults. Anything missing, of the wrong type or
+ * out of range falls back to its default, so old or hand-edited entries
+ * never break startup.
+ */
+export function loadSettings(): Settings {
+  let stored: Record<string, unknown> = {};
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = text ? JSON.parse(text) : null;
+    // `null`, numbers and arrays parse fine too
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) stored = parsed as Record<string, unknown>;
+  } catch (err) {
+    console.warn('Could not read saved settings', err);
+  }
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of Object.keys(SETTING_RANGES) as (keyof typeof SETTING_RANGES)[]) {
+    const value = stored[key];
+    const [min, max] = SETTING_RANGES[key];
+    if (typeof value === 'number' && value >= min && value <= max) settings[key] = value;
+  }
+  if (stored.dominantHand === 'left' || stored.dominantHand === 'right') settings.dominantHand = stored.dominantHand;
+  if (typeof stored.autoRotate === 'boolean') settings.autoRotate = stored.autoRotate;
+  if (typeof stored.representation === 'string') settings.representation = stored.representation;
+  if (COLOR_THEMES.includes(stored.colorTheme as ColorThemeId)) settings.colorTheme = stored.colorTheme as ColorThemeId;
+  return settings;
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not save settings', err);
+  }
+}
@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import type { Atom } from '../molecule/PDBLoader';
+import type { Bond } from '../molecule/Bonds';
+import type { SecondaryStructureRecord } from '../molecule/SecondaryStructure';
+import type { SequenceRecord } from '../molecule/Sequence';
+import type { ColorOverride, ColorThemeId } from '../molecule/ColorThemes';
+import type { AtomSelection } from '../molecule/Selection';
+import type { Structure } from '../molecule/Structure';
+
+/** Structures kept in the scene at once; loading another drops the oldest. */
+export const MAX_STRUCTURES = 4;
+
+// distance between neighbouring pedestals (m)
+const SLOT_SPACING = 2.4;
+
+/** One style in a structure's layer stack: a representation drawn for a selection, in a colour theme. */
+export interface RepresentationLayer {
+  /** Index into the scene's representation list. */
+  rep: number;
+  /** Selection query, e.g. `polymer` or `byres within 5 of ligand`. */
+  selection: string;
+  /** Chosen colour theme; the representation's default when undefined. */
+  colorTheme?: ColorThemeId;
+  /** Sphere / bond radius factor, see RepresentationOptions.radiusScale. */
+  radiusScale?: number;
+  visible: boolean;
+}
+
+/** One loaded structure with its own representation layers, colouring and transform. */
+export interface StructureEntry {
+  readonly id: number;
+  /** ID it was loaded by, e.g. `1CRN`. */
+  name: string;
+  /** Pedestal the structure stands on; see slotPosition(). */
+  readonly slot: number;
+  group: THREE.Group;
+  /** Displayed model (`models[modelIndex]`). */
+  atoms: Atom[];
+  models: Atom[][];
+  /** Residue/chain hierarchy of `atoms`; rebuilt lazily when the displayed model changes. */
+  structure?: Structure;
+  modelIndex: number;
+  showEnsemble: boolean;
+  bonds: Bond[];
+  secondary: SecondaryStructureRecord[];
+  sequences: SequenceRecord[];
+  /** Drawn bottom to top; every structure starts with one layer over `all`. */
+  layers: RepresentationLayer[];
+  /** Layer the Visuals panel edits. */
+  layerIndex: number;
+  colorOverrides: ColorOverride[];
+  hidden?: AtomSelection;
+  /** Residue index of the ligand in binding-pocket focus. */
+  focusedLigand?: number;
+  /** Per-residue Cα deviation from the last superposition (see RepresentationOptions.deviation). */
+  deviation?: Float32Array;
+  /** Themes layers had before deviation colouring was switched on, restored when it goes off. */
+  themesBeforeDeviation?: Map<RepresentationLayer, ColorThemeId | undefined>;
+  /**
+   * Superposed onto another structure: the group follows the target's
+   * transform combined with `transform` (mobile Å → target Å).
+   */
+  superposedOn?: { targetId: number; transform: THREE.Matrix4 };
+  /** Seconds the latest full build of `group` took, per level of detail it was built at. */
+  buildTimes: number[];
+  /** Group scale that fits the structure (or its focused pocket) on the pedestal. */
+  scale: number;
+  visible: boolean;
+}
+
+/** Fields a new entry starts with; the rest take their defaults. */
+export type StructureInit = Pick<StructureEntry, 'name' | 'group' | 'atoms' | 'models' | 'structure' | 'bonds' | 'secondary' | 'sequences'>;
+
+/**
+ * Top-centre of a pedestal: slot 0 is the central one at the origin, further
+ * slots alternate right and left of it.
+ */
+export function slotPosition(slot: number): THREE.Vector3 {
+  const side = slot % 2 ? 1 : -1;
+  return new THREE.Vector3(side * Math.ceil(slot / 2) * SLOT_SPACING, 1, 0);
+}
+
+/**
+ * The structures loaded into the scene, in load order, and which of them is
+ * active. Panels, picking and overlays act on the active structure; every
+ * entry keeps its own display state so switching back restores it. Slots are
+ * stable: removing a structure frees its pedestal without moving the others.
+ */
+export class StructureRegistry {
+  private entries: StructureEntry[] = [];
+  private activeId?: number;
+  private nextId = 1;
+
+  get all(): readonly StructureEntry[] {
+    return this.entries;
+  }
+
+  get active(): StructureEntry | undefined {
+    return this.get(this.activeId);
+  }
+
+  get(id: number | undefined): StructureEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+
+  /** Register a structure on the lowest free slot and make it active. */
+  add(init: StructureInit): StructureEntry {
+    let slot = 0;
+    while (this.entries.some((e) => e.slot === slot)) slot++;
+    const entry: StructureEntry = {
+      ...init,
+      id: this.nextId++,
+      slot,
+      modelIndex: 0,
+      showEnsemble: false,
+      layers: [{ rep: 0, selection: 'all', visible: true }],
+      layerIndex: 0,
+      colorOverrides: [],
+      buildTimes: [],
+      scale: 1,
+      visible: true,
+    };
+    this.entries.push(entry);
+    this.activeId = entry.id;
+    return entry;
+  }
+
+  /** Drop an entry; when it was active, the most recently loaded remaining one takes over. */
+  remove(id: number): StructureEntry | undefined {
+    const idx = this.entries.findIndex((e) => e.id === id);
+    if (idx < 0) return undefined;
+    const [entry] = this.entries.splice(idx, 1);
+    if (this.activeId === id) this.activeId = this.entries[this.entries.length - 1]?.id;
+    return entry;
+  }
+
+  setActive(id: number) {
+    if (this.get(id)) this.activeId = id;
+  }
+}
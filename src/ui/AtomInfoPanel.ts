@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { BasePanel } from './BasePanel';
+import type { Atom } from '../molecule/PDBLoader';
+
+/**
+ * Info card for a picked atom: element, atom name, residue, chain, B-factor
+ * and coordinates (Å). `onHide` fires whenever the card goes away – close
+ * button or another panel taking its place – so the owner can drop the
+ * atom's highlight.
+ */
+export class AtomInfoPanel extends BasePanel {
+  private canvas: HTMLCanvasElement;
+  private texture: THREE.CanvasTexture;
+
+  public onHide: () => void = () => {};
+
+  constructor(width = 1.0, height = 0.6) {
+    super(width, height, 0x333333);
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = 512;
+    this.canvas.height = Math.round((512 * height) / width);
+    this.texture = new THREE.CanvasTexture(this.canvas);
+    this.texture.minFilter = THREE.LinearFilter;
+
+    const mat = this.object3d.material as THREE.MeshBasicMaterial;
+    mat.color.set(0xffffff);
+    mat.map = this.texture;
+    mat.needsUpdate = true;
+  }
+
+  hide() {
+    const wasVisible = this.object3d.visible;
+    super.hide();
+    if (wasVisible) this.onHide();
+  }
+
+  /** Fill the card with `atom` (index `index` in the displayed model). */
+  setAtom(atom: Atom, index: number) {
+    const ctx = this.canvas.getContext('2d')!;
+    const { width, height } = this.canvas;
+    ctx.fillStyle = '#222';
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 26px sans-serif';
+    ctx.fillText(`Atom ${atom.serial}`, 16, 14);
+    ctx.fillStyle = '#999';
+    ctx.font = '18px sans-serif';
+    ctx.fillText(`#${index}`, 16, 46);
+
+    const rows: [string, string][] = [
+      ['Element', atom.element.charAt(0) + atom.element.slice(1).toLowerCase()],
+      ['Name', atom.altLoc ? `${atom.name} (alt ${atom.altLoc})` : atom.name],
+      ['Residue', `${atom.resName} ${atom.resSeq}${atom.iCode}${atom.hetero ? ' (HETATM)' : ''}`],
+      ['Chain', atom.chainId || '–'],
+      ['B-factor', atom.bFactor.toFixed(2)],
+      ['Position', `${atom.x.toFixed(2)}, ${atom.y.toFixed(2)}, ${atom.z.toFixed(2)} Å`],
+    ];
+    ctx.font = '22px sans-serif';
+    const lineH = 30;
+    rows.forEach(([label, value], i) => {
+      const y = 80 + i * lineH;
+      ctx.fillStyle = '#aaa';
+      ctx.fillText(label, 16, y);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(value, 150, y);
+    });
+    this.texture.needsUpdate = true;
+  }
+}
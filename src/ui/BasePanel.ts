@@ -37,6 +37,14 @@ export class BasePanel {
     this.object3d.add(this.closeButton);
   }
 
+  /** Change the panel's size after construction, e.g. once its content is laid out. */
+  protected resize(width: number, height: number) {
+    this.object3d.geometry.dispose();
+    this.object3d.geometry = new THREE.PlaneGeometry(width, height);
+    const btnSize = 0.12;
+    this.closeButton.position.set(width/2 - btnSize/2 - 0.05, height/2 - btnSize/2 - 0.05, 0.02);
+  }
+
   show() {
     this.object3d.visible = true;
   }
@@ -0,0 +1,32 @@
+import { Button, Label, WidgetPanel } from './Widgets';
+
+/**
+ * Clipping planes and slab: Add / Remove plane (new planes cut through the
+ * active structure; move them by their handles), the slab toggle, and slab
+ * thickness −/+ around the current value. The owner does the clipping
+ * through the callbacks.
+ */
+export class ClippingPanel extends WidgetPanel {
+  private slab = new Button('Slab', () => this.onToggleSlab());
+  private status = new Label('', { align: 'center' });
+
+  public onAddPlane: () => void = () => {};
+  public onRemovePlane: () => void = () => {};
+  public onToggleSlab: () => void = () => {};
+  public onThickness: (delta: number) => void = () => {};
+
+  constructor(width = 1.0, rowH = 0.1) {
+    super('Clipping', width, rowH);
+    this.addRow(new Button('Add plane', () => this.onAddPlane()), new Button('Remove plane', () => this.onRemovePlane()));
+    this.addRow(this.slab);
+    // plane count and slab thickness between the thickness buttons
+    this.addRow(new Button('−', () => this.onThickness(-1), 0.16), this.status, new Button('+', () => this.onThickness(1), 0.16));
+    this.setState(0, false, 0.3);
+  }
+
+  /** Plane count, slab on/off and slab thickness (m). */
+  setState(planes: number, slab: boolean, thickness: number) {
+    this.slab.active = slab;
+    this.status.setText(`${planes} plane${planes === 1 ? '' : 's'} · slab ${Math.round(thickness * 100)} cm`);
+  }
+}
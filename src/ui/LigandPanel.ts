@@ -0,0 +1,37 @@
+import { Button, Label, ListView, WidgetPanel } from './Widgets';
+
+// ligands listed at once; longer lists scroll
+const MAX_ROWS = 6;
+
+/**
+ * Ligand list for binding-pocket focus: one entry per detected ligand,
+ * pocket radius −/+ with the current value, and "Exit focus". The active
+ * ligand is highlighted. The owner does the actual focusing through
+ * `onSelect`, `onRadius` and `onExit`.
+ */
+export class LigandPanel extends WidgetPanel {
+  private list = new ListView(MAX_ROWS);
+  private status = new Label('', { align: 'center' });
+  private exit = new Button('Exit focus', () => this.onExit());
+
+  public onSelect: (index: number) => void = () => {};
+  public onRadius: (delta: number) => void = () => {};
+  public onExit: () => void = () => {};
+
+  constructor(width = 1.0, rowH = 0.1) {
+    super('Ligands', width, rowH);
+    this.list.onSelect = (i) => this.onSelect(i);
+    this.addRow(this.list);
+    this.addRow(new Button('−', () => this.onRadius(-1), 0.16), this.status, new Button('+', () => this.onRadius(1), 0.16));
+    this.addRow(this.exit);
+    this.setState([], -1, 5);
+  }
+
+  /** Ligand labels, the focused one (-1 for none) and the pocket radius in Å. */
+  setState(labels: string[], active: number, radius: number) {
+    this.list.setItems(labels, active);
+    this.exit.visible = active >= 0;
+    if (labels.length) this.status.setText(`Pocket ${radius.toFixed(1)} Å`, '#fff');
+    else this.status.setText('No ligands found', '#999');
+  }
+}
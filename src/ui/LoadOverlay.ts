@@ -2,12 +2,14 @@ import { loadPDB, Atom } from '../molecule/PDBLoader';
 
 /**
  * Simple HTML overlay with an input and load button. Attaches to document.body.
- * Exposes show()/hide() and emits onLoad(id).
+ * Exposes show()/hide() and emits onLoad(id). A separate status line at the
+ * bottom of the page reports load progress via showProgress()/hideProgress().
  */
 export class LoadOverlay {
   private root: HTMLDivElement;
   private input: HTMLInputElement;
   private button: HTMLButtonElement;
+  private status: HTMLDivElement;
   public onLoad: (id: string) => void = () => {};
 
   constructor() {
@@ -51,6 +53,23 @@ export class LoadOverlay {
     this.root.appendChild(this.input);
     this.root.appendChild(this.button);
     document.body.appendChild(this.root);
+
+    this.status = document.createElement('div');
+    Object.assign(this.status.style, {
+      position: 'absolute',
+      bottom: '20px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      padding: '6px 12px',
+      background: 'rgba(0,0,0,0.6)',
+      color: '#fff',
+      borderRadius: '4px',
+      display: 'none',
+      zIndex: '1000',
+      fontFamily: 'sans-serif',
+      fontSize: '14px',
+    } as CSSStyleDeclaration);
+    document.body.appendChild(this.status);
   }
 
   show() {
@@ -61,4 +80,13 @@ export class LoadOverlay {
   hide() {
     this.root.style.display = 'none';
   }
+
+  showProgress(text: string) {
+    this.status.textContent = text;
+    this.status.style.display = 'block';
+  }
+
+  hideProgress() {
+    this.status.style.display = 'none';
+  }
 }
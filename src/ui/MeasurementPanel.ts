@@ -0,0 +1,64 @@
+import { MEASUREMENT_ATOMS, MeasurementKind } from '../molecule/Measurements';
+import { Button, Label, WidgetPanel } from './Widgets';
+
+const KINDS: MeasurementKind[] = ['distance', 'angle', 'dihedral'];
+const KIND_LABELS: Record<MeasurementKind, string> = { distance: 'Distance', angle: 'Angle', dihedral: 'Dihedral' };
+// measurements listed at once; older ones scroll off the top
+const MAX_ROWS = 5;
+
+/** One line of the measurement list. */
+export interface MeasurementRow {
+  id: number;
+  label: string;
+}
+
+/**
+ * Measurement mode controls: a row of kind buttons (distance / angle /
+ * dihedral), a status line with the picking progress, the latest measurements
+ * each with a remove button, and "Clear all". While the panel is open the
+ * owner treats trigger picks on atoms as measurement picks; `onHide` ends the
+ * mode when the panel goes away.
+ */
+export class MeasurementPanel extends WidgetPanel {
+  private rows: MeasurementRow[] = [];
+  private kinds = KINDS.map((kind) => new Button(KIND_LABELS[kind], () => this.onKind(kind)));
+  private status = new Label('', { color: '#ffaa00' });
+  private labels: Label[] = [];
+  private removes: Button[] = [];
+
+  public onKind: (kind: MeasurementKind) => void = () => {};
+  public onRemove: (id: number) => void = () => {};
+  public onClear: () => void = () => {};
+  public onHide: () => void = () => {};
+
+  constructor(width = 1.2, rowH = 0.1) {
+    super('Measure', width, rowH);
+    this.addRow(...this.kinds);
+    this.addRow(this.status);
+    for (let r = 0; r < MAX_ROWS; r++) {
+      this.labels.push(new Label(''));
+      this.removes.push(new Button('✕', () => this.onRemove(this.rows[r].id), 0.12));
+      this.addRow(this.labels[r], this.removes[r]);
+    }
+    this.addRow(new Button('Clear all', () => this.onClear()));
+    this.setState('distance', 0, []);
+  }
+
+  hide() {
+    const wasVisible = this.object3d.visible;
+    super.hide();
+    if (wasVisible) this.onHide();
+  }
+
+  /** Active kind, atoms picked towards the next measurement and all measurements (oldest first). */
+  setState(kind: MeasurementKind, pending: number, rows: MeasurementRow[]) {
+    this.rows = rows.slice(-MAX_ROWS);
+    this.kinds.forEach((button, i) => (button.active = KINDS[i] === kind));
+    this.status.setText(`${KIND_LABELS[kind]}: pick atom ${pending + 1} of ${MEASUREMENT_ATOMS[kind]}`);
+    for (let r = 0; r < MAX_ROWS; r++) {
+      const row = this.rows[r];
+      this.labels[r].setText(row?.label ?? (r === 0 ? 'No measurements yet' : ''), row ? '#fff' : '#999');
+      this.removes[r].visible = !!row;
+    }
+  }
+}
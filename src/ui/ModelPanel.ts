@@ -0,0 +1,33 @@
+import { Button, Label, WidgetPanel } from './Widgets';
+
+/**
+ * Playback controls for multi-model (NMR ensemble) structures.
+ * Shows "Model i / n" and a row of buttons: previous, play/pause, next and
+ * ensemble overlay. Button presses are forwarded through the on* callbacks;
+ * the owner reports the resulting state back via setState().
+ */
+export class ModelPanel extends WidgetPanel {
+  private label = new Label('No models', { align: 'center' });
+  private play = new Button('Play', () => this.onTogglePlay());
+  private ensemble = new Button('All', () => this.onToggleEnsemble());
+
+  public onPrev: () => void = () => {};
+  public onNext: () => void = () => {};
+  public onTogglePlay: () => void = () => {};
+  public onToggleEnsemble: () => void = () => {};
+
+  constructor(width = 1.0, rowH = 0.15) {
+    super('Models', width, rowH);
+    this.addRow(this.label);
+    this.addRow(new Button('◀', () => this.onPrev()), this.play, new Button('▶', () => this.onNext()), this.ensemble);
+  }
+
+  /** Reflect the current playback state in the label and button captions. */
+  setState(index: number, count: number, playing: boolean, ensemble: boolean) {
+    let label = ensemble ? `Ensemble (${count} models)` : `Model ${index + 1} / ${count}`;
+    if (!count) label = 'No models';
+    this.label.setText(label);
+    this.play.setLabel(playing ? 'Pause' : 'Play');
+    this.ensemble.setLabel(ensemble ? 'One' : 'All');
+  }
+}
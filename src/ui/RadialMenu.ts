@@ -24,6 +24,14 @@ export class RadialMenu {
       this.addItem('Settings', () => console.log('Settings clicked'));
       this.addItem('Load', () => console.log('Load clicked'));
       this.addItem('Visuals', () => console.log('Visuals clicked'));
+      this.addItem('Models', () => console.log('Models clicked'));
+      this.addItem('Measure', () => console.log('Measure clicked'));
+      this.addItem('Ligands', () => console.log('Ligands clicked'));
+      this.addItem('Sequence', () => console.log('Sequence clicked'));
+      this.addItem('Structures', () => console.log('Structures clicked'));
+      this.addItem('Superpose', () => console.log('Superpose clicked'));
+      this.addItem('Clipping', () => console.log('Clipping clicked'));
+      this.addItem('Slab', () => console.log('Slab clicked'));
     }
 
     this.buildMesh();
@@ -43,7 +51,9 @@ export class RadialMenu {
     const segAngle = (2 * Math.PI) / this.items.length;
     for (let i = 0; i < this.items.length; i++) {
       const geom = new THREE.RingGeometry(radius * 0.7, radius, 32, 1, i * segAngle, segAngle);
-      const mat = new THREE.MeshBasicMaterial({ color: 0x2266aa, side: THREE.DoubleSide, depthTest: false, depthWrite: false });
+      // always transparent: three draws opaque objects first, so an opaque menu would be
+      // blended over by translucent surfaces despite its renderOrder
+      const mat = new THREE.MeshBasicMaterial({ color: 0x2266aa, side: THREE.DoubleSide, depthTest: false, depthWrite: false, transparent: true });
       const wedge = new THREE.Mesh(geom, mat);
       wedge.renderOrder = 999;
       wedge.userData.index = i;
@@ -107,12 +117,10 @@ export class RadialMenu {
     op = THREE.MathUtils.clamp(op, 0, 1);
     for (const wedge of this.wedges) {
       const mat = wedge.material as THREE.MeshBasicMaterial;
-      mat.transparent = op < 1;
       mat.opacity = op;
     }
     for (const spr of this.sprites) {
       const mat = spr.material as THREE.SpriteMaterial;
-      mat.transparent = op < 1;
       mat.opacity = op;
     }
   }
@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import type { ChainSequence } from '../molecule/Sequence';
+import { Button, CanvasView, WidgetPanel } from './Widgets';
+
+// chain rows and sequence positions shown at once
+const ROWS = 4;
+const WINDOW = 30;
+// share of the strip's width taken by the chain labels
+const LABEL_SHARE = 1 / 16;
+
+/**
+ * 1D sequence strip, one row per chain, scrolled with ◀ ▶ (positions) and
+ * ▲ ▼ (chains). Unmodelled positions are shaded. Pointing at a residue
+ * reports it through `onHover` (-1 when the pointer leaves it), selecting it
+ * through `onPick`; highlight() marks a residue picked elsewhere and scrolls
+ * it into view.
+ */
+export class SequencePanel extends WidgetPanel {
+  // status line plus one line per chain row
+  private strip = new CanvasView((ctx, width, height) => this.draw(ctx, width, height), ROWS + 1, 1024);
+  private chains: ChainSequence[] = [];
+  private offset = 0;
+  private firstRow = 0;
+  private hoverResidue = -1;
+  private highlighted = -1;
+
+  public onHover: (residue: number) => void = () => {};
+  public onPick: (residue: number) => void = () => {};
+
+  constructor(width = 1.6, rowH = 0.1) {
+    super('Sequence', width, rowH);
+    this.strip.onPointer = (uv) => this.setHoverResidue(uv ? this.residueAt(uv) : -1);
+    this.strip.onClick = () => {
+      if (this.hoverResidue < 0) return false;
+      this.onPick(this.hoverResidue);
+      return true;
+    };
+    this.addRow(this.strip);
+    this.addRow(
+      new Button('◀', () => this.scroll(-(WINDOW >> 1), 0)),
+      new Button('▶', () => this.scroll(WINDOW >> 1, 0)),
+      new Button('▲', () => this.scroll(0, -1)),
+      new Button('▼', () => this.scroll(0, 1))
+    );
+  }
+
+  hide() {
+    super.hide();
+    this.setHoverResidue(-1);
+  }
+
+  /** Show the sequences of a newly loaded structure, scrolled to the start. */
+  setSequences(chains: ChainSequence[]) {
+    this.chains = chains;
+    this.offset = 0;
+    this.firstRow = 0;
+    this.hoverResidue = -1;
+    this.highlighted = -1;
+    this.strip.draw();
+  }
+
+  /** Mark a residue (index into `Structure.residues`, -1 for none) and scroll it into view. */
+  highlight(residue: number) {
+    this.highlighted = residue;
+    for (let row = 0; row < this.chains.length; row++) {
+      const col = this.chains[row].entries.findIndex((e) => e.residue === residue);
+      if (col < 0) continue;
+      if (row < this.firstRow || row >= this.firstRow + ROWS) this.firstRow = Math.max(0, Math.min(row, this.chains.length - ROWS));
+      if (col < this.offset || col >= this.offset + WINDOW) this.offset = Math.max(0, col - (WINDOW >> 1));
+      break;
+    }
+    this.strip.draw();
+  }
+
+  /* ------------ helpers ------------ */
+  private scroll(positions: number, rows: number) {
+    const longest = Math.max(0, ...this.chains.map((c) => c.entries.length));
+    this.offset = THREE.MathUtils.clamp(this.offset + positions, 0, Math.max(0, longest - WINDOW));
+    this.firstRow = THREE.MathUtils.clamp(this.firstRow + rows, 0, Math.max(0, this.chains.length - ROWS));
+    this.strip.draw();
+  }
+
+  /** Modelled residue under a strip texture coordinate, or -1. */
+  private residueAt(uv: THREE.Vector2): number {
+    const line = Math.floor((1 - uv.y) * (ROWS + 1));
+    const col = Math.floor(((uv.x - LABEL_SHARE) / (1 - LABEL_SHARE)) * WINDOW);
+    const chain = this.chains[this.firstRow + line - 1];
+    if (line < 1 || col < 0 || col >= WINDOW || !chain) return -1;
+    return chain.entries[this.offset + col]?.residue ?? -1;
+  }
+
+  /** Canvas layout: a status line, then ROWS lines of a chain label followed by WINDOW cells. */
+  private draw(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    const lineH = height / (ROWS + 1);
+    const labelW = width * LABEL_SHARE;
+    const cellW = (width - labelW) / WINDOW;
+    ctx.textBaseline = 'middle';
+
+    ctx.textAlign = 'left';
+    ctx.font = `${Math.round(lineH * 0.45)}px sans-serif`;
+    if (!this.chains.length) {
+      ctx.fillStyle = '#999';
+      ctx.fillText('No polymer chains', 8, lineH / 2);
+    } else {
+      const longest = Math.max(...this.chains.map((c) => c.entries.length));
+      const last = Math.min(this.offset + WINDOW, longest);
+      const rows = this.chains.length > ROWS ? `  ·  chains ${this.firstRow + 1}–${Math.min(this.firstRow + ROWS, this.chains.length)} of ${this.chains.length}` : '';
+      ctx.fillStyle = '#fff';
+      ctx.fillText(`Positions ${this.offset + 1}–${last} of ${longest}${rows}  ·  shaded = not modelled`, 8, lineH / 2, width - 16);
+    }
+
+    ctx.textAlign = 'center';
+    ctx.font = `bold ${Math.round(Math.min(lineH, cellW) * 0.6)}px monospace`;
+    for (let r = 0; r < ROWS; r++) {
+      const chain = this.chains[this.firstRow + r];
+      if (!chain) break;
+      const y = lineH * (r + 1);
+      ctx.fillStyle = '#aaa';
+      ctx.fillText(chain.chainId || '–', labelW / 2, y + lineH / 2);
+      for (let c = 0; c < WINDOW; c++) {
+        const entry = chain.entries[this.offset + c];
+        if (!entry) break;
+        const x = labelW + c * cellW;
+        const modelled = entry.residue !== undefined;
+        if (modelled && entry.residue === this.highlighted) {
+          ctx.fillStyle = '#ffcc00';
+        } else if (modelled && entry.residue === this.hoverResidue) {
+          ctx.fillStyle = '#2266aa';
+        } else {
+          ctx.fillStyle = modelled ? '#444' : '#2a2a2a';
+        }
+        ctx.fillRect(x + 1, y + 2, cellW - 2, lineH - 4);
+        ctx.fillStyle = modelled ? (entry.residue === this.highlighted ? '#000' : '#fff') : '#777';
+        ctx.fillText(entry.code, x + cellW / 2, y + lineH / 2);
+      }
+    }
+  }
+
+  private setHoverResidue(residue: number) {
+    if (this.hoverResidue === residue) return;
+    this.hoverResidue = residue;
+    this.strip.draw();
+    this.onHover(residue);
+  }
+}
@@ -0,0 +1,109 @@
+import type { ChainSequence } from '../molecule/Sequence';
+
+/**
+ * Desktop counterpart of SequencePanel: a horizontally scrollable HTML strip
+ * along the top of the page, one line per chain. Unmodelled positions are
+ * dimmed. Emits onHover(residue) (-1 on leave) and onPick(residue) with
+ * indices into `Structure.residues`; highlight() marks a residue and scrolls
+ * it into view.
+ */
+export class SequenceStrip {
+  private root: HTMLDivElement;
+  private cells = new Map<number, HTMLSpanElement>();
+  private highlighted?: HTMLSpanElement;
+  private hasSequences = false;
+  private enabled = true;
+  public onHover: (residue: number) => void = () => {};
+  public onPick: (residue: number) => void = () => {};
+
+  constructor() {
+    this.root = document.createElement('div');
+    Object.assign(this.root.style, {
+      position: 'absolute',
+      top: '0',
+      left: '0',
+      right: '0',
+      maxHeight: '30%',
+      overflow: 'auto',
+      padding: '6px 8px',
+      background: 'rgba(0,0,0,0.6)',
+      color: '#fff',
+      display: 'none',
+      zIndex: '900',
+      fontFamily: 'monospace',
+      fontSize: '14px',
+      whiteSpace: 'nowrap',
+    } as CSSStyleDeclaration);
+
+    // delegated so thousands of residue cells need no listeners of their own
+    this.root.addEventListener('mouseover', (e) => this.onHover(this.residueOf(e.target)));
+    this.root.addEventListener('mouseleave', () => this.onHover(-1));
+    this.root.addEventListener('click', (e) => {
+      const residue = this.residueOf(e.target);
+      if (residue >= 0) this.onPick(residue);
+    });
+    document.body.appendChild(this.root);
+  }
+
+  /** Replace the strip contents; hidden when there are no polymer chains. */
+  setSequences(chains: ChainSequence[]) {
+    this.root.textContent = '';
+    this.cells.clear();
+    this.highlighted = undefined;
+    for (const chain of chains) {
+      const line = document.createElement('div');
+      const label = document.createElement('span');
+      label.textContent = `${chain.chainId || '–'} `;
+      label.style.color = '#aaa';
+      line.appendChild(label);
+      chain.entries.forEach((entry, i) => {
+        const cell = document.createElement('span');
+        cell.textContent = entry.code;
+        cell.style.padding = '0 1px';
+        if (entry.residue === undefined) {
+          cell.style.color = '#666';
+          cell.title = entry.name ? `${entry.name} (not modelled)` : 'gap';
+        } else {
+          cell.style.cursor = 'pointer';
+          cell.dataset.residue = String(entry.residue);
+          cell.title = `${entry.name} · position ${i + 1}`;
+          this.cells.set(entry.residue, cell);
+        }
+        // a thin gap every ten positions
+        if (i % 10 === 9) cell.style.marginRight = '6px';
+        line.appendChild(cell);
+      });
+      this.root.appendChild(line);
+    }
+    this.hasSequences = chains.length > 0;
+    this.updateVisibility();
+  }
+
+  /** Mark a residue (-1 for none) and scroll it into view. */
+  highlight(residue: number) {
+    if (this.highlighted) {
+      this.highlighted.style.background = '';
+      this.highlighted.style.color = '';
+    }
+    this.highlighted = this.cells.get(residue);
+    if (!this.highlighted) return;
+    this.highlighted.style.background = '#ffcc00';
+    this.highlighted.style.color = '#000';
+    this.highlighted.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }
+
+  /** Show or hide the strip, e.g. while an immersive session is running. */
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.updateVisibility();
+  }
+
+  private updateVisibility() {
+    this.root.style.display = this.enabled && this.hasSequences ? 'block' : 'none';
+  }
+
+  private residueOf(target: EventTarget | null): number {
+    const residue = (target as HTMLElement | null)?.dataset?.residue;
+    return residue === undefined ? -1 : Number(residue);
+  }
+}
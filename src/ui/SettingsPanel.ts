@@ -0,0 +1,73 @@
+import { COLOR_THEMES, COLOR_THEME_LABELS } from '../molecule/ColorThemes';
+import { SETTING_RANGES, Settings } from '../scenes/Settings';
+import { Button, Label, ListView, Slider, Toggle, WidgetPanel } from './Widgets';
+
+/**
+ * Preferences in three tabs: controls (locomotion speed, dominant hand,
+ * context-menu hold time), display (auto-rotate and its speed, wrist menu
+ * size) and the style new structures start in. Every edit is reported as a
+ * patch through onChange; the owner stores it and reports back with
+ * setState().
+ */
+export class SettingsPanel extends WidgetPanel {
+  public onChange: (patch: Partial<Settings>) => void = () => {};
+  public onReset: () => void = () => {};
+  private speed = new Slider({ ...range(SETTING_RANGES.locomotionSpeed), step: 0.5, format: (v) => `Speed ${v.toFixed(1)} m/s` });
+  private leftHand = new Button('Left', () => this.onChange({ dominantHand: 'left' }));
+  private rightHand = new Button('Right', () => this.onChange({ dominantHand: 'right' }));
+  private holdTime = new Slider({ ...range(SETTING_RANGES.holdTime), step: 0.05, format: (v) => `Hold ${v.toFixed(2)} s` });
+  private autoRotate = new Toggle('Auto-rotate', true, (on) => this.onChange({ autoRotate: on }), 0.3);
+  private rotateSpeed = new Slider({ ...range(SETTING_RANGES.autoRotateSpeed), step: 0.05, format: (v) => `${v.toFixed(2)} rad/s` });
+  private menuScale = new Slider({ ...range(SETTING_RANGES.menuScale), step: 0.1, format: (v) => `Menu ×${v.toFixed(1)}` });
+  private styles = new ListView(3);
+  private themes = new ListView(3);
+  private styleLabels: string[] = [];
+
+  constructor(width = 1.2, rowH = 0.1) {
+    super('Settings', width, rowH);
+    this.speed.onChange = (v) => this.onChange({ locomotionSpeed: v });
+    this.holdTime.onChange = (v) => this.onChange({ holdTime: v });
+    this.rotateSpeed.onChange = (v) => this.onChange({ autoRotateSpeed: v });
+    this.menuScale.onChange = (v) => this.onChange({ menuScale: v });
+    this.styles.onSelect = (i) => this.onChange({ representation: this.styleLabels[i] });
+    // first entry: each representation's own default
+    this.themes.onSelect = (i) => this.onChange({ colorTheme: i === 0 ? undefined : COLOR_THEMES[i - 1] });
+
+    this.addTabs(['Controls', 'Display', 'New structures'], [
+      [
+        [this.speed],
+        [new Label('Dominant hand', { width: 0.4 }), this.leftHand, this.rightHand],
+        [new Label('Context menu', { width: 0.4 }), this.holdTime],
+        [new Label('T – toggle Orbit / Walk (desktop only)', { color: '#ccc' })],
+      ],
+      [
+        [this.autoRotate, this.rotateSpeed],
+        [this.menuScale],
+      ],
+      [
+        [new Label('Representation'), new Label('Colour theme')],
+        [this.styles, this.themes],
+      ],
+    ]);
+    this.addRow(new Button('Reset to defaults', () => this.onReset()));
+  }
+
+  /** Show `settings`; `styles` are the representation labels to choose from. */
+  setState(settings: Settings, styles: string[]) {
+    this.styleLabels = styles;
+    this.speed.value = settings.locomotionSpeed;
+    this.leftHand.active = settings.dominantHand === 'left';
+    this.rightHand.active = settings.dominantHand === 'right';
+    this.holdTime.value = settings.holdTime;
+    this.autoRotate.value = settings.autoRotate;
+    this.rotateSpeed.value = settings.autoRotateSpeed;
+    this.menuScale.value = settings.menuScale;
+    this.styles.setItems(styles, styles.indexOf(settings.representation));
+    const themes = ['Representation default', ...COLOR_THEMES.map((id) => COLOR_THEME_LABELS[id])];
+    this.themes.setItems(themes, settings.colorTheme ? COLOR_THEMES.indexOf(settings.colorTheme) + 1 : 0);
+  }
+}
+
+function range([min, max]: readonly [number, number]) {
+  return { min, max };
+}
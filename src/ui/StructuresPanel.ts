@@ -0,0 +1,67 @@
+import { Button, WidgetPanel } from './Widgets';
+
+// structures listed at once
+const MAX_ROWS = 4;
+
+/** One line of the structure list. */
+export interface StructureRow {
+  id: number;
+  label: string;
+  visible: boolean;
+  active: boolean;
+}
+
+/**
+ * Loaded structures, one row each: the name (selecting it makes that
+ * structure the one panels and picking act on), Show/Hide, Focus and a
+ * remove button. The active structure's name is highlighted. Below the
+ * rows, "Reset position" puts the active structure back on its pedestal and
+ * "Auto-rotate" toggles the idle spin.
+ */
+export class StructuresPanel extends WidgetPanel {
+  private rows: StructureRow[] = [];
+  private nameButtons: Button[] = [];
+  private showButtons: Button[] = [];
+  private focusButtons: Button[] = [];
+  private removeButtons: Button[] = [];
+  private autoRotate = new Button('Auto-rotate', () => this.onToggleAutoRotate());
+
+  public onActivate: (id: number) => void = () => {};
+  public onToggleVisible: (id: number) => void = () => {};
+  public onFocus: (id: number) => void = () => {};
+  public onRemove: (id: number) => void = () => {};
+  public onResetPlacement: () => void = () => {};
+  public onToggleAutoRotate: () => void = () => {};
+
+  constructor(width = 1.2, rowH = 0.1) {
+    super('Structures', width, rowH);
+    for (let r = 0; r < MAX_ROWS; r++) {
+      const row = [
+        new Button('', () => this.onActivate(this.rows[r].id)),
+        new Button('', () => this.onToggleVisible(this.rows[r].id), 0.2),
+        new Button('Focus', () => this.onFocus(this.rows[r].id), 0.2),
+        new Button('✕', () => this.onRemove(this.rows[r].id), 0.12),
+      ];
+      [this.nameButtons[r], this.showButtons[r], this.focusButtons[r], this.removeButtons[r]] = row;
+      this.addRow(...row);
+    }
+    this.addRow(new Button('Reset position', () => this.onResetPlacement()), this.autoRotate);
+    this.setState([], true);
+  }
+
+  setState(rows: StructureRow[], autoRotate: boolean) {
+    this.rows = rows.slice(0, MAX_ROWS);
+    this.autoRotate.active = autoRotate;
+    this.autoRotate.setLabel(`Auto-rotate: ${autoRotate ? 'On' : 'Off'}`);
+    for (let r = 0; r < MAX_ROWS; r++) {
+      const row = this.rows[r];
+      [this.nameButtons[r], this.showButtons[r], this.focusButtons[r], this.removeButtons[r]].forEach((b) => (b.visible = !!row));
+      if (!row) continue;
+      this.nameButtons[r].setLabel(row.label, row.visible ? '#fff' : '#999');
+      this.nameButtons[r].active = row.active;
+      this.showButtons[r].setLabel(row.visible ? 'Hide' : 'Show');
+    }
+    if (rows.length) this.setTitle(`Structures (${rows.length})`);
+    else this.setTitle('No structures loaded', '#999');
+  }
+}
@@ -0,0 +1,56 @@
+import { Button, Label, WidgetPanel } from './Widgets';
+
+/** What the info lines show; `rmsd` etc. are absent until a fit has been made. */
+export interface SuperpositionInfo {
+  mobile?: string;
+  target?: string;
+  /** Å */
+  rmsd?: number;
+  aligned?: number;
+  /** 0–1 */
+  identity?: number;
+  /** Reason the last fit failed. */
+  error?: string;
+  coloured: boolean;
+}
+
+/**
+ * Superposition of the active structure (mobile) onto another loaded one
+ * (target): an info block with both names, the Cα RMSD, aligned-pair count
+ * and sequence identity, plus Next target, Superpose, Colour by deviation
+ * and Reset buttons. The owner does the fitting through the callbacks.
+ */
+export class SuperpositionPanel extends WidgetPanel {
+  private lines = [0, 1, 2, 3].map(() => new Label(''));
+  private deviation = new Button('Colour by deviation', () => this.onToggleDeviation());
+
+  public onNextTarget: () => void = () => {};
+  public onSuperpose: () => void = () => {};
+  public onToggleDeviation: () => void = () => {};
+  public onReset: () => void = () => {};
+
+  constructor(width = 1.2, rowH = 0.1) {
+    super('Superpose', width, rowH);
+    this.lines.forEach((line) => this.addRow(line));
+    this.addRow(new Button('Next target', () => this.onNextTarget()), new Button('Superpose', () => this.onSuperpose()));
+    this.addRow(this.deviation, new Button('Reset', () => this.onReset()));
+    this.setState({ coloured: false });
+  }
+
+  setState(info: SuperpositionInfo) {
+    this.deviation.active = info.coloured;
+    const lines: [string, string][] = [
+      ['#fff', `Mobile: ${info.mobile ?? '–'}`],
+      ['#fff', `Target: ${info.target ?? (info.mobile ? 'load a second structure' : '–')}`],
+    ];
+    if (info.error) {
+      lines.push(['#f88', info.error]);
+    } else if (info.rmsd !== undefined) {
+      lines.push(['#ffcc00', `Cα RMSD ${info.rmsd.toFixed(2)} Å`]);
+      lines.push(['#ccc', `${info.aligned} aligned residues · ${Math.round((info.identity ?? 0) * 100)}% identity`]);
+    } else {
+      lines.push(['#999', 'Not superposed']);
+    }
+    this.lines.forEach((line, i) => line.setText(lines[i]?.[1] ?? '', lines[i]?.[0]));
+  }
+}
@@ -1,10 +1,21 @@
 import * as THREE from 'three';
 import { BasePanel } from './BasePanel';
 import { TextPanel } from './TextPanel';
+import { WidgetPanel } from './Widgets';
 import { QuickLoadPanel } from './QuickLoadPanel';
 import { PdbInputPanel } from './PdbInputPanel';
+import { ModelPanel } from './ModelPanel';
+import { VisualsPanel } from './VisualsPanel';
+import { AtomInfoPanel } from './AtomInfoPanel';
+import { MeasurementPanel } from './MeasurementPanel';
+import { LigandPanel } from './LigandPanel';
+import { SequencePanel } from './SequencePanel';
+import { StructuresPanel } from './StructuresPanel';
+import { SuperpositionPanel } from './SuperpositionPanel';
+import { ClippingPanel } from './ClippingPanel';
+import { SettingsPanel } from './SettingsPanel';
 
-export type PanelId = 'help' | 'settings' | 'visuals' | 'quickLoad' | 'pdbInput';
+export type PanelId = 'help' | 'settings' | 'visuals' | 'quickLoad' | 'pdbInput' | 'models' | 'atomInfo' | 'measure' | 'ligands' | 'sequence' | 'structures' | 'superpose' | 'clipping';
 
 /**
  * Centralised helper that owns all overlay UI panels (help, settings, visuals, quick-load).
@@ -17,10 +28,18 @@ export class UIPanelManager {
   private scene: THREE.Scene;
 
   private helpPanel: TextPanel;
-  private settingsPanel: TextPanel;
-  private visPanel: TextPanel;
+  private settingsPanel: SettingsPanel;
+  private visPanel: VisualsPanel;
   private quickLoad: QuickLoadPanel;
   private pdbInput: PdbInputPanel;
+  private modelPanel: ModelPanel;
+  private atomInfo: AtomInfoPanel;
+  private measurePanel: MeasurementPanel;
+  private ligandPanel: LigandPanel;
+  private sequencePanel: SequencePanel;
+  private structuresPanel: StructuresPanel;
+  private superpositionPanel: SuperpositionPanel;
+  private clippingPanel: ClippingPanel;
 
   // expose quick-load select externally
   public onQuickLoadSelect: (id: string) => void = () => {};
@@ -33,40 +52,29 @@ export class UIPanelManager {
     this.helpPanel = new TextPanel([
       'WebXR Molecule Viewer',
       '',
-      'Left Controller:',
+      'Menu hand (left unless changed in Settings):',
       '  • Thumb-stick  – highlight wrist menu',
       '  • Grip         – show/hide wrist menu',
       '',
-      'Right Controller:',
+      'Dominant hand (right unless changed in Settings):',
       '  • Trigger tap  – select',
       '  • Trigger hold – context menu',
       '',
+      'Either Grip on a molecule:',
+      '  • One hand     – grab, move and rotate',
+      '  • Both hands   – rotate and pull apart to scale',
+      '  • Structures panel – reset position, auto-rotate',
+      '  • On a clipping plane knob – move / tilt the plane',
+      '',
       'Radial Menu items:',
-      '  Help, Settings, Visuals, Load',
+      '  Help, Settings, Visuals, Load, Models, Measure, Ligands, Sequence, Structures, Superpose, Clipping, Slab',
     ]);
 
-    this.settingsPanel = new TextPanel([
-      'Settings',
-      '',
-      'Locomotion:',
-      '  T  – toggle Orbit / Walk (desktop only)',
-      '',
-      'Coming soon:',
-      '  • Colour presets',
-      '  • Molecule auto-scale',
-    ]);
+    // preferences; filled in and persisted by the scene
+    this.settingsPanel = new SettingsPanel();
 
-    this.visPanel = new TextPanel([
-      'Visual Styles',
-      '',
-      '1  Ball-and-Stick',
-      '2  Space-Filling',
-      '3  Wireframe',
-      '4  Transparent Surface',
-      '5  Ribbon/Cartoon',
-      '',
-      'Click Visuals on menu to cycle',
-    ]);
+    // layer stack, style / theme buttons, radius slider and legend; filled in by the scene
+    this.visPanel = new VisualsPanel();
 
     // Pre-curated small-ish proteins to avoid heavy GPU load
     this.quickLoad = new QuickLoadPanel(['1CRN', '1UBQ', '2PTL', '1STP', '2F4B']);
@@ -76,8 +84,32 @@ export class UIPanelManager {
     this.pdbInput = new PdbInputPanel(1.2, 0.15);
     this.pdbInput.onLoad = (id: string) => this.onQuickLoadSelect(id);
 
+    // NMR ensemble playback controls
+    this.modelPanel = new ModelPanel();
+
+    // picked-atom details (context menu "Info")
+    this.atomInfo = new AtomInfoPanel();
+
+    // measurement mode (distance / angle / dihedral picking)
+    this.measurePanel = new MeasurementPanel();
+
+    // ligand list and binding-pocket focus
+    this.ligandPanel = new LigandPanel();
+
+    // per-chain sequence strip linked to the 3D view
+    this.sequencePanel = new SequencePanel();
+
+    // loaded structures: show / hide / remove / focus
+    this.structuresPanel = new StructuresPanel();
+
+    // Cα superposition of the active structure onto another, RMSD read-out
+    this.superpositionPanel = new SuperpositionPanel();
+
+    // clipping planes and camera-relative slab
+    this.clippingPanel = new ClippingPanel();
+
     // add to scene & hide by default
-    [this.helpPanel, this.settingsPanel, this.visPanel, this.quickLoad, this.pdbInput].forEach(p => {
+    this.allPanels().forEach(p => {
       p.hide();
       this.scene.add(p.object3d);
     });
@@ -89,7 +121,7 @@ export class UIPanelManager {
     const willOpen = !panel.object3d.visible;
 
     // hide all
-    [this.helpPanel, this.settingsPanel, this.visPanel, this.quickLoad, this.pdbInput].forEach(p => p.hide());
+    this.allPanels().forEach(p => p.hide());
 
     if (willOpen) {
       this.placePanel(panel);
@@ -98,16 +130,26 @@ export class UIPanelManager {
     return willOpen;
   }
 
+  /** Hide all other panels and show the requested one (even if already open). */
+  open(id: PanelId) {
+    const panel = this.getPanel(id);
+    this.allPanels().forEach(p => {
+      if (p !== panel) p.hide();
+    });
+    this.placePanel(panel);
+    panel.show();
+  }
+
   /** Call once per frame to keep any visible panel in front of the user. */
   update() {
-    [this.helpPanel, this.settingsPanel, this.visPanel, this.quickLoad, this.pdbInput].forEach(p => {
+    this.allPanels().forEach(p => {
       if (p.object3d.visible) this.placePanel(p);
     });
   }
 
   /** Forward pointer ray to whichever panel is visible (for close btn & hover). */
   handlePointer(raycaster: THREE.Raycaster) {
-    [this.helpPanel, this.settingsPanel, this.visPanel, this.quickLoad, this.pdbInput].forEach(p => {
+    this.allPanels().forEach(p => {
       if (p.object3d.visible && (p as any).handlePointer) {
         (p as any).handlePointer(raycaster);
       }
@@ -117,7 +159,7 @@ export class UIPanelManager {
   /** Called on controller select to let any open panel react (e.g., close). Returns true if a panel handled the click. */
   handleSelect(): boolean {
     let consumed = false;
-    [this.helpPanel, this.settingsPanel, this.visPanel, this.quickLoad, this.pdbInput].forEach(p => {
+    this.allPanels().forEach(p => {
       if (p.object3d.visible && (p as any).select) {
         const res = (p as any).select();
         consumed = consumed || !!res;
@@ -126,6 +168,15 @@ export class UIPanelManager {
     return consumed;
   }
 
+  /** Physical keyboard input for a focused text field of a visible panel. Returns true if one took the key. */
+  handleKey(key: string): boolean {
+    return this.allPanels().some(p => p.object3d.visible && p instanceof WidgetPanel && p.typeKey(key));
+  }
+
+  getSettingsPanel(): SettingsPanel {
+    return this.settingsPanel;
+  }
+
   getQuickLoadPanel(): QuickLoadPanel {
     return this.quickLoad;
   }
@@ -134,7 +185,47 @@ export class UIPanelManager {
     return this.pdbInput;
   }
 
+  getModelPanel(): ModelPanel {
+    return this.modelPanel;
+  }
+
+  getVisualsPanel(): VisualsPanel {
+    return this.visPanel;
+  }
+
+  getAtomInfoPanel(): AtomInfoPanel {
+    return this.atomInfo;
+  }
+
+  getMeasurementPanel(): MeasurementPanel {
+    return this.measurePanel;
+  }
+
+  getLigandPanel(): LigandPanel {
+    return this.ligandPanel;
+  }
+
+  getSequencePanel(): SequencePanel {
+    return this.sequencePanel;
+  }
+
+  getStructuresPanel(): StructuresPanel {
+    return this.structuresPanel;
+  }
+
+  getSuperpositionPanel(): SuperpositionPanel {
+    return this.superpositionPanel;
+  }
+
+  getClippingPanel(): ClippingPanel {
+    return this.clippingPanel;
+  }
+
   /* -------------------- internals -------------------- */
+  private allPanels(): BasePanel[] {
+    return [this.helpPanel, this.settingsPanel, this.visPanel, this.quickLoad, this.pdbInput, this.modelPanel, this.atomInfo, this.measurePanel, this.ligandPanel, this.sequencePanel, this.structuresPanel, this.superpositionPanel, this.clippingPanel];
+  }
+
   private getPanel(id: PanelId): BasePanel {
     switch (id) {
       case 'help': return this.helpPanel;
@@ -142,6 +233,14 @@ export class UIPanelManager {
       case 'visuals': return this.visPanel;
       case 'quickLoad': return this.quickLoad;
       case 'pdbInput': return this.pdbInput;
+      case 'models': return this.modelPanel;
+      case 'atomInfo': return this.atomInfo;
+      case 'measure': return this.measurePanel;
+      case 'ligands': return this.ligandPanel;
+      case 'sequence': return this.sequencePanel;
+      case 'structures': return this.structuresPanel;
+      case 'superpose': return this.superpositionPanel;
+      case 'clipping': return this.clippingPanel;
     }
   }
 
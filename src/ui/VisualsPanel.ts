@@ -0,0 +1,170 @@
+import { COLOR_THEMES, COLOR_THEME_LABELS, ColorThemeId, LegendEntry } from '../molecule/ColorThemes';
+import { RADIUS_SCALE_RANGE } from '../molecule/PDBLoader';
+import { Button, CanvasView, Slider, WidgetPanel } from './Widgets';
+
+/** What the interaction overlay shows: the two partners and a swatch per type. */
+export interface InteractionSummary {
+  scope: string;
+  /** One entry per interaction type, label including the count. */
+  entries: LegendEntry[];
+}
+
+/** One line of the layer stack, e.g. "Cartoon · polymer". */
+export interface LayerRow {
+  label: string;
+  visible: boolean;
+}
+
+/** Everything the panel shows; see setState(). */
+export interface VisualsState {
+  layers: LayerRow[];
+  /** Layer the style, colour and radius controls edit; -1 for none. */
+  selected: number;
+  /** Representation of the selected layer, an index into the style labels. */
+  style: number;
+  /** Theme the selected layer is drawn in. */
+  theme?: ColorThemeId;
+  legend: LegendEntry[];
+  radiusScale: number;
+  /** Undefined while the interaction overlay is off. */
+  interactions?: InteractionSummary;
+}
+
+// layers listed at once
+const MAX_LAYERS = 4;
+// style and theme grids
+const GRID_COLUMNS = 4;
+const MAX_STYLES = 8;
+
+/**
+ * Representation layer stack of the active structure: one row per layer
+ * (selecting a row makes it the one the controls below act on; Show/Hide
+ * and ✕ per row), a button per representation style and per colour theme,
+ * a sphere / bond radius slider, the selected layer's legend, and the state
+ * of the non-covalent interaction overlay. "Selection ▶" steps the layer
+ * through preset selections, "+ Layer" adds one and "Preset" loads cartoon +
+ * ligand + pocket surface. The owner applies the changes and reports back
+ * with setState().
+ */
+export class VisualsPanel extends WidgetPanel {
+  private state: VisualsState = { layers: [], selected: -1, style: -1, legend: [], radiusScale: 1 };
+  // theme legend and interaction overlay
+  private info = new CanvasView((ctx, width, height) => this.drawInfo(ctx, width, height), 4);
+  private layerNames: Button[] = [];
+  private layerToggles: Button[] = [];
+  private layerRemoves: Button[] = [];
+  private styles: Button[] = [];
+  private themes = COLOR_THEMES.map((id) => new Button(COLOR_THEME_LABELS[id], () => this.onTheme(id)));
+  private radius = new Slider({
+    min: RADIUS_SCALE_RANGE[0],
+    max: RADIUS_SCALE_RANGE[1],
+    step: 0.05,
+    value: 1,
+    labelShare: 0.3,
+    format: (v) => `Radius ×${v.toFixed(2)}`,
+  });
+
+  public onSelectLayer: (index: number) => void = () => {};
+  public onToggleLayer: (index: number) => void = () => {};
+  public onRemoveLayer: (index: number) => void = () => {};
+  public onNextSelection: () => void = () => {};
+  public onStyle: (index: number) => void = () => {};
+  public onTheme: (theme: ColorThemeId) => void = () => {};
+  public onRadius: (scale: number) => void = () => {};
+  public onAddLayer: () => void = () => {};
+  public onPreset: () => void = () => {};
+  public onToggleInteractions: () => void = () => {};
+
+  constructor(width = 1.2, rowH = 0.1) {
+    super('Visuals', width, rowH);
+    this.addRow(this.info);
+    for (let r = 0; r < MAX_LAYERS; r++) {
+      this.layerNames.push(new Button('', () => this.onSelectLayer(r)));
+      this.layerToggles.push(new Button('', () => this.onToggleLayer(r), 0.2));
+      this.layerRemoves.push(new Button('✕', () => this.onRemoveLayer(r), 0.12));
+      this.addRow(this.layerNames[r], this.layerToggles[r], this.layerRemoves[r]);
+    }
+    for (let i = 0; i < MAX_STYLES; i++) this.styles.push(new Button('', () => this.onStyle(i)));
+    this.addGrid(this.styles);
+    this.addGrid(this.themes);
+    this.radius.onChange = (v) => this.onRadius(v);
+    this.addRow(this.radius);
+    this.addRow(
+      new Button('Selection ▶', () => this.onNextSelection()),
+      new Button('+ Layer', () => this.onAddLayer()),
+      new Button('Preset', () => this.onPreset()),
+      new Button('Interactions', () => this.onToggleInteractions())
+    );
+    this.setStyles([]);
+    this.setState(this.state);
+  }
+
+  /** Names of the representation styles, in the order onStyle() indexes them. */
+  setStyles(labels: string[]) {
+    this.styles.forEach((button, i) => {
+      button.visible = i < labels.length;
+      button.setLabel(labels[i] ?? '');
+    });
+  }
+
+  setState(state: VisualsState) {
+    this.state = { ...state, layers: state.layers.slice(0, MAX_LAYERS) };
+    for (let r = 0; r < MAX_LAYERS; r++) {
+      const row = this.state.layers[r];
+      [this.layerNames[r], this.layerToggles[r], this.layerRemoves[r]].forEach((b) => (b.visible = !!row));
+      if (!row) continue;
+      this.layerNames[r].setLabel(row.label, row.visible ? '#fff' : '#999');
+      this.layerNames[r].active = r === state.selected;
+      this.layerToggles[r].setLabel(row.visible ? 'Hide' : 'Show');
+    }
+    this.styles.forEach((button, i) => (button.active = i === state.style));
+    this.themes.forEach((button, i) => (button.active = COLOR_THEMES[i] === state.theme));
+    this.radius.value = state.radiusScale;
+    this.info.draw();
+  }
+
+  /* ------------ helpers ------------ */
+  private addGrid(buttons: Button[]) {
+    for (let i = 0; i < buttons.length; i += GRID_COLUMNS) this.addRow(...buttons.slice(i, i + GRID_COLUMNS));
+  }
+
+  private drawInfo(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    const { state } = this;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+
+    // legend of the selected layer's theme on the left
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.fillText(`Colour: ${state.theme ? COLOR_THEME_LABELS[state.theme] : 'None'}`, 16, 8, width / 2 - 24);
+    ctx.font = '16px sans-serif';
+    const rowH = 20;
+    const maxRows = Math.floor((height - 40) / rowH);
+    state.legend.slice(0, maxRows).forEach((entry, i) => {
+      const y = 36 + i * rowH;
+      ctx.fillStyle = `#${entry.color.toString(16).padStart(6, '0')}`;
+      ctx.fillRect(16, y + 2, 14, 14);
+      ctx.fillStyle = '#ddd';
+      ctx.fillText(entry.label, 38, y, width / 2 - 46);
+    });
+
+    // interaction overlay on the right
+    const x = width / 2 + 8;
+    const { interactions } = state;
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.fillText(`Interactions: ${interactions ? 'on' : 'off'}`, x, 8);
+    if (interactions) {
+      ctx.font = '16px sans-serif';
+      ctx.fillStyle = '#ccc';
+      ctx.fillText(interactions.scope, x, 34, width / 2 - 24);
+      interactions.entries.slice(0, maxRows - 1).forEach((entry, i) => {
+        const y = 58 + i * rowH;
+        ctx.fillStyle = `#${entry.color.toString(16).padStart(6, '0')}`;
+        ctx.fillRect(x, y + 2, 14, 14);
+        ctx.fillStyle = '#ddd';
+        ctx.fillText(entry.label, x + 22, y, width / 2 - 38);
+      });
+    }
+  }
+}
@@ -0,0 +1,809 @@
+import * as THREE from 'three';
+import { BasePanel } from './BasePanel';
+
+/**
+ * Building blocks for in-VR panels. A WidgetPanel lays widgets out in rows
+ * from the top (fixed-width widgets keep their width, the others share the
+ * rest of the row), hit-tests the pointer ray against them every frame and
+ * forwards the trigger / click to the widget under it. Widgets draw their
+ * own hover, press and active states in the colours every panel uses.
+ */
+
+const BUTTON_COLOR = 0x555555;
+const HOVER_COLOR = 0x888888;
+const PRESS_COLOR = 0xaaaaaa;
+const ACTIVE_COLOR = 0x2266aa;
+const DISABLED_COLOR = 0x3a3a3a;
+// gap between neighbouring widgets and around the panel's content (m)
+const GAP = 0.02;
+const MARGIN = 0.05;
+// how long a widget shows its pressed colour after a click (ms)
+const PRESS_TIME = 150;
+
+/* ------------ drawing helpers ------------ */
+function makeTextSprite(w: number, h: number): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = Math.max(16, Math.round((512 * h) / w));
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false })
+  );
+  sprite.scale.set(w, h, 1);
+  return sprite;
+}
+
+function drawText(sprite: THREE.Sprite, text: string, color = '#fff', align: CanvasTextAlign = 'center', bold = false) {
+  const texture = sprite.material.map as THREE.CanvasTexture;
+  const canvas = texture.image as HTMLCanvasElement;
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = color;
+  ctx.font = `${bold ? 'bold ' : ''}${Math.round(canvas.height * 0.8)}px sans-serif`;
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  const x = align === 'left' ? 4 : align === 'right' ? canvas.width - 4 : canvas.width / 2;
+  ctx.fillText(text, x, canvas.height / 2, canvas.width - 8);
+  texture.needsUpdate = true;
+}
+
+function makePlate(w: number, h: number): THREE.Mesh {
+  return new THREE.Mesh(
+    new THREE.PlaneGeometry(w, h),
+    new THREE.MeshBasicMaterial({ color: BUTTON_COLOR, side: THREE.DoubleSide })
+  );
+}
+
+/** True when the object and all of its ancestors are visible. */
+function shown(obj: THREE.Object3D | null): boolean {
+  for (; obj; obj = obj.parent) if (!obj.visible) return false;
+  return true;
+}
+
+/* ------------ widgets ------------ */
+/**
+ * Base of all widgets. `build()` creates the geometry once the layout has
+ * assigned a size; meshes returned by hitTargets() carry `userData.widget`
+ * so a ray hit resolves to the (innermost) widget that owns it.
+ */
+export abstract class Widget {
+  readonly object3d = new THREE.Group();
+  /** Fixed width (m); undefined shares the row's remaining width. */
+  width?: number;
+  /** Height in rows of the panel. */
+  rows = 1;
+  protected hovered = false;
+  private pressedUntil = 0;
+
+  get visible(): boolean {
+    return this.object3d.visible;
+  }
+
+  set visible(visible: boolean) {
+    this.object3d.visible = visible;
+  }
+
+  /** Create the geometry for the size (m) the layout gives the widget; called once. */
+  abstract build(width: number, height: number): void;
+
+  /** Meshes the pointer can hit. */
+  hitTargets(): THREE.Object3D[] {
+    return [];
+  }
+
+  /** The pointer ray hits this widget (`hit`) or has left it (undefined). */
+  pointer(hit?: THREE.Intersection) {
+    if (this.hovered === !!hit) return;
+    this.hovered = !!hit;
+    this.redraw();
+  }
+
+  /** Trigger / click while hovered; false when it did nothing. */
+  activate(): boolean {
+    return false;
+  }
+
+  /** Expire timed states; called with every pointer update. */
+  tick() {
+    if (this.pressedUntil && !this.pressed) {
+      this.pressedUntil = 0;
+      this.redraw();
+    }
+  }
+
+  /** Flash the pressed colour. */
+  protected press() {
+    this.pressedUntil = performance.now() + PRESS_TIME;
+    this.redraw();
+  }
+
+  protected get pressed(): boolean {
+    return performance.now() < this.pressedUntil;
+  }
+
+  /** Tag a mesh as belonging to this widget for hit-testing. */
+  protected target<T extends THREE.Object3D>(obj: T): T {
+    obj.userData.widget = this;
+    return obj;
+  }
+
+  /** Colour of a plate in the current state; pressed wins over hover over active. */
+  protected plateColor(active = false, enabled = true): number {
+    if (!enabled) return DISABLED_COLOR;
+    if (this.pressed) return PRESS_COLOR;
+    if (this.hovered) return HOVER_COLOR;
+    return active ? ACTIVE_COLOR : BUTTON_COLOR;
+  }
+
+  protected redraw() {}
+}
+
+export interface LabelOptions {
+  width?: number;
+  align?: CanvasTextAlign;
+  color?: string;
+  bold?: boolean;
+}
+
+/** A line of static text. */
+export class Label extends Widget {
+  private sprite?: THREE.Sprite;
+  private text: string;
+  private color: string;
+
+  constructor(text: string, private options: LabelOptions = {}) {
+    super();
+    this.text = text;
+    this.color = options.color ?? '#fff';
+    this.width = options.width;
+  }
+
+  build(width: number, height: number) {
+    this.sprite = makeTextSprite(width, Math.min(height, 0.1) * 0.6);
+    this.object3d.add(this.sprite);
+    this.redraw();
+  }
+
+  setText(text: string, color = this.color) {
+    this.text = text;
+    this.color = color;
+    this.redraw();
+  }
+
+  protected redraw() {
+    if (this.sprite) drawText(this.sprite, this.text, this.color, this.options.align ?? 'left', this.options.bold);
+  }
+}
+
+/** A push button; `active` keeps it highlighted, e.g. for the current choice. */
+export class Button extends Widget {
+  private plate?: THREE.Mesh;
+  private sprite?: THREE.Sprite;
+  private label: string;
+  private labelColor = '#fff';
+  private isActive = false;
+  private isEnabled = true;
+
+  constructor(label: string, public onClick: () => void = () => {}, width?: number, private align: CanvasTextAlign = 'center') {
+    super();
+    this.label = label;
+    this.width = width;
+  }
+
+  get active(): boolean {
+    return this.isActive;
+  }
+
+  set active(active: boolean) {
+    if (this.isActive === active) return;
+    this.isActive = active;
+    this.redraw();
+  }
+
+  /** Disabled buttons are dimmed and ignore clicks. */
+  get enabled(): boolean {
+    return this.isEnabled;
+  }
+
+  set enabled(enabled: boolean) {
+    if (this.isEnabled === enabled) return;
+    this.isEnabled = enabled;
+    this.redraw();
+  }
+
+  build(width: number, height: number) {
+    this.plate = this.target(makePlate(width - GAP, height - GAP));
+    this.sprite = makeTextSprite((width - GAP) * 0.9, Math.min(height, 0.1) * 0.5);
+    this.sprite.position.z = 0.001;
+    this.object3d.add(this.plate, this.sprite);
+    this.redraw();
+  }
+
+  setLabel(label: string, color = '#fff') {
+    if (this.label === label && this.labelColor === color) return;
+    this.label = label;
+    this.labelColor = color;
+    this.redraw();
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return this.plate ? [this.plate] : [];
+  }
+
+  activate(): boolean {
+    if (!this.isEnabled) return false;
+    this.press();
+    this.onClick();
+    return true;
+  }
+
+  protected redraw() {
+    if (!this.plate || !this.sprite) return;
+    (this.plate.material as THREE.MeshBasicMaterial).color.set(this.plateColor(this.isActive, this.isEnabled));
+    drawText(this.sprite, this.label, this.isEnabled ? this.labelColor : '#888', this.align);
+  }
+}
+
+/** A button that stays highlighted while on. */
+export class Toggle extends Button {
+  constructor(label: string, value = false, public onChange: (value: boolean) => void = () => {}, width?: number) {
+    super(label, undefined, width);
+    this.onClick = () => {
+      this.active = !this.active;
+      this.onChange(this.active);
+    };
+    this.active = value;
+  }
+
+  get value(): boolean {
+    return this.active;
+  }
+
+  /** Set without calling onChange. */
+  set value(value: boolean) {
+    this.active = value;
+  }
+}
+
+export interface SliderOptions {
+  min: number;
+  max: number;
+  /** Values snap to multiples of this. */
+  step?: number;
+  value?: number;
+  width?: number;
+  /** Text left of the track; no label when omitted. */
+  format?: (value: number) => string;
+  /** Share of the width the label takes. */
+  labelShare?: number;
+}
+
+/** A value label and a track; clicking the track moves the knob to that point. */
+export class Slider extends Widget {
+  public onChange: (value: number) => void = () => {};
+  private current: number;
+  private track?: THREE.Mesh;
+  private knob?: THREE.Mesh;
+  private sprite?: THREE.Sprite;
+  private trackWidth = 0;
+  // position under the pointer along the track, 0–1
+  private pointed = 0;
+
+  constructor(private options: SliderOptions) {
+    super();
+    this.width = options.width;
+    this.current = this.snap(options.value ?? options.min);
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  /** Set without calling onChange. */
+  set value(value: number) {
+    this.current = this.snap(value);
+    this.redraw();
+  }
+
+  build(width: number, height: number) {
+    const labelW = this.options.format ? width * (this.options.labelShare ?? 0.35) : 0;
+    this.trackWidth = width - labelW - GAP;
+    if (this.options.format) {
+      this.sprite = makeTextSprite(labelW, Math.min(height, 0.1) * 0.5);
+      this.sprite.position.x = -width / 2 + labelW / 2;
+      this.object3d.add(this.sprite);
+    }
+    const track = this.target(makePlate(this.trackWidth, Math.min(height, 0.1) * 0.3));
+    track.position.x = width / 2 - GAP / 2 - this.trackWidth / 2;
+    const knob = new THREE.Mesh(new THREE.CircleGeometry(Math.min(height, 0.1) * 0.3, 24), new THREE.MeshBasicMaterial({ color: 0xffffff }));
+    knob.position.z = 0.002;
+    this.object3d.add(track, knob);
+    this.track = track;
+    this.knob = knob;
+    this.redraw();
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return this.track ? [this.track] : [];
+  }
+
+  pointer(hit?: THREE.Intersection) {
+    if (hit && this.track) {
+      const local = this.track.worldToLocal(hit.point.clone());
+      this.pointed = THREE.MathUtils.clamp(local.x / this.trackWidth + 0.5, 0, 1);
+    }
+    super.pointer(hit);
+  }
+
+  activate(): boolean {
+    const { min, max } = this.options;
+    const value = this.snap(min + this.pointed * (max - min));
+    this.press();
+    if (value === this.current) return true;
+    this.current = value;
+    this.redraw();
+    this.onChange(value);
+    return true;
+  }
+
+  private snap(value: number): number {
+    const { min, max, step } = this.options;
+    const snapped = step ? min + Math.round((value - min) / step) * step : value;
+    // round off float noise from the step arithmetic
+    return THREE.MathUtils.clamp(Number(snapped.toFixed(6)), min, max);
+  }
+
+  protected redraw() {
+    if (!this.track || !this.knob) return;
+    const { min, max, format } = this.options;
+    (this.track.material as THREE.MeshBasicMaterial).color.set(this.plateColor());
+    const t = max > min ? (this.current - min) / (max - min) : 0;
+    this.knob.position.x = this.track.position.x + (t - 0.5) * this.trackWidth;
+    if (this.sprite && format) drawText(this.sprite, format(this.current), '#fff', 'left');
+  }
+}
+
+/**
+ * A scrollable list of `visibleRows` entries with ▲ / ▼ buttons beside it;
+ * the selected entry is highlighted.
+ */
+export class ListView extends Widget {
+  public onSelect: (index: number) => void = () => {};
+  private items: Button[] = [];
+  private up: Button;
+  private down: Button;
+  private labels: string[] = [];
+  private selected = -1;
+  private offset = 0;
+
+  constructor(private visibleRows: number, width?: number) {
+    super();
+    this.rows = visibleRows;
+    this.width = width;
+    for (let i = 0; i < visibleRows; i++) {
+      this.items.push(new Button('', () => this.onSelect(this.offset + i), undefined, 'left'));
+    }
+    this.up = new Button('▲', () => this.scroll(-1));
+    this.down = new Button('▼', () => this.scroll(1));
+  }
+
+  build(width: number, height: number) {
+    const rowH = height / this.visibleRows;
+    const arrowW = 0.12;
+    const itemW = width - arrowW;
+    this.items.forEach((item, i) => {
+      item.build(itemW, rowH);
+      item.object3d.position.set(-width / 2 + itemW / 2, height / 2 - rowH * (i + 0.5), 0);
+      this.object3d.add(item.object3d);
+    });
+    this.up.build(arrowW, rowH);
+    this.up.object3d.position.set(width / 2 - arrowW / 2, height / 2 - rowH / 2, 0);
+    this.down.build(arrowW, rowH);
+    this.down.object3d.position.set(width / 2 - arrowW / 2, -height / 2 + rowH / 2, 0);
+    this.object3d.add(this.up.object3d, this.down.object3d);
+    this.refresh();
+  }
+
+  /** Replace the entries; the view scrolls to keep `selected` in sight. */
+  setItems(labels: string[], selected = -1) {
+    this.labels = labels;
+    this.selected = selected;
+    if (selected >= 0 && (selected < this.offset || selected >= this.offset + this.visibleRows)) {
+      this.offset = selected - Math.floor(this.visibleRows / 2);
+    }
+    this.refresh();
+  }
+
+  scroll(rows: number) {
+    this.offset += rows;
+    this.refresh();
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return [...this.items, this.up, this.down].flatMap((b) => b.hitTargets());
+  }
+
+  tick() {
+    [...this.items, this.up, this.down].forEach((b) => b.tick());
+  }
+
+  private refresh() {
+    const maxOffset = Math.max(0, this.labels.length - this.visibleRows);
+    this.offset = THREE.MathUtils.clamp(this.offset, 0, maxOffset);
+    this.items.forEach((item, i) => {
+      const index = this.offset + i;
+      item.visible = index < this.labels.length;
+      item.setLabel(this.labels[index] ?? '');
+      item.active = index === this.selected;
+    });
+    const scrollable = maxOffset > 0;
+    this.up.visible = this.down.visible = scrollable;
+    this.up.enabled = this.offset > 0;
+    this.down.enabled = this.offset < maxOffset;
+  }
+}
+
+/** A row of mutually exclusive buttons; see WidgetPanel.addTabs() for switching pages. */
+export class Tabs extends Widget {
+  public onChange: (index: number) => void = () => {};
+  private buttons: Button[];
+  private current = 0;
+
+  constructor(labels: string[], width?: number) {
+    super();
+    this.width = width;
+    this.buttons = labels.map((label, i) => new Button(label, () => this.setSelected(i, true)));
+    this.buttons[0].active = true;
+  }
+
+  get selected(): number {
+    return this.current;
+  }
+
+  build(width: number, height: number) {
+    const w = width / this.buttons.length;
+    this.buttons.forEach((button, i) => {
+      button.build(w, height);
+      button.object3d.position.x = -width / 2 + w * (i + 0.5);
+      this.object3d.add(button.object3d);
+    });
+  }
+
+  /** Switch tabs; onChange only fires when `notify` is set (i.e. for user clicks). */
+  setSelected(index: number, notify = false) {
+    if (!this.buttons[index] || index === this.current) return;
+    this.current = index;
+    this.buttons.forEach((b, i) => (b.active = i === index));
+    if (notify) this.onChange(index);
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return this.buttons.flatMap((b) => b.hitTargets());
+  }
+
+  tick() {
+    this.buttons.forEach((b) => b.tick());
+  }
+}
+
+export interface TextFieldOptions {
+  width?: number;
+  placeholder?: string;
+  maxLength?: number;
+  /** Typed text is upper-cased, e.g. for PDB IDs. */
+  upperCase?: boolean;
+}
+
+/**
+ * A single line of editable text. Clicking it focuses it (the owning panel
+ * keeps at most one field focused); text comes in through type() /
+ * backspace(), from a Keyboard widget or WidgetPanel.typeKey().
+ */
+export class TextField extends Widget {
+  public onChange: (text: string) => void = () => {};
+  /** Enter on a physical keyboard. */
+  public onSubmit: (text: string) => void = () => {};
+  /** Set by the owning panel when the field is clicked. */
+  public onFocus: () => void = () => {};
+  private plate?: THREE.Mesh;
+  private sprite?: THREE.Sprite;
+  private content = '';
+  private isFocused = false;
+
+  constructor(private options: TextFieldOptions = {}) {
+    super();
+    this.width = options.width;
+  }
+
+  get text(): string {
+    return this.content;
+  }
+
+  /** Set without calling onChange. */
+  set text(text: string) {
+    this.content = text.slice(0, this.options.maxLength);
+    this.redraw();
+  }
+
+  get focused(): boolean {
+    return this.isFocused;
+  }
+
+  set focused(focused: boolean) {
+    if (this.isFocused === focused) return;
+    this.isFocused = focused;
+    this.redraw();
+  }
+
+  build(width: number, height: number) {
+    this.plate = this.target(makePlate(width - GAP, height - GAP));
+    this.sprite = makeTextSprite((width - GAP) * 0.95, Math.min(height, 0.15) * 0.6);
+    this.sprite.position.z = 0.001;
+    this.object3d.add(this.plate, this.sprite);
+    this.redraw();
+  }
+
+  type(text: string) {
+    const max = this.options.maxLength ?? Infinity;
+    if (this.content.length >= max) return;
+    this.content = (this.content + (this.options.upperCase ? text.toUpperCase() : text)).slice(0, max);
+    this.redraw();
+    this.onChange(this.content);
+  }
+
+  backspace() {
+    if (!this.content) return;
+    this.content = this.content.slice(0, -1);
+    this.redraw();
+    this.onChange(this.content);
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return this.plate ? [this.plate] : [];
+  }
+
+  activate(): boolean {
+    this.press();
+    this.onFocus();
+    return true;
+  }
+
+  protected redraw() {
+    if (!this.plate || !this.sprite) return;
+    (this.plate.material as THREE.MeshBasicMaterial).color.set(this.isFocused && !this.hovered ? 0x222222 : this.plateColor());
+    const empty = !this.content && !this.isFocused;
+    const text = empty ? this.options.placeholder ?? '' : this.content + (this.isFocused ? '|' : '');
+    drawText(this.sprite, text, empty ? '#999' : '#fff');
+  }
+}
+
+/**
+ * On-screen keys, one string per row; '←' deletes. Keys type into `target`
+ * unless onKey is replaced.
+ */
+export class Keyboard extends Widget {
+  public onKey: (key: string) => void;
+  private keys: Button[][];
+
+  constructor(private layout: string[], target?: TextField, width?: number) {
+    super();
+    this.rows = layout.length;
+    this.width = width;
+    this.onKey = (key) => {
+      if (!target) return;
+      if (key === '←') target.backspace();
+      else target.type(key);
+    };
+    this.keys = layout.map((row) => [...row].map((key) => new Button(key, () => this.onKey(key))));
+  }
+
+  build(width: number, height: number) {
+    const rowH = height / this.layout.length;
+    // keys keep the width of the longest row so shorter rows are centred
+    const keyW = width / Math.max(...this.keys.map((row) => row.length));
+    this.keys.forEach((row, r) => {
+      row.forEach((key, i) => {
+        key.build(keyW, rowH);
+        key.object3d.position.set((i - (row.length - 1) / 2) * keyW, height / 2 - rowH * (r + 0.5), 0);
+        this.object3d.add(key.object3d);
+      });
+    });
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return this.keys.flat().flatMap((k) => k.hitTargets());
+  }
+
+  tick() {
+    this.keys.flat().forEach((k) => k.tick());
+  }
+}
+
+/**
+ * A canvas the owner paints through `paint` (legends, the sequence strip),
+ * on build and on every draw(). With `onPointer` set it is a hit target and
+ * reports the texture coordinate under the pointer (undefined once it
+ * leaves); onClick handles the trigger and returns whether it did anything.
+ */
+export class CanvasView extends Widget {
+  public onPointer?: (uv?: THREE.Vector2) => void;
+  public onClick: () => boolean = () => false;
+  private mesh?: THREE.Mesh;
+  private canvas?: HTMLCanvasElement;
+  private texture?: THREE.CanvasTexture;
+
+  constructor(
+    private paint: (ctx: CanvasRenderingContext2D, width: number, height: number) => void,
+    rows = 1,
+    private resolution = 512
+  ) {
+    super();
+    this.rows = rows;
+  }
+
+  build(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.resolution;
+    canvas.height = Math.round((this.resolution * height) / width);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.minFilter = THREE.LinearFilter;
+    const mesh = this.target(new THREE.Mesh(new THREE.PlaneGeometry(width, height), new THREE.MeshBasicMaterial({ map: texture, transparent: true })));
+    this.object3d.add(mesh);
+    this.canvas = canvas;
+    this.texture = texture;
+    this.mesh = mesh;
+    this.draw();
+  }
+
+  /** Clear the canvas and paint it again. */
+  draw() {
+    if (!this.canvas || !this.texture) return;
+    const ctx = this.canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.paint(ctx, this.canvas.width, this.canvas.height);
+    this.texture.needsUpdate = true;
+  }
+
+  hitTargets(): THREE.Object3D[] {
+    return this.mesh && this.onPointer ? [this.mesh] : [];
+  }
+
+  pointer(hit?: THREE.Intersection) {
+    this.onPointer?.(hit?.uv);
+  }
+
+  activate(): boolean {
+    return this.onClick();
+  }
+}
+
+/* ------------ panel ------------ */
+/**
+ * A BasePanel whose content is declared as rows of widgets. Rows are laid
+ * out from the top below a title line; the panel grows to fit each added
+ * row. Hover, clicks and focus of text fields are handled here, so
+ * subclasses only create widgets and wire their callbacks.
+ */
+export class WidgetPanel extends BasePanel {
+  private content = new THREE.Group();
+  private heading: Label;
+  private widgets: Widget[] = [];
+  private hovered?: Widget;
+  private focusedField?: TextField;
+  private panelWidth: number;
+  // top of the next row, measured down from the panel's top edge
+  private cursor: number;
+
+  constructor(title: string, width = 1.0, protected rowH = 0.1) {
+    super(width, rowH + 0.16, 0x333333);
+    this.panelWidth = width;
+    this.object3d.add(this.content);
+    this.heading = new Label(title, { width: width * 0.5, bold: true });
+    this.heading.build(width * 0.5, rowH);
+    this.heading.object3d.position.set(-width / 2 + MARGIN + width * 0.25, -0.05 - rowH / 2, 0.01);
+    this.content.add(this.heading.object3d);
+    this.cursor = 0.06 + rowH;
+    this.fit();
+  }
+
+  /** Replace the title line, e.g. with a count or an empty-state note. */
+  protected setTitle(title: string, color = '#fff') {
+    this.heading.setText(title, color);
+  }
+
+  /** Append a row; fixed-width widgets keep their width, the others split what is left. */
+  protected addRow(...widgets: Widget[]) {
+    const height = this.layoutRow(widgets, this.cursor);
+    this.cursor += height;
+    this.fit();
+  }
+
+  /**
+   * A tab strip followed by one page of rows per tab. Pages share the same
+   * space (as tall as the tallest page); only the selected one is shown.
+   */
+  protected addTabs(labels: string[], pages: Widget[][][]): Tabs {
+    const tabs = new Tabs(labels);
+    this.addRow(tabs);
+    const top = this.cursor;
+    let tallest = 0;
+    pages.forEach((rows) => {
+      let y = top;
+      rows.forEach((row) => (y += this.layoutRow(row, y)));
+      tallest = Math.max(tallest, y - top);
+    });
+    const show = (index: number) => pages.forEach((rows, i) => rows.flat().forEach((w) => (w.visible = i === index)));
+    tabs.onChange = show;
+    show(0);
+    this.cursor += tallest;
+    this.fit();
+    return tabs;
+  }
+
+  /** Feed a key from a physical keyboard to the focused text field; false when none is focused. */
+  typeKey(key: string): boolean {
+    const field = this.focusedField;
+    if (!field || !shown(field.object3d)) return false;
+    if (key === 'Backspace') field.backspace();
+    else if (key === 'Enter') field.onSubmit(field.text);
+    else if (key.length === 1) field.type(key);
+    return true;
+  }
+
+  hide() {
+    super.hide();
+    this.focus(undefined);
+  }
+
+  /* ------------ interaction ------------ */
+  handlePointer(raycaster: THREE.Raycaster) {
+    super.handlePointer(raycaster);
+    this.widgets.forEach((w) => w.tick());
+    const targets = this.widgets.flatMap((w) => w.hitTargets()).filter((t) => shown(t));
+    const hit = raycaster.intersectObjects(targets, false)[0];
+    const widget = hit?.object.userData.widget as Widget | undefined;
+    if (this.hovered && this.hovered !== widget) this.hovered.pointer(undefined);
+    this.hovered = widget;
+    widget?.pointer(hit);
+  }
+
+  select(): boolean {
+    if (super.select()) return true;
+    const widget = this.hovered;
+    if (!widget || !shown(widget.object3d)) return false;
+    return widget.activate();
+  }
+
+  /* ------------ helpers ------------ */
+  private layoutRow(widgets: Widget[], top: number): number {
+    const inner = this.panelWidth - 2 * MARGIN;
+    const fixed = widgets.reduce((sum, w) => sum + (w.width ?? 0), 0);
+    const flexCount = widgets.filter((w) => w.width === undefined).length;
+    const flexW = flexCount ? (inner - fixed) / flexCount : 0;
+    const height = Math.max(...widgets.map((w) => w.rows)) * this.rowH;
+    let x = -this.panelWidth / 2 + MARGIN;
+    for (const widget of widgets) {
+      const w = widget.width ?? flexW;
+      const h = widget.rows * this.rowH;
+      widget.build(w, h);
+      widget.object3d.position.set(x + w / 2, -top - h / 2, 0.01);
+      x += w;
+      this.content.add(widget.object3d);
+      this.widgets.push(widget);
+      if (widget instanceof TextField) widget.onFocus = () => this.focus(widget);
+    }
+    return height;
+  }
+
+  private focus(field: TextField | undefined) {
+    if (this.focusedField) this.focusedField.focused = false;
+    this.focusedField = field;
+    if (field) field.focused = true;
+  }
+
+  /** Resize to the rows so far; content hangs from the top edge. */
+  private fit() {
+    const height = this.cursor + MARGIN * 2;
+    this.resize(this.panelWidth, height);
+    this.content.position.y = height / 2;
+  }
+}